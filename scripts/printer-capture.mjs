@@ -0,0 +1,78 @@
+// Stand-in for a network thermal printer. Listens for raw ESC/POS on TCP
+// (9100 by default, or PRINTER_CAPTURE_PORT), saves each print job to
+// captures/ as it was received and shows a plain-text preview.
+//
+//   npm run printer:capture
+//
+// Then add a printer in Settings with host 127.0.0.1 and the same port.
+
+import { createServer } from 'net';
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import iconv from 'iconv-lite';
+
+const port = Number(process.env.PRINTER_CAPTURE_PORT || 9100);
+const captureDir = path.join(process.cwd(), 'captures');
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const FS = 0x1c;
+
+// Length of the command at bytes[i], for the commands utils/escpos.ts sends
+function commandLength(bytes, i) {
+  const [prefix, command] = [bytes[i], bytes[i + 1]];
+  if (prefix === ESC) {
+    return command === 0x40 ? 2 : 3; // ESC @, or ESC a/E/d n
+  }
+  if (prefix === GS) {
+    return command === 0x56 && (bytes[i + 2] === 0x41 || bytes[i + 2] === 0x42) ? 4 : 3; // GS V m n, or GS ! n
+  }
+  if (prefix === FS) {
+    return command === 0x26 || command === 0x2e ? 2 : 3; // FS & / FS ., or FS C/! n
+  }
+  return 0;
+}
+
+// The printed text, with a rule where the paper is cut
+function preview(bytes) {
+  let text = '';
+  let chunk = [];
+  const flush = () => {
+    text += iconv.decode(Buffer.from(chunk), 'Shift_JIS');
+    chunk = [];
+  };
+  for (let i = 0; i < bytes.length;) {
+    const length = commandLength(bytes, i);
+    if (length === 0) {
+      chunk.push(bytes[i]);
+      i += 1;
+      continue;
+    }
+    flush();
+    if (bytes[i] === GS && bytes[i + 1] === 0x56) {
+      text += '\n==================== cut ====================\n';
+    }
+    i += length;
+  }
+  flush();
+  return text;
+}
+
+mkdirSync(captureDir, { recursive: true });
+
+const server = createServer(socket => {
+  const chunks = [];
+  socket.on('data', chunk => chunks.push(chunk));
+  socket.on('end', () => {
+    const bytes = Buffer.concat(chunks);
+    const file = path.join(captureDir, `${new Date().toISOString().replace(/[:.]/g, '-')}.bin`);
+    writeFileSync(file, bytes);
+    console.log(`Received ${bytes.length} bytes from ${socket.remoteAddress}, saved to ${file}`);
+    console.log(preview(bytes));
+  });
+  socket.on('error', error => console.error('Connection error:', error.message));
+});
+
+server.listen(port, () => {
+  console.log(`Capturing ESC/POS print jobs on port ${port}`);
+});
@@ -0,0 +1,366 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import toast, { Toaster } from 'react-hot-toast';
+
+interface TrendPoint {
+  date: string;
+  orders: number;
+  sales: number;
+  averageTicket: number;
+  reserved: number;
+  reservationShare: number;
+  averageDelay: number | null;
+}
+
+interface DelayStats {
+  orders: number;
+  medianMinutes: number | null;
+  averageMinutes: number | null;
+}
+
+interface Analytics {
+  from: string;
+  to: string;
+  bucket: 'day' | 'week';
+  totals: {
+    orders: number;
+    sales: number;
+    averageTicket: number;
+    reservationShare: number;
+    cancelled: number;
+  };
+  heatmap: number[][];
+  trend: TrendPoint[];
+  delay: {
+    immediate: DelayStats;
+    reserved: DelayStats;
+    histogram: number[];
+  };
+}
+
+const NO_CACHE_HEADERS = {
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+  'Pragma': 'no-cache',
+  'Expires': '0'
+};
+
+const RANGE_PRESETS = [7, 28, 90, 365];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Must match DELAY_BUCKET_LIMITS in utils/analytics
+const DELAY_LABELS = ['<15', '15-30', '30-45', '45-60', '60-90', '90-120', '120+'];
+
+const formatYen = (amount: number) => `¥${amount.toLocaleString('ja-JP')}`;
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+const formatMinutes = (minutes: number | null) => minutes === null ? '-' : `${minutes} min`;
+
+const shiftBusinessDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 4;
+
+// A single series as an SVG line with the peak and the first and last
+// dates labelled. Missing values break the line.
+const LineChart = ({ title, points, format, color }: {
+  title: string;
+  points: { date: string; value: number | null }[];
+  format: (value: number) => string;
+  color: string;
+}) => {
+  const values = points.map(point => point.value).filter((value): value is number => value !== null);
+  const max = Math.max(...values, 0);
+  const x = (index: number) => points.length > 1
+    ? CHART_PADDING + index * (CHART_WIDTH - CHART_PADDING * 2) / (points.length - 1)
+    : CHART_WIDTH / 2;
+  const y = (value: number) => CHART_HEIGHT - CHART_PADDING - (max > 0 ? value / max : 0) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const segments: string[] = [];
+  let current = '';
+  points.forEach((point, index) => {
+    if (point.value === null) {
+      if (current) {
+        segments.push(current);
+      }
+      current = '';
+      return;
+    }
+    current += `${current ? 'L' : 'M'}${x(index).toFixed(1)},${y(point.value).toFixed(1)} `;
+  });
+  if (current) {
+    segments.push(current);
+  }
+
+  return (
+    <section className="bg-white rounded-lg shadow-sm p-4">
+      <div className="flex items-baseline justify-between mb-2">
+        <h2 className="text-base font-bold text-gray-900">{title}</h2>
+        <span className="text-xs text-gray-500">Peak {format(max)}</span>
+      </div>
+      {values.length === 0 ? (
+        <p className="text-sm text-gray-500">No orders in this range.</p>
+      ) : (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40" preserveAspectRatio="none">
+          <line x1={0} y1={CHART_HEIGHT - CHART_PADDING} x2={CHART_WIDTH} y2={CHART_HEIGHT - CHART_PADDING} stroke="#e5e7eb" />
+          {segments.map((path, index) => (
+            <path key={index} d={path} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          ))}
+          {points.map((point, index) => point.value !== null && (
+            <circle key={point.date} cx={x(index)} cy={y(point.value)} r={points.length > 60 ? 0 : 2.5} fill={color}>
+              <title>{`${point.date}: ${format(point.value)}`}</title>
+            </circle>
+          ))}
+        </svg>
+      )}
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{points[0]?.date}</span>
+        <span>{points[points.length - 1]?.date}</span>
+      </div>
+    </section>
+  );
+};
+
+// Analytics over a range of business days. The server does the counting;
+// the page only draws what comes back.
+export default function AnalyticsPage() {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [currentBusinessDate, setCurrentBusinessDate] = useState('');
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAnalytics = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = from && to ? `?from=${from}&to=${to}` : '';
+      const response = await fetch(`/api/analytics${params}`, { cache: 'no-store', headers: NO_CACHE_HEADERS });
+      if (response.status === 401) {
+        window.location.href = '/login?next=/analytics';
+        return;
+      }
+      const data = await response.json();
+      if (data.success) {
+        setAnalytics(data.analytics);
+        setCurrentBusinessDate(data.currentBusinessDate);
+      } else {
+        toast.error(data.error || 'Failed to load analytics');
+      }
+    } catch (error) {
+      console.error('Error loading analytics:', error);
+      toast.error('Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const selectPreset = (days: number) => {
+    const end = currentBusinessDate || analytics?.to;
+    if (end) {
+      setTo(end);
+      setFrom(shiftBusinessDate(end, -(days - 1)));
+    }
+  };
+
+  const shownFrom = from || analytics?.from || '';
+  const shownTo = to || analytics?.to || '';
+  const heatmapMax = analytics ? Math.max(...analytics.heatmap.flat(), 0) : 0;
+  const histogramMax = analytics ? Math.max(...analytics.delay.histogram, 0) : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Toaster position="top-right" />
+
+      <header className="bg-white shadow-sm">
+        <div className="max-w-5xl mx-auto px-4 py-2 flex justify-between items-center">
+          <h1 className="text-3xl font-black" style={{ color: '#E83434' }}>Analytics</h1>
+          <Link href="/" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+            Back to dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {RANGE_PRESETS.map(days => (
+            <button
+              key={days}
+              type="button"
+              onClick={() => selectPreset(days)}
+              disabled={loading}
+              className="px-2 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              Last {days} days
+            </button>
+          ))}
+          <div className="flex items-center gap-1 ml-auto">
+            <input
+              type="date"
+              value={shownFrom}
+              max={shownTo}
+              onChange={(e) => {
+                if (e.target.value) {
+                  setTo(shownTo);
+                  setFrom(e.target.value);
+                }
+              }}
+              className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm"
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <input
+              type="date"
+              value={shownTo}
+              min={shownFrom}
+              max={currentBusinessDate}
+              onChange={(e) => {
+                if (e.target.value) {
+                  setFrom(shownFrom);
+                  setTo(e.target.value);
+                }
+              }}
+              className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm"
+            />
+          </div>
+        </div>
+
+        {loading && !analytics ? (
+          <div className="flex items-center gap-2">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+            <span className="text-sm text-gray-600">Loading...</span>
+          </div>
+        ) : analytics && (
+          <div className={`space-y-4 ${loading ? 'opacity-60' : ''}`}>
+            <section className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              {[
+                { label: 'Orders', value: analytics.totals.orders.toLocaleString('ja-JP') },
+                { label: 'Sales', value: formatYen(analytics.totals.sales) },
+                { label: 'Average ticket', value: formatYen(analytics.totals.averageTicket) },
+                { label: 'Reservations', value: formatPercent(analytics.totals.reservationShare) },
+                { label: 'Cancelled', value: analytics.totals.cancelled.toLocaleString('ja-JP') }
+              ].map(({ label, value }) => (
+                <div key={label} className="bg-white rounded-lg shadow-sm p-3">
+                  <div className="text-xs text-gray-500">{label}</div>
+                  <div className="text-xl font-bold text-gray-900 tabular-nums">{value}</div>
+                </div>
+              ))}
+            </section>
+            <p className="text-xs text-gray-500">
+              Cancelled orders are left out of every other figure.
+              {analytics.bucket === 'week' && ' Trends are shown by week (Monday to Sunday) for ranges this long.'}
+            </p>
+
+            <section className="bg-white rounded-lg shadow-sm p-4 overflow-x-auto">
+              <h2 className="text-base font-bold text-gray-900 mb-2">Orders by weekday and hour</h2>
+              <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+                <thead>
+                  <tr>
+                    <th></th>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <th key={hour} className="w-6 font-normal text-gray-500">{hour}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.heatmap.map((hours, weekday) => (
+                    <tr key={weekday}>
+                      <th className="pr-2 text-right font-normal text-gray-500">{WEEKDAYS[weekday]}</th>
+                      {hours.map((count, hour) => (
+                        <td
+                          key={hour}
+                          title={`${WEEKDAYS[weekday]} ${hour}:00 - ${count} orders`}
+                          className={`w-6 h-6 rounded-sm text-center ${count > 0 && count / heatmapMax > 0.6 ? 'text-white' : 'text-gray-700'}`}
+                          style={{ backgroundColor: count > 0 ? `rgba(232, 52, 52, ${0.1 + 0.9 * count / heatmapMax})` : '#f3f4f6' }}
+                        >
+                          {count > 0 ? count : ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <LineChart
+                title="Sales"
+                points={analytics.trend.map(point => ({ date: point.date, value: point.sales }))}
+                format={formatYen}
+                color="#E83434"
+              />
+              <LineChart
+                title="Orders"
+                points={analytics.trend.map(point => ({ date: point.date, value: point.orders }))}
+                format={(value) => String(value)}
+                color="#2563eb"
+              />
+              <LineChart
+                title="Average ticket"
+                points={analytics.trend.map(point => ({ date: point.date, value: point.orders > 0 ? point.averageTicket : null }))}
+                format={formatYen}
+                color="#059669"
+              />
+              <LineChart
+                title="Reservation share"
+                points={analytics.trend.map(point => ({ date: point.date, value: point.orders > 0 ? point.reservationShare : null }))}
+                format={formatPercent}
+                color="#7c3aed"
+              />
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <LineChart
+                title="Order to delivery time (immediate orders)"
+                points={analytics.trend.map(point => ({ date: point.date, value: point.averageDelay }))}
+                format={(value) => formatMinutes(value)}
+                color="#d97706"
+              />
+              <section className="bg-white rounded-lg shadow-sm p-4">
+                <h2 className="text-base font-bold text-gray-900 mb-2">Minutes from order to delivery time</h2>
+                <div className="flex items-end gap-2 h-32">
+                  {analytics.delay.histogram.map((count, index) => (
+                    <div key={DELAY_LABELS[index]} className="flex-1 flex flex-col items-center justify-end h-full">
+                      <span className="text-xs text-gray-700 tabular-nums">{count}</span>
+                      <div
+                        className="w-full bg-amber-500 rounded-t"
+                        style={{ height: `${histogramMax > 0 ? count / histogramMax * 100 : 0}%` }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2 mt-1">
+                  {DELAY_LABELS.map(label => (
+                    <span key={label} className="flex-1 text-center text-xs text-gray-500">{label}</span>
+                  ))}
+                </div>
+                <dl className="mt-3 grid grid-cols-2 gap-2 text-sm">
+                  <div>
+                    <dt className="text-xs text-gray-500">Immediate ({analytics.delay.immediate.orders})</dt>
+                    <dd className="text-gray-900">
+                      Median {formatMinutes(analytics.delay.immediate.medianMinutes)}, average {formatMinutes(analytics.delay.immediate.averageMinutes)}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-xs text-gray-500">Reservations ({analytics.delay.reserved.orders})</dt>
+                    <dd className="text-gray-900">
+                      Median {formatMinutes(analytics.delay.reserved.medianMinutes)} ahead
+                    </dd>
+                  </div>
+                </dl>
+              </section>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
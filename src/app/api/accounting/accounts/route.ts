@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { authorizeStaff } from '@/utils/staff';
+import {
+  checkJournalAccounts,
+  getJournalAccounts,
+  JOURNAL_ACCOUNT_KEYS,
+  JOURNAL_ACCOUNT_LABELS,
+  JournalAccountKey,
+  JournalAccountSetting,
+  saveJournalAccounts
+} from '@/utils/journal';
+
+export const dynamic = 'force-dynamic';
+
+// Accounts used in the journal export, in display order
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const accounts = await getJournalAccounts();
+    return NextResponse.json({
+      success: true,
+      accounts: JOURNAL_ACCOUNT_KEYS.map(key => ({ key, label: JOURNAL_ACCOUNT_LABELS[key], ...accounts[key] }))
+    });
+  } catch (error) {
+    console.error('Error fetching journal accounts:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch accounts' },
+      { status: 500 }
+    );
+  }
+}
+
+// Save accounts: { accounts: { [key]: { account, subAccount?, taxCategory? } } }.
+// Keys left out keep their current accounts.
+export async function PUT(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { accounts } = await request.json();
+    const validationError = checkJournalAccounts(accounts);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    await saveJournalAccounts(accounts as Partial<Record<JournalAccountKey, JournalAccountSetting>>);
+    console.log(`${auth.staff.name} updated the journal accounts`);
+    const saved = await getJournalAccounts();
+    return NextResponse.json({
+      success: true,
+      accounts: JOURNAL_ACCOUNT_KEYS.map(key => ({ key, label: JOURNAL_ACCOUNT_LABELS[key], ...saved[key] }))
+    });
+  } catch (error) {
+    console.error('Error saving journal accounts:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save accounts' },
+      { status: 500 }
+    );
+  }
+}
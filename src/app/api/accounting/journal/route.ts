@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { authorizeStaff } from '@/utils/staff';
+import { getBusinessDate, isBusinessDate } from '@/utils/businessDay';
+import {
+  buildJournalEntries,
+  getJournalAccounts,
+  JOURNAL_FORMATS,
+  JOURNAL_GRANULARITIES,
+  JournalFormat,
+  JournalGranularity,
+  journalToCsv
+} from '@/utils/journal';
+
+export const dynamic = 'force-dynamic';
+
+// Sales journal as an import CSV. Query parameters, all optional:
+//   from, to     business dates (YYYY-MM-DD), both included; default today
+//   format       freee (default) or moneyforward
+//   granularity  day (default) for one entry per day and payment method, or order
+//   storeId      one store's orders only
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'reports.view');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const from = searchParams.get('from') || getBusinessDate();
+    const to = searchParams.get('to') || from;
+    if (!isBusinessDate(from) || !isBusinessDate(to)) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+    if (from > to) {
+      return NextResponse.json(
+        { success: false, error: 'from must not be after to' },
+        { status: 400 }
+      );
+    }
+
+    const format = (searchParams.get('format') || 'freee') as JournalFormat;
+    if (!JOURNAL_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of ${JOURNAL_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const granularity = (searchParams.get('granularity') || 'day') as JournalGranularity;
+    if (!JOURNAL_GRANULARITIES.includes(granularity)) {
+      return NextResponse.json(
+        { success: false, error: `granularity must be one of ${JOURNAL_GRANULARITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const [entries, accounts] = await Promise.all([
+      buildJournalEntries(from, to, { granularity, storeId: searchParams.get('storeId') }),
+      getJournalAccounts()
+    ]);
+    console.log(`${auth.staff.name} exported ${entries.length} journal entries (${from} to ${to}) for ${format}`);
+
+    const filename = `journal-${format}-${from === to ? from : `${from}_${to}`}.csv`;
+    return new NextResponse(journalToCsv(format, entries, accounts), {
+      headers: {
+        'Content-Type': 'text/csv; charset=Shift_JIS',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting journal:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export journal' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { authorizeStaff } from '@/utils/staff';
+import { checkFlagSettings, saveAddressNote, toAddressNoteSummary } from '@/utils/customers';
+
+export const dynamic = 'force-dynamic';
+
+// Set the flags and internal notes on a delivery address:
+// { address, flags, internalNotes }. Clearing both removes them.
+export async function PUT(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'customers.view');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { address, flags, internalNotes } = await request.json();
+    if (typeof address !== 'string' || !address.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'address is required' },
+        { status: 400 }
+      );
+    }
+    const validationError = checkFlagSettings({ flags, internalNotes });
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const note = await saveAddressNote(address, { flags, internalNotes });
+    console.log(`${auth.staff.name} ${note ? 'updated' : 'cleared'} the flags on ${address}`);
+    return NextResponse.json({ success: true, addressNote: note ? toAddressNoteSummary(note) : null });
+  } catch (error) {
+    console.error('Error saving address note:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save address flags' },
+      { status: 500 }
+    );
+  }
+}
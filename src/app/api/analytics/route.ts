@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { authorizeStaff } from '@/utils/staff';
+import { getBusinessDate, isBusinessDate } from '@/utils/businessDay';
+import { buildAnalytics, countDays, MAX_ANALYTICS_DAYS } from '@/utils/analytics';
+
+export const dynamic = 'force-dynamic';
+
+// Aggregated order figures for ?from=YYYY-MM-DD&to=YYYY-MM-DD, both business
+// dates and both included. Defaults to the last 28 days.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'reports.view');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const currentBusinessDate = getBusinessDate();
+    const to = searchParams.get('to') || currentBusinessDate;
+    const from = searchParams.get('from')
+      || new Date(Date.parse(`${to}T00:00:00Z`) - 27 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    if (!isBusinessDate(from) || !isBusinessDate(to)) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+    if (from > to) {
+      return NextResponse.json(
+        { success: false, error: 'from must not be after to' },
+        { status: 400 }
+      );
+    }
+    if (countDays(from, to) > MAX_ANALYTICS_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `The range can be at most ${MAX_ANALYTICS_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const analytics = await buildAnalytics(from, to);
+    return NextResponse.json({ success: true, currentBusinessDate, analytics });
+  } catch (error) {
+    console.error('Error building analytics:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build analytics' },
+      { status: 500 }
+    );
+  }
+}
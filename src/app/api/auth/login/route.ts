@@ -0,0 +1,135 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { isValidPin, pinMatches, toStaffSummary } from '@/utils/staff';
+import { createSessionToken, isSessionSecretConfigured, SESSION_COOKIE, sessionCookieOptions } from '@/utils/session';
+
+export const dynamic = 'force-dynamic';
+
+// PINs are short, so after repeated misses on an account it is locked for a
+// while, twice as long each time it happens again. Locking the account
+// rather than the device means one device guessing can't sign everyone
+// else out: only the account it targets waits.
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+type LoginAttempts = { failures: number; lockouts: number; lockedUntil: number };
+
+// Keyed by "staff:<id>", and by "client:<address>" behind a trusted proxy
+const globalForLogin = globalThis as unknown as { loginAttempts?: Map<string, LoginAttempts> };
+const loginAttempts = globalForLogin.loginAttempts ?? new Map<string, LoginAttempts>();
+globalForLogin.loginAttempts = loginAttempts;
+
+// The client's address as seen by a trusted reverse proxy, which appends it
+// to X-Forwarded-For. Without TRUST_PROXY the header is the client's own
+// word, so clients aren't told apart and only accounts are locked.
+function clientKey(request: Request): string | null {
+  if (process.env.TRUST_PROXY !== 'true') {
+    return null;
+  }
+  const address = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return address ? `client:${address}` : null;
+}
+
+// Seconds until the key may try again, or 0 if it may now
+function secondsLocked(key: string): number {
+  const lockedUntil = loginAttempts.get(key)?.lockedUntil ?? 0;
+  return Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+}
+
+function recordFailure(key: string) {
+  const attempts = loginAttempts.get(key) ?? { failures: 0, lockouts: 0, lockedUntil: 0 };
+  attempts.failures += 1;
+  if (attempts.failures >= MAX_FAILED_ATTEMPTS) {
+    attempts.lockedUntil = Date.now() + Math.min(LOCKOUT_MS * 2 ** attempts.lockouts, MAX_LOCKOUT_MS);
+    attempts.lockouts += 1;
+    attempts.failures = 0;
+  }
+  loginAttempts.set(key, attempts);
+}
+
+function tooManyAttempts(seconds: number) {
+  const wait = seconds > 60 ? `${Math.ceil(seconds / 60)} minutes` : `${seconds} seconds`;
+  return NextResponse.json(
+    { success: false, error: `Too many wrong PINs, try again in ${wait}` },
+    { status: 429, headers: { 'Retry-After': String(seconds) } }
+  );
+}
+
+// The active accounts to pick from on the login screen
+export async function GET() {
+  try {
+    const staff = await prisma.staff.findMany({
+      where: { active: true },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' }
+    });
+    return NextResponse.json({ success: true, staff });
+  } catch (error) {
+    console.error('Error fetching staff for sign-in:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch staff' },
+      { status: 500 }
+    );
+  }
+}
+
+// Sign in as a staff member with their PIN: { staffId, pin }
+export async function POST(request: Request) {
+  try {
+    if (!isSessionSecretConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'SESSION_SECRET is not set on the server' },
+        { status: 500 }
+      );
+    }
+
+    const { staffId, pin } = await request.json();
+    if (typeof staffId !== 'string' || !staffId) {
+      return NextResponse.json(
+        { success: false, error: 'Choose who is signing in' },
+        { status: 400 }
+      );
+    }
+
+    const staffKey = `staff:${staffId}`;
+    const client = clientKey(request);
+    const locked = Math.max(secondsLocked(staffKey), client ? secondsLocked(client) : 0);
+    if (locked > 0) {
+      return tooManyAttempts(locked);
+    }
+
+    const account = await prisma.staff.findFirst({ where: { id: staffId, active: true } });
+    const staff = account && isValidPin(pin) && await pinMatches(account, pin) ? account : null;
+
+    if (!staff) {
+      // Only real accounts are tracked, so made-up ids can't fill the map
+      if (account) {
+        recordFailure(staffKey);
+      }
+      if (client) {
+        recordFailure(client);
+      }
+      return NextResponse.json(
+        { success: false, error: 'Incorrect PIN' },
+        { status: 401 }
+      );
+    }
+
+    loginAttempts.delete(staffKey);
+    if (client) {
+      loginAttempts.delete(client);
+    }
+    console.log(`Staff signed in: ${staff.name} (${staff.id})`);
+
+    const response = NextResponse.json({ success: true, staff: toStaffSummary(staff) });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(staff), sessionCookieOptions(request));
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
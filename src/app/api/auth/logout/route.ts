@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE, sessionCookieOptions } from '@/utils/session';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE, '', { ...sessionCookieOptions(request), maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getRequestStaff, toStaffSummary } from '@/utils/staff';
+
+export const dynamic = 'force-dynamic';
+
+// The signed-in staff member
+export async function GET(request: Request) {
+  try {
+    const staff = await getRequestStaff(request);
+    if (!staff) {
+      return NextResponse.json(
+        { success: false, error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json({ success: true, staff: toStaffSummary(staff) });
+  } catch (error) {
+    console.error('Error reading session:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to read session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { hashPin, isValidPin, toStaffSummary } from '@/utils/staff';
+import { createSessionToken, isSessionSecretConfigured, SESSION_COOKIE, sessionCookieOptions } from '@/utils/session';
+
+export const dynamic = 'force-dynamic';
+
+// First-run setup: until a staff account exists, the login screen offers to
+// create one. Both endpoints are public, so they do nothing once it has.
+
+export async function GET() {
+  try {
+    const staffCount = await prisma.staff.count();
+    return NextResponse.json({ success: true, setupRequired: staffCount === 0 });
+  } catch (error) {
+    console.error('Error checking setup:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check setup' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create the first staff account and sign it in: { name, pin }
+export async function POST(request: Request) {
+  try {
+    if (!isSessionSecretConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'SESSION_SECRET is not set on the server' },
+        { status: 500 }
+      );
+    }
+
+    const { name, pin } = await request.json();
+    if (!name?.trim() || !isValidPin(pin)) {
+      return NextResponse.json(
+        { success: false, error: 'A name and a 4-8 digit PIN are required' },
+        { status: 400 }
+      );
+    }
+
+    if (await prisma.staff.count() > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Setup has already been completed' },
+        { status: 403 }
+      );
+    }
+
+    const staff = await prisma.staff.create({
+      data: { name: name.trim(), pinHash: await hashPin(pin), role: 'manager' }
+    });
+    console.log(`Created first staff account: ${staff.name} (${staff.id})`);
+
+    const response = NextResponse.json({ success: true, staff: toStaffSummary(staff) });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(staff), sessionCookieOptions(request));
+    return response;
+  } catch (error) {
+    console.error('Error during setup:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create staff account' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { checkFlagSettings, getCustomerProfile, toCustomerSummary, updateCustomerFlags } from '@/utils/customers';
+
+export const dynamic = 'force-dynamic';
+
+// A customer with their order history, spend, usual items and past notes
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ customerId: string }> }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'customers.view');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { customerId } = await params;
+    const customer = await getCustomerProfile(customerId);
+    if (!customer) {
+      return NextResponse.json(
+        { success: false, error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, customer });
+  } catch (error) {
+    console.error('Error fetching customer:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch customer' },
+      { status: 500 }
+    );
+  }
+}
+
+// Set a customer's flags and internal notes: { flags, internalNotes }
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ customerId: string }> }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'customers.view');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { customerId } = await params;
+    const { flags, internalNotes } = await request.json();
+    const validationError = checkFlagSettings({ flags, internalNotes });
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+    if (!await prisma.customer.findUnique({ where: { id: customerId } })) {
+      return NextResponse.json(
+        { success: false, error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    const customer = await updateCustomerFlags(customerId, { flags, internalNotes });
+    console.log(`${auth.staff.name} updated the flags on customer ${customerId}`);
+    return NextResponse.json({ success: true, customer: toCustomerSummary(customer) });
+  } catch (error) {
+    console.error('Error updating customer:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update customer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { toCustomerSummary } from '@/utils/customers';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_RESULTS = 100;
+
+// Customers, most recent first. ?q= matches part of a name, phone number
+// or address.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'customers.view');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const query = (new URL(request.url).searchParams.get('q') || '').normalize('NFKC').trim();
+    const phoneDigits = query.replace(/\D/g, '');
+    const customers = await prisma.customer.findMany({
+      where: query ? {
+        OR: [
+          { name: { contains: query } },
+          { address: { contains: query } },
+          ...(phoneDigits.length >= 3 ? [{ phone: { contains: phoneDigits } }] : [])
+        ]
+      } : {},
+      orderBy: { lastOrderAt: 'desc' },
+      take: MAX_RESULTS,
+      include: { _count: { select: { orders: true } } }
+    });
+
+    return NextResponse.json({
+      success: true,
+      customers: customers.map(customer => ({ ...toCustomerSummary(customer), orderCount: customer._count.orders }))
+    });
+  } catch (error) {
+    console.error('Error fetching customers:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch customers' },
+      { status: 500 }
+    );
+  }
+}
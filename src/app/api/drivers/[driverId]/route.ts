@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { checkDriverStaffLink, toDriverSummary } from '@/utils/drivers';
+
+export const dynamic = 'force-dynamic';
+
+// Update a driver: { name?, phone?, staffId?, active? }. staffId null unlinks the account.
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ driverId: string }> }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { driverId } = await params;
+    const { name, phone, staffId, active } = await request.json();
+
+    if (!await prisma.driver.findUnique({ where: { id: driverId } })) {
+      return NextResponse.json(
+        { success: false, error: 'Driver not found' },
+        { status: 404 }
+      );
+    }
+
+    if (name !== undefined && !String(name).trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Name cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    if (staffId) {
+      const linkError = await checkDriverStaffLink(staffId, driverId);
+      if (linkError) {
+        return NextResponse.json(
+          { success: false, error: linkError },
+          { status: 400 }
+        );
+      }
+    }
+
+    const driver = await prisma.driver.update({
+      where: { id: driverId },
+      data: {
+        ...(name !== undefined ? { name: String(name).trim() } : {}),
+        ...(phone !== undefined ? { phone: String(phone).trim() } : {}),
+        ...(staffId !== undefined ? { staffId: staffId || null } : {}),
+        ...(typeof active === 'boolean' ? { active } : {})
+      },
+      include: { staff: { select: { id: true, name: true } } }
+    });
+    console.log(`Updated driver ${driver.id} by ${auth.staff.name}`);
+    return NextResponse.json({ success: true, driver: toDriverSummary(driver) });
+  } catch (error) {
+    console.error('Error updating driver:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update driver' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { can } from '@/utils/permissions';
+import { checkDriverStaffLink, toDriverSummary } from '@/utils/drivers';
+
+export const dynamic = 'force-dynamic';
+
+// Drivers. Staff who can assign orders get everyone; a driver gets only
+// their own record.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeStaff(request);
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const drivers = await prisma.driver.findMany({
+      where: can(auth.staff.role, 'orders.assign') ? {} : { staffId: auth.staff.id },
+      orderBy: { createdAt: 'asc' },
+      include: { staff: { select: { id: true, name: true } } }
+    });
+    return NextResponse.json({ success: true, drivers: drivers.map(toDriverSummary) });
+  } catch (error) {
+    console.error('Error fetching drivers:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch drivers' },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a driver: { name, phone?, staffId? }
+export async function POST(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { name, phone, staffId } = await request.json();
+
+    if (!name?.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (staffId) {
+      const linkError = await checkDriverStaffLink(staffId);
+      if (linkError) {
+        return NextResponse.json(
+          { success: false, error: linkError },
+          { status: 400 }
+        );
+      }
+    }
+
+    const driver = await prisma.driver.create({
+      data: { name: name.trim(), phone: phone?.trim() || '', staffId: staffId || null },
+      include: { staff: { select: { id: true, name: true } } }
+    });
+    console.log(`Created driver: ${driver.name} (${driver.id})`);
+    return NextResponse.json({ success: true, driver: toDriverSummary(driver) });
+  } catch (error) {
+    console.error('Error creating driver:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create driver' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { applyStageTransition } from '@/utils/orderStore';
+import { canMoveToStage } from '@/utils/workflow';
+
+export const dynamic = 'force-dynamic';
+
+// Bump a ticket off the kitchen display: { orderId }. An order that was
+// never started goes through cooking on its way to ready, so both moves
+// are in its history.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorizeStaff(request);
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+    const { staff } = auth;
+
+    if (!canMoveToStage(staff.role, 'cooking', 'ready', false)) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to do that' },
+        { status: 403 }
+      );
+    }
+
+    const { orderId } = await request.json();
+
+    if (!orderId) {
+      return NextResponse.json(
+        { success: false, error: 'Order ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const order = await prisma.order.findUnique({ where: { orderId } });
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    if (order.stage !== 'received' && order.stage !== 'cooking') {
+      return NextResponse.json(
+        { success: false, error: 'Only orders still in the kitchen can be bumped' },
+        { status: 409 }
+      );
+    }
+    const moved = (order.stage === 'cooking' || await applyStageTransition(orderId, 'received', 'cooking', staff.id))
+      && await applyStageTransition(orderId, 'cooking', 'ready', staff.id);
+    if (!moved) {
+      return NextResponse.json(
+        { success: false, error: 'Someone else moved this order meanwhile; refresh and try again' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error bumping order:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to bump order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { applyStageTransition } from '@/utils/orderStore';
+import { publishOrderEvent } from '@/utils/orderEvents';
+import { canMoveToStage } from '@/utils/workflow';
+
+export const dynamic = 'force-dynamic';
+
+// Tick a line item off on the kitchen display, or untick it: { prepared }.
+// Ticking the first item of an order that hasn't been started starts it.
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ itemId: string }> }
+) {
+  try {
+    const auth = await authorizeStaff(request);
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+    const { staff } = auth;
+
+    if (!canMoveToStage(staff.role, 'received', 'cooking', false)) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to do that' },
+        { status: 403 }
+      );
+    }
+
+    const { itemId } = await params;
+    const { prepared } = await request.json();
+
+    if (typeof prepared !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'prepared must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const item = await prisma.orderItem.findUnique({
+      where: { id: itemId },
+      include: { order: { select: { stage: true } } }
+    });
+    if (!item) {
+      return NextResponse.json(
+        { success: false, error: 'Item not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.orderItem.update({
+      where: { id: itemId },
+      data: { preparedAt: prepared ? new Date() : null }
+    });
+
+    // Either way the order's watchers hear about it
+    const startedCooking = prepared && item.order.stage === 'received'
+      && await applyStageTransition(item.orderId, 'received', 'cooking', staff.id);
+    if (!startedCooking) {
+      publishOrderEvent('order.updated', item.orderId);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating item:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update item' },
+      { status: 500 }
+    );
+  }
+}
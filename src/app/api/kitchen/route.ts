@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { getBusinessDate, getBusinessDayRange } from '@/utils/businessDay';
+import { getKitchenLeadMinutes, KITCHEN_STAGES, toKitchenTicket } from '@/utils/kitchen';
+import { getOrderTranslations } from '@/utils/translation';
+
+export const dynamic = 'force-dynamic';
+
+// Tickets for the kitchen display: today's orders still to be cooked,
+// soonest target ready time first. ?storeId= limits it to one store.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'orders.viewAll');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const storeId = new URL(request.url).searchParams.get('storeId');
+    const { start, end } = getBusinessDayRange(getBusinessDate());
+
+    const orders = await prisma.order.findMany({
+      where: {
+        isActive: true,
+        stage: { in: KITCHEN_STAGES },
+        orderTime: { gte: start, lt: end },
+        ...(storeId ? { storeId } : {})
+      },
+      include: {
+        store: { select: { id: true, name: true } },
+        lineItems: { orderBy: { position: 'asc' } }
+      }
+    });
+
+    const translations = await getOrderTranslations(orders);
+    const tickets = orders
+      .map(order => toKitchenTicket(order, translations.get(order.orderId)))
+      .sort((a, b) => a.targetReadyAt.localeCompare(b.targetReadyAt));
+
+    return NextResponse.json({ success: true, leadMinutes: getKitchenLeadMinutes(), tickets });
+  } catch (error) {
+    console.error('Error fetching kitchen tickets:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch kitchen tickets' },
+      { status: 500 }
+    );
+  }
+}
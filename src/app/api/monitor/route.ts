@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import {
+  getMonitorJobStatus,
+  listMonitorJobStatuses,
+  restartMonitorJob,
+  startMonitorJob,
+  stopMonitorJob
+} from '@/utils/monitorWorker';
+import { authorizeStaff } from '@/utils/staff';
+
+export const dynamic = 'force-dynamic';
+
+// Status of every store's monitor
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeStaff(request);
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const monitors = await listMonitorJobStatuses();
+    return NextResponse.json({ success: true, monitors });
+  } catch (error) {
+    console.error('Error checking monitor status:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Job control: { action: 'start' | 'stop' | 'restart', storeId }
+// Monitors log in with the store's saved credentials (see /api/stores).
+export async function POST(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'monitor.control');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { action, storeId } = await request.json();
+
+    if (action !== 'start' && action !== 'stop' && action !== 'restart') {
+      return NextResponse.json(
+        { success: false, error: 'action must be start, stop or restart' },
+        { status: 400 }
+      );
+    }
+
+    if (!storeId || !await getMonitorJobStatus(storeId)) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      );
+    }
+
+    if (action === 'stop') {
+      const monitor = await stopMonitorJob(storeId);
+      return NextResponse.json({ success: true, monitor });
+    }
+
+    const result = action === 'start'
+      ? await startMonitorJob(storeId)
+      : await restartMonitorJob(storeId);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, monitor: result.status },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ success: true, existing: result.existing, monitor: result.status });
+  } catch (error) {
+    console.error('Error in monitor control endpoint:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to control monitoring' },
+      { status: 500 }
+    );
+  }
+}
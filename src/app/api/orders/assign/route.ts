@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { publishOrderEvent } from '@/utils/orderEvents';
+import { CLOSED_STAGES } from '@/utils/workflow';
+
+export const dynamic = 'force-dynamic';
+
+// Put one or more orders on a driver's run, or take them off it:
+// { orderIds: string[], driverId: string | null }
+export async function PUT(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'orders.assign');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+    const { staff } = auth;
+
+    const { orderIds, driverId } = await request.json();
+
+    if (!Array.isArray(orderIds) || orderIds.length === 0 || driverId === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'orderIds and driverId are required' },
+        { status: 400 }
+      );
+    }
+    if (!orderIds.every(orderId => typeof orderId === 'string' && orderId)) {
+      return NextResponse.json(
+        { success: false, error: 'orderIds must be order IDs' },
+        { status: 400 }
+      );
+    }
+    if (driverId !== null && (typeof driverId !== 'string' || !driverId)) {
+      return NextResponse.json(
+        { success: false, error: 'driverId must be a driver ID or null' },
+        { status: 400 }
+      );
+    }
+
+    if (driverId !== null) {
+      const driver = await prisma.driver.findUnique({ where: { id: driverId } });
+      if (!driver?.active) {
+        return NextResponse.json(
+          { success: false, error: 'Orders can only be assigned to an active driver' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Delivered and cancelled orders stay with whoever had them
+    const closedOrders = await prisma.order.findMany({
+      where: { orderId: { in: orderIds }, stage: { in: CLOSED_STAGES } },
+      select: { orderId: true, stage: true }
+    });
+    if (closedOrders.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Delivered or cancelled orders can't be assigned: ${closedOrders.map(order => order.orderId).join(', ')}`
+        },
+        { status: 409 }
+      );
+    }
+
+    // The stage is checked again here in case an order closed meanwhile
+    const { count } = await prisma.order.updateMany({
+      where: { orderId: { in: orderIds }, stage: { notIn: CLOSED_STAGES } },
+      data: {
+        driverId,
+        assignedAt: driverId ? new Date() : null,
+        updatedByStaffId: staff.id
+      }
+    });
+    console.log(`${staff.name} assigned ${count} orders to driver ${driverId ?? '(none)'}`);
+
+    for (const orderId of orderIds) {
+      publishOrderEvent('order.updated', orderId);
+    }
+
+    return NextResponse.json({ success: true, count });
+  } catch (error) {
+    console.error('Error assigning orders:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to assign orders' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { getBusinessDate, getBusinessDayRange, isBusinessDate } from '@/utils/businessDay';
+import { isOrderStage, OrderStage } from '@/utils/workflow';
+import { EXPORT_FORMATS, ExportFormat, ordersToCsv, ordersToXlsx } from '@/utils/orderExport';
+
+export const dynamic = 'force-dynamic';
+
+// Orders as a download. Query parameters, all optional:
+//   from, to  business dates (YYYY-MM-DD), both included; default today
+//   storeId   one store's orders only
+//   status    comma-separated workflow stages, e.g. delivered,cancelled
+//   format    csv (default) or xlsx
+// Hidden orders are included and marked as such.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'orders.export');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const currentBusinessDate = getBusinessDate();
+    const from = searchParams.get('from') || currentBusinessDate;
+    const to = searchParams.get('to') || from;
+    if (!isBusinessDate(from) || !isBusinessDate(to)) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+    if (from > to) {
+      return NextResponse.json(
+        { success: false, error: 'from must not be after to' },
+        { status: 400 }
+      );
+    }
+
+    const format = (searchParams.get('format') || 'csv') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const stages = (searchParams.get('status') || '').split(',').map(stage => stage.trim()).filter(Boolean);
+    const unknownStage = stages.find(stage => !isOrderStage(stage));
+    if (unknownStage) {
+      return NextResponse.json(
+        { success: false, error: `Unknown status: ${unknownStage}` },
+        { status: 400 }
+      );
+    }
+
+    const storeId = searchParams.get('storeId');
+    const orders = await prisma.order.findMany({
+      where: {
+        orderTime: { gte: getBusinessDayRange(from).start, lt: getBusinessDayRange(to).end },
+        ...(storeId ? { storeId } : {}),
+        ...(stages.length > 0 ? { stage: { in: stages as OrderStage[] } } : {})
+      },
+      orderBy: { orderTime: 'asc' },
+      include: {
+        store: { select: { name: true, accountEmail: true } },
+        driver: { select: { name: true } },
+        updatedByStaff: { select: { name: true } }
+      }
+    });
+    console.log(`${auth.staff.name} exported ${orders.length} orders (${from} to ${to}) as ${format}`);
+
+    const filename = `orders-${from === to ? from : `${from}_${to}`}.${format}`;
+    const headers = {
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store'
+    };
+    if (format === 'xlsx') {
+      return new NextResponse(await ordersToXlsx(orders), {
+        headers: { ...headers, 'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+      });
+    }
+    return new NextResponse(ordersToCsv(orders), {
+      headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' }
+    });
+  } catch (error) {
+    console.error('Error exporting orders:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export orders' },
+      { status: 500 }
+    );
+  }
+}
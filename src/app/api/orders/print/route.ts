@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { authorizeStaff } from '@/utils/staff';
+import { reprintOrder } from '@/utils/printer';
+import { publishOrderEvent } from '@/utils/orderEvents';
+
+export const dynamic = 'force-dynamic';
+
+// Print an order's kitchen ticket again: { orderId, printerId? }. Without a
+// printerId it goes to every active printer for the order's store.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'orders.print');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { orderId, printerId } = await request.json();
+
+    if (!orderId) {
+      return NextResponse.json(
+        { success: false, error: 'Order ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const results = await reprintOrder(orderId, auth.staff.id, printerId || undefined);
+    if (!results) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+    if (results.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No printer is set up for the store this order came from' },
+        { status: 400 }
+      );
+    }
+    publishOrderEvent('order.updated', orderId);
+
+    const failed = results.filter(result => !result.success);
+    if (failed.length > 0) {
+      return NextResponse.json(
+        { success: false, error: failed.map(result => `${result.printer}: ${result.error}`).join('; '), results },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json({ success: true, results });
+  } catch (error) {
+    console.error('Error reprinting order:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to print order' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,63 +1,118 @@
 import { NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
-import { scrapeOrders, startOrderMonitoring, stopOrderMonitoring, isMonitoringActive, getMonitoringStatus } from '@/utils/scraper';
-
-// Create a single PrismaClient instance and reuse it
-const prisma = new PrismaClient();
+import { prisma } from '@/utils/prisma';
+import { scrapeOrders } from '@/utils/scraper';
+import { applyStageTransition, saveScrapedOrder } from '@/utils/orderStore';
+import { getStoreCredentials } from '@/utils/stores';
+import { getBusinessDate, getBusinessDayRange, isBusinessDate } from '@/utils/businessDay';
+import { publishOrderEvent } from '@/utils/orderEvents';
+import { authorizeStaff } from '@/utils/staff';
+import { can, redactCustomerDetails } from '@/utils/permissions';
+import { getOrderAlerts } from '@/utils/customers';
+import { getActiveRules } from '@/utils/orderRuleStore';
+import { evaluateRules } from '@/utils/orderRules';
+import { getOrderTranslations } from '@/utils/translation';
+import { canMoveToStage, canTransition, isOrderStage, ORDER_STAGES, stageLabel } from '@/utils/workflow';
 
 export async function GET(request: Request) {
+  const auth = await authorizeStaff(request);
+  if (!auth.staff) {
+    return NextResponse.json(
+      { success: false, error: auth.error },
+      { status: auth.status }
+    );
+  }
+  const { staff } = auth;
+
   const url = new URL(request.url);
-  const checkMonitoring = url.searchParams.get('checkMonitoring');
 
-  if (checkMonitoring === 'true') {
-    try {
-      // Use the exported function to check monitoring status
-      const monitoringStatus = await getMonitoringStatus();
-      return NextResponse.json({ 
-        success: true, 
-        monitoring: monitoringStatus
-      });
-    } catch (error) {
-      console.error('Error checking monitoring status:', error);
-      return NextResponse.json({ 
-        success: false, 
-        monitoring: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
+  // Orders for one business day
+  const requestedDate = url.searchParams.get('date');
+  if (requestedDate && !isBusinessDate(requestedDate)) {
+    return NextResponse.json(
+      { success: false, error: 'date must be YYYY-MM-DD' },
+      { status: 400 }
+    );
   }
+  const currentBusinessDate = getBusinessDate();
+  const businessDate = requestedDate || currentBusinessDate;
+  const { start, end } = getBusinessDayRange(businessDate);
+  // Without a storeId the orders of every store are combined
+  const storeId = url.searchParams.get('storeId');
+  // One driver's run
+  const driverId = url.searchParams.get('driverId');
 
-  // Original GET endpoint for orders
   try {
-    // Ensure database connection
-    await prisma.$connect();
-
-    console.log('Fetching orders from database...');
+    console.log(`Fetching orders for business day ${businessDate}...`);
     const orders = await prisma.order.findMany({
       where: {
-        isActive: true
+        isActive: true,
+        orderTime: { gte: start, lt: end },
+        ...(storeId ? { storeId } : {}),
+        ...(driverId ? { driverId } : {}),
+        // Drivers only get their own run
+        ...(can(staff.role, 'orders.viewAll') ? {} : { driver: { staffId: staff.id } })
       },
       orderBy: {
         orderTime: 'desc',
       },
+      include: {
+        store: {
+          select: { id: true, name: true }
+        },
+        lineItems: {
+          orderBy: { position: 'asc' }
+        },
+        driver: {
+          select: { id: true, name: true, phone: true }
+        },
+        statusEvents: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            staff: { select: { id: true, name: true } }
+          }
+        },
+        printJobs: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { status: true, reason: true, error: true, createdAt: true }
+        },
+        receipt: {
+          select: { id: true, addressee: true, issuedAt: true, printCount: true }
+        },
+        customer: {
+          select: { flags: true, internalNotes: true }
+        }
+      }
     });
     console.log(`Found ${orders.length} orders in database`);
 
     // Map database fields to frontend fields
+    const showCustomer = can(staff.role, 'orders.viewCustomer');
+    // Internal notes may name the customer
+    const alerts = await getOrderAlerts(orders, { includeNotes: showCustomer });
+    const rules = await getActiveRules();
+    const translations = await getOrderTranslations(orders);
     const mappedOrders = orders.map(order => ({
-      ...order,
-      orderTime: order.orderTime.toISOString()
+      // The receipt and customer record carry the customer's details too
+      ...(showCustomer ? order : { ...redactCustomerDetails(order), receipt: null, customerId: null }),
+      // Only needed for the alerts below
+      customer: undefined,
+      // Flags and notes kept on the customer and the address
+      alerts: alerts.get(order.orderId) ?? null,
+      // Badges and borders from the highlight rules, worked out before the
+      // customer's details are hidden
+      highlights: evaluateRules(rules, order),
+      // Notes, item names and options mapped to their translations
+      translations: translations.get(order.orderId) ?? {},
+      orderTime: order.orderTime.toISOString(),
+      lineItems: order.lineItems.map(item => ({
+        ...item,
+        options: item.options ? item.options.split('\n') : []
+      }))
     }));
 
-    // Properly close the connection
-    await prisma.$disconnect();
-
-    console.log('Sending orders to frontend:', mappedOrders);
-    return NextResponse.json({ success: true, orders: mappedOrders });
+    return NextResponse.json({ success: true, businessDate, currentBusinessDate, orders: mappedOrders });
   } catch (error) {
-    // Ensure connection is closed even if there's an error
-    await prisma.$disconnect();
-    
     console.error('Error fetching orders:', error);
     return NextResponse.json(
       { 
@@ -70,156 +125,57 @@ export async function GET(request: Request) {
   }
 }
 
+// One-shot scrape of the current order list. Continuous monitoring is
+// controlled through /api/monitor.
 export async function POST(request: Request) {
   try {
-    const { email, password, startMonitoring } = await request.json();
-
-    if (!email || !password) {
+    const auth = await authorizeStaff(request, 'monitor.control');
+    if (!auth.staff) {
       return NextResponse.json(
-        { success: false, error: 'Email and password are required' },
-        { status: 400 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
-    // Connect to database
-    await prisma.$connect();
-
-    // If monitoring is requested
-    if (startMonitoring) {
-      console.log('Starting monitoring...');
-      try {
-        // Clear existing orders first
-        console.log('Clearing existing orders...');
-        const deleteResult = await prisma.order.deleteMany({});
-        console.log('Cleared orders:', deleteResult);
-        
-        const result = await startOrderMonitoring(email, password, async (newOrders) => {
-          try {
-            console.log('Received new orders to store:', newOrders);
-            // Store new orders in the database
-            for (const order of newOrders) {
-              try {
-                // Check if order already exists
-                const existingOrder = await prisma.order.findUnique({
-                  where: { orderId: order.orderId }
-                });
+    const { storeId } = await request.json();
 
-                if (!existingOrder) {
-                  console.log('Creating new order in database:', order.orderId);
-                  // Create new order if it doesn't exist
-                  const createdOrder = await prisma.order.create({
-                    data: {
-                      orderId: order.orderId,
-                      orderTime: new Date(order.orderTime),
-                      deliveryTime: order.deliveryTime,
-                      paymentMethod: order.paymentMethod,
-                      visitCount: order.visitCount,
-                      customerName: order.customerName,
-                      customerPhone: order.customerPhone,
-                      status: order.status,
-                      items: order.items || '',
-                      totalAmount: order.totalAmount,
-                      receiptName: order.receiptName,
-                      waitingTime: order.waitingTime,
-                      address: order.address,
-                      isDelivered: false,
-                      isActive: true,
-                      notes: order.notes || ''
-                    },
-                  });
-                  console.log('Order created successfully:', createdOrder);
-                } else {
-                  console.log('Order already exists in database:', order.orderId);
-                  // Update existing order's status if needed
-                  if (existingOrder.status !== order.status) {
-                    await prisma.order.update({
-                      where: { orderId: order.orderId },
-                      data: { status: order.status }
-                    });
-                  }
-                }
-              } catch (orderError) {
-                console.error('Error processing individual order:', order.orderId, orderError);
-              }
-            }
-          } catch (error) {
-            console.error('Error storing new orders:', error);
-            throw error;
-          }
-        });
-
-        await prisma.$disconnect();
-        console.log('Monitoring started successfully');
-        return NextResponse.json({ 
-          success: true, 
-          monitoring: true,
-          existing: result.existing 
-        });
-      } catch (error) {
-        console.error('Failed to start monitoring:', error);
-        await prisma.$disconnect();
-        return NextResponse.json(
-          { success: false, error: 'Failed to start monitoring' },
-          { status: 500 }
-        );
-      }
+    if (!storeId) {
+      return NextResponse.json(
+        { success: false, error: 'storeId is required' },
+        { status: 400 }
+      );
     }
 
-    // Regular order fetching logic (when startMonitoring is false)
-    console.log('Fetching orders without monitoring...');
+    let credentials;
     try {
-      await prisma.order.deleteMany({});
-      const result = await scrapeOrders(email, password);
-
-      if (!result.success || !result.orders) {
-        console.error('Failed to fetch orders:', result.error);
-        await prisma.$disconnect();
-        return NextResponse.json(
-          { success: false, error: result.error },
-          { status: 400 }
-        );
-      }
+      credentials = await getStoreCredentials(storeId);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Portal credentials unavailable' },
+        { status: 400 }
+      );
+    }
 
-      console.log('Storing fetched orders:', result.orders);
-      // Store new orders in the database
-      for (const order of result.orders) {
-        const createdOrder = await prisma.order.create({
-          data: {
-            orderId: order.orderId,
-            orderTime: new Date(order.orderTime),
-            deliveryTime: order.deliveryTime,
-            paymentMethod: order.paymentMethod,
-            visitCount: order.visitCount,
-            customerName: order.customerName,
-            customerPhone: order.customerPhone,
-            status: order.status,
-            items: order.items || '',
-            totalAmount: order.totalAmount,
-            receiptName: order.receiptName,
-            waitingTime: order.waitingTime,
-            address: order.address,
-            isDelivered: false,
-            isActive: true,
-            notes: order.notes || ''
-          },
-        });
-        console.log('Created order:', createdOrder);
-      }
+    console.log('Fetching orders without monitoring...');
+    const result = await scrapeOrders(credentials);
 
-      await prisma.$disconnect();
-      console.log('Orders stored successfully');
-      return NextResponse.json({ success: true });
-    } catch (error) {
-      console.error('Error in regular order fetching:', error);
-      await prisma.$disconnect();
+    if (!result.success || !result.orders) {
+      console.error('Failed to fetch orders:', result.error);
       return NextResponse.json(
-        { success: false, error: 'Failed to process orders' },
-        { status: 500 }
+        { success: false, error: result.error },
+        { status: 400 }
       );
     }
+
+    console.log('Storing fetched orders:', result.orders.map(order => order.orderId));
+    for (const order of result.orders) {
+      await saveScrapedOrder(order, storeId);
+    }
+
+    console.log('Orders stored successfully');
+    return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error in POST endpoint:', error);
-    await prisma.$disconnect();
     return NextResponse.json(
       { success: false, error: 'Failed to process orders' },
       { status: 500 }
@@ -229,7 +185,17 @@ export async function POST(request: Request) {
 
 export async function PUT(request: Request) {
   try {
-    const { orderId, isDelivered, isActive } = await request.json();
+    const auth = await authorizeStaff(request);
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+    const { staff } = auth;
+
+    // { orderId, stage?, isActive? }
+    const { orderId, stage, isActive } = await request.json();
 
     if (!orderId) {
       return NextResponse.json(
@@ -238,13 +204,59 @@ export async function PUT(request: Request) {
       );
     }
 
-    await prisma.order.update({
+    if (stage !== undefined && !isOrderStage(stage)) {
+      return NextResponse.json(
+        { success: false, error: `stage must be one of ${ORDER_STAGES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const existingOrder = await prisma.order.findUnique({
       where: { orderId },
-      data: {
-        isDelivered,
-        isActive,
-      },
+      include: { driver: { select: { staffId: true } } }
     });
+    if (!existingOrder) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const stageChanged = stage !== undefined && stage !== existingOrder.stage;
+    const activeChanged = typeof isActive === 'boolean' && isActive !== existingOrder.isActive;
+
+    if (stageChanged && !canTransition(existingOrder.stage, stage)) {
+      return NextResponse.json(
+        { success: false, error: `An order can't go from ${stageLabel(existingOrder.stage)} to ${stageLabel(stage)}` },
+        { status: 409 }
+      );
+    }
+
+    // Drivers may only move the orders on their own run
+    const isOwnOrder = existingOrder.driver?.staffId === staff.id;
+    if (
+      (stageChanged && !canMoveToStage(staff.role, existingOrder.stage, stage, isOwnOrder)) ||
+      (activeChanged && !can(staff.role, 'orders.update'))
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to do that' },
+        { status: 403 }
+      );
+    }
+
+    if (stageChanged && !await applyStageTransition(orderId, existingOrder.stage, stage, staff.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Someone else moved this order meanwhile; refresh and try again' },
+        { status: 409 }
+      );
+    }
+    if (activeChanged) {
+      await prisma.order.update({
+        where: { orderId },
+        data: { isActive, updatedByStaffId: staff.id }
+      });
+      publishOrderEvent('order.updated', orderId);
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -255,17 +267,3 @@ export async function PUT(request: Request) {
     );
   }
 }
-
-// Add new endpoint to stop monitoring
-export async function DELETE(request: Request) {
-  try {
-    await stopOrderMonitoring();
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('Error stopping monitoring:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to stop monitoring' },
-      { status: 500 }
-    );
-  }
-} 
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { OrderStreamEvent, subscribeToOrderEvents } from '@/utils/orderEvents';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+function formatEvent(event: OrderStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// Server-Sent Events stream of order and monitor changes for the dashboard
+export function GET(request: Request) {
+  const encoder = new TextEncoder();
+
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client has gone away
+          cleanup();
+        }
+      };
+
+      // Ask browsers to reconnect quickly if the stream drops
+      send('retry: 3000\n\n');
+
+      const unsubscribe = subscribeToOrderEvents(event => send(formatEvent(event)));
+      // Comment lines keep proxies and idle tablets from closing the connection
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        request.signal.removeEventListener('abort', cleanup);
+        cleanup = () => {};
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+
+      request.signal.addEventListener('abort', cleanup);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
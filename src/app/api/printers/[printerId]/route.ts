@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { checkPrinterSettings, toPrinterSummary } from '@/utils/printer';
+
+export const dynamic = 'force-dynamic';
+
+// Update a printer: { name?, host?, port?, storeId?, autoPrint?, copies?, template?, active? }.
+// storeId null prints every store's orders; an empty template uses the default.
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ printerId: string }> }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { printerId } = await params;
+    const { name, host, port, storeId, autoPrint, copies, template, active } = await request.json();
+
+    if (!await prisma.printer.findUnique({ where: { id: printerId } })) {
+      return NextResponse.json(
+        { success: false, error: 'Printer not found' },
+        { status: 404 }
+      );
+    }
+
+    if ((name !== undefined && !String(name).trim()) || (host !== undefined && !String(host).trim())) {
+      return NextResponse.json(
+        { success: false, error: 'Name and host cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    const settingsError = await checkPrinterSettings({ port, copies, template, storeId });
+    if (settingsError) {
+      return NextResponse.json(
+        { success: false, error: settingsError },
+        { status: 400 }
+      );
+    }
+
+    const printer = await prisma.printer.update({
+      where: { id: printerId },
+      data: {
+        ...(name !== undefined ? { name: String(name).trim() } : {}),
+        ...(host !== undefined ? { host: String(host).trim() } : {}),
+        ...(port !== undefined ? { port } : {}),
+        ...(storeId !== undefined ? { storeId: storeId || null } : {}),
+        ...(typeof autoPrint === 'boolean' ? { autoPrint } : {}),
+        ...(copies !== undefined ? { copies } : {}),
+        ...(template !== undefined ? { template } : {}),
+        ...(typeof active === 'boolean' ? { active } : {})
+      }
+    });
+    console.log(`Updated printer ${printer.id} by ${auth.staff.name}`);
+    return NextResponse.json({ success: true, printer: toPrinterSummary(printer) });
+  } catch (error) {
+    console.error('Error updating printer:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update printer' },
+      { status: 500 }
+    );
+  }
+}
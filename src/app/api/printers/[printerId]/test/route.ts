@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { printTestTicket } from '@/utils/printer';
+
+export const dynamic = 'force-dynamic';
+
+// Print a sample ticket with the printer's template
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ printerId: string }> }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { printerId } = await params;
+    const printer = await prisma.printer.findUnique({ where: { id: printerId } });
+    if (!printer) {
+      return NextResponse.json(
+        { success: false, error: 'Printer not found' },
+        { status: 404 }
+      );
+    }
+
+    try {
+      await printTestTicket(printer);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Printer unreachable' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error printing test ticket:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to print test ticket' },
+      { status: 500 }
+    );
+  }
+}
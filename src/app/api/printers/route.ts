@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { checkPrinterSettings, toPrinterSummary } from '@/utils/printer';
+import { DEFAULT_KITCHEN_TEMPLATE, KITCHEN_TICKET_FIELDS } from '@/utils/escpos';
+
+export const dynamic = 'force-dynamic';
+
+// Printers, with the default template and the fields a template can use
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const printers = await prisma.printer.findMany({ orderBy: { createdAt: 'asc' } });
+    return NextResponse.json({
+      success: true,
+      printers: printers.map(toPrinterSummary),
+      defaultTemplate: DEFAULT_KITCHEN_TEMPLATE,
+      templateFields: KITCHEN_TICKET_FIELDS
+    });
+  } catch (error) {
+    console.error('Error fetching printers:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch printers' },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a printer: { name, host, port?, storeId?, autoPrint?, copies?, template? }
+export async function POST(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { name, host, port, storeId, autoPrint, copies, template } = await request.json();
+
+    if (!name?.trim() || !host?.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Name and host are required' },
+        { status: 400 }
+      );
+    }
+
+    const settingsError = await checkPrinterSettings({ port, copies, template, storeId });
+    if (settingsError) {
+      return NextResponse.json(
+        { success: false, error: settingsError },
+        { status: 400 }
+      );
+    }
+
+    const printer = await prisma.printer.create({
+      data: {
+        name: name.trim(),
+        host: host.trim(),
+        ...(port !== undefined ? { port } : {}),
+        storeId: storeId || null,
+        ...(typeof autoPrint === 'boolean' ? { autoPrint } : {}),
+        ...(copies !== undefined ? { copies } : {}),
+        ...(template !== undefined ? { template } : {})
+      }
+    });
+    console.log(`Created printer: ${printer.name} at ${printer.host}:${printer.port}`);
+    return NextResponse.json({ success: true, printer: toPrinterSummary(printer) });
+  } catch (error) {
+    console.error('Error creating printer:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create printer' },
+      { status: 500 }
+    );
+  }
+}
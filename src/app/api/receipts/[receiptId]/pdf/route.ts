@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { publishOrderEvent } from '@/utils/orderEvents';
+import { renderReceiptPdf } from '@/utils/receipts';
+
+export const dynamic = 'force-dynamic';
+
+// Print a receipt: returns the PDF and counts the print. A POST, since every
+// print after the first is recorded and marked as a reprint.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ receiptId: string }> }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'receipts.issue');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { receiptId } = await params;
+    if (!await prisma.receipt.findUnique({ where: { id: receiptId } })) {
+      return NextResponse.json(
+        { success: false, error: 'Receipt not found' },
+        { status: 404 }
+      );
+    }
+
+    const receipt = await prisma.receipt.update({
+      where: { id: receiptId },
+      data: { printCount: { increment: 1 }, lastPrintedAt: new Date() }
+    });
+    const isReprint = receipt.printCount > 1;
+    console.log(`${auth.staff.name} printed receipt ${receipt.id}${isReprint ? ` (reprint ${receipt.printCount - 1})` : ''}`);
+    publishOrderEvent('order.updated', receipt.orderId);
+
+    return new NextResponse(renderReceiptPdf(receipt, isReprint), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="receipt-${receipt.orderId}.pdf"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error printing receipt:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to print receipt' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { publishOrderEvent } from '@/utils/orderEvents';
+import { DEFAULT_RECEIPT_PROVISO, includedTax, RECEIPT_TAX_RATE, toReceiptSummary } from '@/utils/receipts';
+
+export const dynamic = 'force-dynamic';
+
+// Issue an order's receipt: { orderId, addressee?, proviso? }. The addressee
+// defaults to the 領収書宛名 the customer gave. Each order gets one receipt;
+// print it again through /api/receipts/<id>/pdf.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'receipts.issue');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { orderId, addressee, proviso } = await request.json();
+
+    if (!orderId) {
+      return NextResponse.json(
+        { success: false, error: 'Order ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { orderId },
+      include: { store: true, receipt: true }
+    });
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+    if (order.receipt) {
+      return NextResponse.json(
+        { success: false, error: 'A receipt has already been issued for this order; reprint it instead', receipt: toReceiptSummary(order.receipt) },
+        { status: 409 }
+      );
+    }
+
+    const receiptName = order.receiptName && order.receiptName !== '-' ? order.receiptName : '';
+    const name = String(addressee ?? receiptName).trim();
+    if (!name) {
+      return NextResponse.json(
+        { success: false, error: 'Addressee is required' },
+        { status: 400 }
+      );
+    }
+
+    const amount = Math.round(order.totalAmount);
+    const receipt = await prisma.receipt.create({
+      data: {
+        orderId,
+        addressee: name,
+        proviso: String(proviso ?? '').trim() || DEFAULT_RECEIPT_PROVISO,
+        amount,
+        taxRate: RECEIPT_TAX_RATE,
+        taxAmount: includedTax(amount, RECEIPT_TAX_RATE),
+        storeName: order.store?.name ?? '',
+        registrationNumber: order.store?.invoiceRegistrationNumber ?? '',
+        issuedByStaffId: auth.staff.id
+      }
+    });
+    console.log(`${auth.staff.name} issued receipt ${receipt.id} for order ${orderId}`);
+    publishOrderEvent('order.updated', orderId);
+
+    return NextResponse.json({ success: true, receipt: toReceiptSummary(receipt) });
+  } catch (error) {
+    console.error('Error issuing receipt:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to issue receipt' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { authorizeStaff } from '@/utils/staff';
+import { getBusinessDate, isBusinessDate } from '@/utils/businessDay';
+import { buildDailyReport, getDailyReportSnapshot, saveDailyReport, toReportSnapshot } from '@/utils/reports';
+
+export const dynamic = 'force-dynamic';
+
+// Today's figures, or a given day's with ?date=YYYY-MM-DD, along with the
+// snapshot saved for that day if there is one
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'reports.view');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const requestedDate = new URL(request.url).searchParams.get('date');
+    if (requestedDate && !isBusinessDate(requestedDate)) {
+      return NextResponse.json(
+        { success: false, error: 'date must be YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+    const currentBusinessDate = getBusinessDate();
+    const businessDate = requestedDate || currentBusinessDate;
+
+    const [report, snapshot] = await Promise.all([
+      buildDailyReport(businessDate),
+      getDailyReportSnapshot(businessDate)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      businessDate,
+      currentBusinessDate,
+      report,
+      snapshot: snapshot ? toReportSnapshot(snapshot) : null
+    });
+  } catch (error) {
+    console.error('Error building daily report:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build report' },
+      { status: 500 }
+    );
+  }
+}
+
+// Close a business day: save its report as it stands now, replacing any
+// earlier snapshot. { date? } defaults to today.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'reports.view');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { date } = await request.json().catch(() => ({}));
+    if (date && !isBusinessDate(date)) {
+      return NextResponse.json(
+        { success: false, error: 'date must be YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+    const businessDate = date || getBusinessDate();
+
+    const snapshot = await saveDailyReport(businessDate, auth.staff.id);
+    console.log(`${auth.staff.name} saved the report for ${businessDate}`);
+    return NextResponse.json({ success: true, businessDate, snapshot: toReportSnapshot(snapshot) });
+  } catch (error) {
+    console.error('Error saving daily report:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save report' },
+      { status: 500 }
+    );
+  }
+}
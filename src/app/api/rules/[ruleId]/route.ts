@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { checkRuleSettings, toRuleSummary } from '@/utils/orderRuleStore';
+
+export const dynamic = 'force-dynamic';
+
+// Update a rule: { name?, field?, matchType?, pattern?, badgeLabel?, color?,
+// borderStyle?, sound?, printerAction?, active? }
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { ruleId } = await params;
+    const existing = await prisma.orderRule.findUnique({ where: { id: ruleId } });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Rule not found' },
+        { status: 404 }
+      );
+    }
+
+    const { active, ...changes } = await request.json();
+    // The match and its pattern only make sense together, so check the
+    // rule as it will be saved
+    const settings = { ...toRuleSummary(existing), ...changes };
+    const settingsError = checkRuleSettings(settings);
+    if (settingsError) {
+      return NextResponse.json(
+        { success: false, error: settingsError },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.orderRule.update({
+      where: { id: ruleId },
+      data: {
+        name: settings.name.trim(),
+        field: settings.field,
+        matchType: settings.matchType,
+        pattern: settings.pattern,
+        badgeLabel: settings.badgeLabel.trim(),
+        color: settings.color,
+        borderStyle: settings.borderStyle,
+        sound: settings.sound,
+        printerAction: settings.printerAction,
+        ...(typeof active === 'boolean' ? { active } : {})
+      }
+    });
+    console.log(`${auth.staff.name} updated the rule ${rule.name}`);
+    return NextResponse.json({ success: true, rule: toRuleSummary(rule) });
+  } catch (error) {
+    console.error('Error updating rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a rule
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { ruleId } = await params;
+    const rule = await prisma.orderRule.findUnique({ where: { id: ruleId } });
+    if (!rule) {
+      return NextResponse.json(
+        { success: false, error: 'Rule not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.orderRule.delete({ where: { id: ruleId } });
+    console.log(`${auth.staff.name} removed the rule ${rule.name}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete rule' },
+      { status: 500 }
+    );
+  }
+}
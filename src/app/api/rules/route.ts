@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff } from '@/utils/staff';
+import { checkRuleSettings, getRules, toRuleSummary } from '@/utils/orderRuleStore';
+
+export const dynamic = 'force-dynamic';
+
+// Badge and highlight rules in the order they apply
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const rules = await getRules();
+    return NextResponse.json({ success: true, rules: rules.map(toRuleSummary) });
+  } catch (error) {
+    console.error('Error fetching rules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch rules' },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a rule after the others:
+// { name, field, matchType, pattern, badgeLabel, color, borderStyle, sound, printerAction }
+export async function POST(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const settings = await request.json();
+    const settingsError = checkRuleSettings(settings);
+    if (settingsError) {
+      return NextResponse.json(
+        { success: false, error: settingsError },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getRules();
+    const rule = await prisma.orderRule.create({
+      data: {
+        name: settings.name.trim(),
+        field: settings.field,
+        matchType: settings.matchType,
+        pattern: settings.pattern,
+        badgeLabel: settings.badgeLabel.trim(),
+        color: settings.color,
+        borderStyle: settings.borderStyle,
+        sound: settings.sound,
+        printerAction: settings.printerAction,
+        position: existing.reduce((last, rule) => Math.max(last, rule.position + 1), 0)
+      }
+    });
+    console.log(`${auth.staff.name} added the rule ${rule.name}`);
+    return NextResponse.json({ success: true, rule: toRuleSummary(rule) });
+  } catch (error) {
+    console.error('Error creating rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// Put the rules in a new order: { ruleIds } listing every rule
+export async function PUT(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { ruleIds } = await request.json();
+    const rules = await getRules();
+    if (
+      !Array.isArray(ruleIds) ||
+      ruleIds.length !== rules.length ||
+      !rules.every(rule => ruleIds.includes(rule.id))
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'ruleIds must list every rule once' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(
+      ruleIds.map((id: string, position: number) => prisma.orderRule.update({ where: { id }, data: { position } }))
+    );
+    console.log(`${auth.staff.name} reordered the rules`);
+    return NextResponse.json({ success: true, rules: (await getRules()).map(toRuleSummary) });
+  } catch (error) {
+    console.error('Error reordering rules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to reorder rules' },
+      { status: 500 }
+    );
+  }
+}
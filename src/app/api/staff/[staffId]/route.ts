@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff, findStaffByPin, hashPin, isValidPin, toStaffSummary } from '@/utils/staff';
+import { isStaffRole } from '@/utils/permissions';
+
+export const dynamic = 'force-dynamic';
+
+// Rename, reset the PIN of, change the role of, or (de)activate a staff account:
+// { name?, pin?, role?, active? }
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ staffId: string }> }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { staffId } = await params;
+    const { name, pin, role, active } = await request.json();
+
+    const existingStaff = await prisma.staff.findUnique({ where: { id: staffId } });
+    if (!existingStaff) {
+      return NextResponse.json(
+        { success: false, error: 'Staff member not found' },
+        { status: 404 }
+      );
+    }
+
+    if (name !== undefined && !String(name).trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Name cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    if (pin !== undefined && !isValidPin(pin)) {
+      return NextResponse.json(
+        { success: false, error: 'PIN must be 4-8 digits' },
+        { status: 400 }
+      );
+    }
+
+    if (role !== undefined && !isStaffRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'role must be manager, kitchen or driver' },
+        { status: 400 }
+      );
+    }
+
+    // A PIN can't be checked against the others once hashed, so a returning
+    // account needs a fresh one
+    if (active === true && !existingStaff.active && pin === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'Set a new PIN when reactivating an account' },
+        { status: 400 }
+      );
+    }
+
+    if (pin !== undefined && await findStaffByPin(pin, staffId)) {
+      return NextResponse.json(
+        { success: false, error: 'That PIN is already in use' },
+        { status: 409 }
+      );
+    }
+
+    // Don't lock everyone out
+    if (auth.staff.id === staffId && (active === false || (role !== undefined && role !== 'manager'))) {
+      return NextResponse.json(
+        { success: false, error: 'You cannot deactivate your own account or give up your manager role' },
+        { status: 400 }
+      );
+    }
+
+    const staff = await prisma.staff.update({
+      where: { id: staffId },
+      data: {
+        ...(name !== undefined ? { name: String(name).trim() } : {}),
+        ...(pin !== undefined ? { pinHash: await hashPin(pin) } : {}),
+        ...(role !== undefined ? { role } : {}),
+        ...(typeof active === 'boolean' ? { active } : {})
+      }
+    });
+    console.log(`Updated staff account ${staff.id} by ${auth.staff.name}`);
+    return NextResponse.json({ success: true, staff: toStaffSummary(staff) });
+  } catch (error) {
+    console.error('Error updating staff:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update staff account' },
+      { status: 500 }
+    );
+  }
+}
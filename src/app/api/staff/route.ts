@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { authorizeStaff, findStaffByPin, hashPin, isValidPin, toStaffSummary } from '@/utils/staff';
+import { isStaffRole } from '@/utils/permissions';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const staff = await prisma.staff.findMany({ orderBy: { createdAt: 'asc' } });
+    return NextResponse.json({ success: true, staff: staff.map(toStaffSummary) });
+  } catch (error) {
+    console.error('Error fetching staff:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch staff' },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a staff account: { name, pin, role }
+export async function POST(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { name, pin, role } = await request.json();
+
+    if (!name?.trim() || !isValidPin(pin)) {
+      return NextResponse.json(
+        { success: false, error: 'A name and a 4-8 digit PIN are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isStaffRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'role must be manager, kitchen or driver' },
+        { status: 400 }
+      );
+    }
+
+    // The PIN alone identifies who is signing in
+    if (await findStaffByPin(pin)) {
+      return NextResponse.json(
+        { success: false, error: 'That PIN is already in use' },
+        { status: 409 }
+      );
+    }
+
+    const staff = await prisma.staff.create({
+      data: { name: name.trim(), pinHash: await hashPin(pin), role }
+    });
+    console.log(`Created staff account: ${staff.name} (${staff.id})`);
+    return NextResponse.json({ success: true, staff: toStaffSummary(staff) });
+  } catch (error) {
+    console.error('Error creating staff:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create staff account' },
+      { status: 500 }
+    );
+  }
+}
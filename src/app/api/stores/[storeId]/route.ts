@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { toStoreSummary, updateStorePassword } from '@/utils/stores';
+import { isCredentialsKeyConfigured } from '@/utils/credentials';
+import { authorizeStaff } from '@/utils/staff';
+import { isValidRegistrationNumber } from '@/utils/receipts';
+
+export const dynamic = 'force-dynamic';
+
+// Update a store: { password?, invoiceRegistrationNumber? }. A new password
+// rotates the portal login; a running monitor keeps going and uses it the
+// next time it has to log in. The registration number goes on receipts.
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { storeId } = await params;
+    const { password, invoiceRegistrationNumber } = await request.json();
+
+    if (!password && invoiceRegistrationNumber === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'Password or registration number is required' },
+        { status: 400 }
+      );
+    }
+
+    const registrationNumber = invoiceRegistrationNumber === undefined
+      ? undefined
+      : String(invoiceRegistrationNumber).trim().toUpperCase();
+    if (registrationNumber && !isValidRegistrationNumber(registrationNumber)) {
+      return NextResponse.json(
+        { success: false, error: 'Registration number must be T followed by 13 digits' },
+        { status: 400 }
+      );
+    }
+
+    if (password && !isCredentialsKeyConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'CREDENTIALS_KEY is not set on the server' },
+        { status: 500 }
+      );
+    }
+
+    let store = await prisma.store.findUnique({ where: { id: storeId } });
+    if (!store) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      );
+    }
+
+    if (password) {
+      store = await updateStorePassword(storeId, password);
+      console.log(`Rotated portal password for store ${store.id}`);
+    }
+    if (registrationNumber !== undefined) {
+      store = await prisma.store.update({
+        where: { id: storeId },
+        data: { invoiceRegistrationNumber: registrationNumber }
+      });
+      console.log(`Updated registration number for store ${store.id}`);
+    }
+
+    return NextResponse.json({ success: true, store: toStoreSummary(store) });
+  } catch (error) {
+    console.error('Error updating store:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update store' },
+      { status: 500 }
+    );
+  }
+}
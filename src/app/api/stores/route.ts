@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/utils/prisma';
+import { saveStoreCredentials, toStoreSummary } from '@/utils/stores';
+import { isCredentialsKeyConfigured } from '@/utils/credentials';
+import { authorizeStaff } from '@/utils/staff';
+
+export const dynamic = 'force-dynamic';
+
+// Merchant accounts and whether a password is saved for each
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const stores = await prisma.store.findMany({ orderBy: { createdAt: 'asc' } });
+    return NextResponse.json({
+      success: true,
+      credentialsKeyConfigured: isCredentialsKeyConfigured(),
+      stores: stores.map(toStoreSummary)
+    });
+  } catch (error) {
+    console.error('Error fetching stores:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch stores' },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a merchant account, or replace the password of an existing one
+export async function POST(request: Request) {
+  try {
+    const auth = await authorizeStaff(request, 'settings.manage');
+    if (!auth.staff) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { accountEmail, password } = await request.json();
+
+    if (!accountEmail || !password) {
+      return NextResponse.json(
+        { success: false, error: 'Email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isCredentialsKeyConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'CREDENTIALS_KEY is not set on the server' },
+        { status: 500 }
+      );
+    }
+
+    const store = await saveStoreCredentials(accountEmail, password);
+    console.log(`Saved portal credentials for store ${store.id}`);
+    return NextResponse.json({ success: true, store: toStoreSummary(store) });
+  } catch (error) {
+    console.error('Error saving store credentials:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save credentials' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,333 @@
+'use client';
+
+import { use, useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import toast, { Toaster } from 'react-hot-toast';
+import { stageLabel } from '@/utils/workflow';
+import { CUSTOMER_FLAG_LABELS, CUSTOMER_FLAGS, CustomerFlag } from '@/utils/customerFlags';
+
+interface CustomerOrder {
+  orderId: string;
+  orderTime: string;
+  store: { id: string; name: string } | null;
+  stage: string;
+  status: string;
+  cancelled: boolean;
+  paymentMethod: string;
+  totalAmount: number;
+  address: string;
+  items: string;
+}
+
+interface CustomerProfile {
+  id: string;
+  phone: string;
+  name: string;
+  address: string;
+  visitCount: string;
+  flags: CustomerFlag[];
+  internalNotes: string;
+  firstOrderAt: string;
+  lastOrderAt: string;
+  // Spend and counts leave cancelled orders out
+  orderCount: number;
+  totalSpend: number;
+  averageSpend: number;
+  usualItems: { name: string; orders: number; quantity: number }[];
+  // Addresses they have ordered to, latest first, with the flags kept on each
+  addresses: { address: string; flags: CustomerFlag[]; internalNotes: string }[];
+  notes: { orderId: string; orderTime: string; notes: string }[];
+  orders: CustomerOrder[];
+}
+
+const NO_CACHE_HEADERS = {
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+  'Pragma': 'no-cache',
+  'Expires': '0'
+};
+
+const formatYen = (amount: number) => `¥${amount.toLocaleString('ja-JP')}`;
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('ja-JP', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+// Flag checkboxes and an internal notes box, saved together
+const FlagEditor = ({ flags, internalNotes, onSave }: {
+  flags: CustomerFlag[];
+  internalNotes: string;
+  onSave: (flags: CustomerFlag[], internalNotes: string) => Promise<boolean>;
+}) => {
+  const [editedFlags, setEditedFlags] = useState(flags);
+  const [editedNotes, setEditedNotes] = useState(internalNotes);
+  const [saving, setSaving] = useState(false);
+  const changed = editedNotes !== internalNotes
+    || editedFlags.length !== flags.length
+    || editedFlags.some(flag => !flags.includes(flag));
+
+  const toggleFlag = (flag: CustomerFlag) => {
+    setEditedFlags(prev => prev.includes(flag) ? prev.filter(f => f !== flag) : [...prev, flag]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    await onSave(editedFlags, editedNotes);
+    setSaving(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-3">
+        {CUSTOMER_FLAGS.map(flag => (
+          <label key={flag} className="flex items-center gap-1 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={editedFlags.includes(flag)}
+              onChange={() => toggleFlag(flag)}
+              disabled={saving}
+            />
+            {CUSTOMER_FLAG_LABELS[flag]}
+          </label>
+        ))}
+      </div>
+      <textarea
+        value={editedNotes}
+        onChange={(e) => setEditedNotes(e.target.value)}
+        rows={2}
+        maxLength={1000}
+        placeholder="Internal notes, shown on their orders (not sent to the customer)"
+        className="w-full px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm placeholder:text-gray-500"
+        disabled={saving}
+      />
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={saving || !changed}
+        className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+      >
+        Save
+      </button>
+    </div>
+  );
+};
+
+export default function CustomerPage({ params }: { params: Promise<{ customerId: string }> }) {
+  const { customerId } = use(params);
+  const [customer, setCustomer] = useState<CustomerProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCustomer = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/customers/${customerId}`, { cache: 'no-store', headers: NO_CACHE_HEADERS });
+      if (response.status === 401) {
+        window.location.href = `/login?next=/customers/${customerId}`;
+        return;
+      }
+      const data = await response.json();
+      if (data.success) {
+        setCustomer(data.customer);
+      } else {
+        toast.error(data.error || 'Failed to load customer');
+      }
+    } catch (error) {
+      console.error('Error loading customer:', error);
+      toast.error('Failed to load customer');
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchCustomer();
+  }, [fetchCustomer]);
+
+  const saveCustomerFlags = async (flags: CustomerFlag[], internalNotes: string) => {
+    try {
+      const response = await fetch(`/api/customers/${customerId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ flags, internalNotes })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        toast.error(data.error || 'Failed to save flags');
+        return false;
+      }
+      toast.success('Saved the customer flags');
+      await fetchCustomer();
+      return true;
+    } catch (error) {
+      console.error('Error saving customer flags:', error);
+      toast.error('Failed to save flags');
+      return false;
+    }
+  };
+
+  const saveAddressFlags = async (address: string, flags: CustomerFlag[], internalNotes: string) => {
+    try {
+      const response = await fetch('/api/address-notes', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ address, flags, internalNotes })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        toast.error(data.error || 'Failed to save address flags');
+        return false;
+      }
+      toast.success('Saved the address flags');
+      await fetchCustomer();
+      return true;
+    } catch (error) {
+      console.error('Error saving address flags:', error);
+      toast.error('Failed to save address flags');
+      return false;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Toaster position="top-right" />
+
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 py-2 flex justify-between items-center">
+          <h1 className="text-3xl font-black" style={{ color: '#E83434' }}>Customer</h1>
+          <div className="flex items-center gap-4">
+            <Link href="/customers" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+              All customers
+            </Link>
+            <Link href="/" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+              Back to dashboard
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-6 space-y-4">
+        {loading ? (
+          <div className="flex items-center gap-2">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+            <span className="text-sm text-gray-600">Loading...</span>
+          </div>
+        ) : !customer ? (
+          <div className="rounded-md border border-gray-200 bg-white p-4 text-sm text-gray-700">
+            This customer could not be found.
+          </div>
+        ) : (
+          <>
+            <section className="bg-white rounded-lg shadow-sm p-4">
+              <h2 className="text-xl font-bold text-gray-900">{customer.name || 'No name given'}</h2>
+              <p className="text-sm text-gray-700">{customer.phone}</p>
+              <p className="text-sm text-gray-700">{customer.address}</p>
+              {customer.visitCount && (
+                <p className="text-xs text-gray-500 mt-1">店舗利用回数 on their latest order: {customer.visitCount}</p>
+              )}
+            </section>
+
+            <section className="bg-white rounded-lg shadow-sm p-4">
+              <h2 className="text-base font-bold text-gray-900 mb-1">Flags</h2>
+              <p className="text-xs text-gray-500 mb-2">Shown as badges on every order from this phone number.</p>
+              <FlagEditor
+                key={`${customer.flags.join()}|${customer.internalNotes}`}
+                flags={customer.flags}
+                internalNotes={customer.internalNotes}
+                onSave={saveCustomerFlags}
+              />
+            </section>
+
+            <section className="bg-white rounded-lg shadow-sm p-4">
+              <h2 className="text-base font-bold text-gray-900 mb-1">Addresses</h2>
+              <p className="text-xs text-gray-500 mb-2">Flags on an address show on every order delivered there, whoever places it.</p>
+              <ul className="divide-y divide-gray-200">
+                {customer.addresses.map(address => (
+                  <li key={address.address} className="py-2 space-y-1">
+                    <p className="text-sm font-medium text-gray-900">{address.address}</p>
+                    <FlagEditor
+                      key={`${address.flags.join()}|${address.internalNotes}`}
+                      flags={address.flags}
+                      internalNotes={address.internalNotes}
+                      onSave={(flags, internalNotes) => saveAddressFlags(address.address, flags, internalNotes)}
+                    />
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <section className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {[
+                { label: 'Orders', value: String(customer.orderCount) },
+                { label: 'Total spend', value: formatYen(customer.totalSpend) },
+                { label: 'First order', value: new Date(customer.firstOrderAt).toLocaleDateString('ja-JP') },
+                { label: 'Last order', value: new Date(customer.lastOrderAt).toLocaleDateString('ja-JP') }
+              ].map(({ label, value }) => (
+                <div key={label} className="bg-white rounded-lg shadow-sm p-3">
+                  <div className="text-xs text-gray-500">{label}</div>
+                  <div className="text-xl font-bold text-gray-900 tabular-nums">{value}</div>
+                </div>
+              ))}
+            </section>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <section className="bg-white rounded-lg shadow-sm p-4">
+                <h2 className="text-base font-bold text-gray-900 mb-2">Usual items</h2>
+                {customer.usualItems.length === 0 ? (
+                  <p className="text-sm text-gray-500">No itemised orders yet.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {customer.usualItems.map(item => (
+                      <li key={item.name} className="flex justify-between gap-2 text-sm">
+                        <span className="text-gray-900">{item.name}</span>
+                        <span className="text-gray-500 whitespace-nowrap">
+                          {item.orders} of {customer.orderCount} orders
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p className="text-xs text-gray-500 mt-2">Average order {formatYen(customer.averageSpend)}</p>
+              </section>
+
+              <section className="bg-white rounded-lg shadow-sm p-4">
+                <h2 className="text-base font-bold text-gray-900 mb-2">Past notes</h2>
+                {customer.notes.length === 0 ? (
+                  <p className="text-sm text-gray-500">No notes on their orders.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {customer.notes.map(note => (
+                      <li key={note.orderId} className="text-sm">
+                        <span className="block text-xs text-gray-500">{formatDateTime(note.orderTime)}</span>
+                        <span className="text-gray-900 break-words">{note.notes}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </div>
+
+            <section className="bg-white rounded-lg shadow-sm p-4">
+              <h2 className="text-base font-bold text-gray-900 mb-2">Order history</h2>
+              <ul className="divide-y divide-gray-200">
+                {customer.orders.map(order => (
+                  <li key={order.orderId} className={`py-2 text-sm ${order.cancelled ? 'opacity-60' : ''}`}>
+                    <div className="flex justify-between gap-2">
+                      <span className="font-medium text-gray-900">
+                        {formatDateTime(order.orderTime)} · #{order.orderId}
+                        {order.store?.name ? ` · ${order.store.name}` : ''}
+                      </span>
+                      <span className={`whitespace-nowrap ${order.cancelled ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+                        {formatYen(Math.round(order.totalAmount))}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-600">{order.items}</div>
+                    <div className="text-xs text-gray-500">
+                      {order.cancelled ? 'Cancelled' : stageLabel(order.stage)} · {order.paymentMethod}
+                      {order.address !== customer.address ? ` · ${order.address}` : ''}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
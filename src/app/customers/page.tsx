@@ -0,0 +1,122 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import toast, { Toaster } from 'react-hot-toast';
+import { CUSTOMER_FLAG_LABELS, CustomerFlag } from '@/utils/customerFlags';
+
+interface CustomerSummary {
+  id: string;
+  phone: string;
+  name: string;
+  address: string;
+  visitCount: string;
+  flags: CustomerFlag[];
+  firstOrderAt: string;
+  lastOrderAt: string;
+  orderCount: number;
+}
+
+const NO_CACHE_HEADERS = {
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+  'Pragma': 'no-cache',
+  'Expires': '0'
+};
+
+// Wait this long after typing stops before searching
+const SEARCH_DELAY_MS = 300;
+
+// Everyone who has ordered, most recent first, searchable by name, phone
+// or address
+export default function Customers() {
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const fetchCustomers = useCallback(async (search: string) => {
+    setLoading(true);
+    try {
+      const params = search ? `?q=${encodeURIComponent(search)}` : '';
+      const response = await fetch(`/api/customers${params}`, { cache: 'no-store', headers: NO_CACHE_HEADERS });
+      if (response.status === 401) {
+        window.location.href = '/login?next=/customers';
+        return;
+      }
+      const data = await response.json();
+      if (data.success) {
+        setCustomers(data.customers);
+      } else {
+        toast.error(data.error || 'Failed to load customers');
+      }
+    } catch (error) {
+      console.error('Error loading customers:', error);
+      toast.error('Failed to load customers');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => fetchCustomers(query.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query, fetchCustomers]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Toaster position="top-right" />
+
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 py-2 flex justify-between items-center">
+          <h1 className="text-3xl font-black" style={{ color: '#E83434' }}>Customers</h1>
+          <Link href="/" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+            Back to dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-6 space-y-4">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Name, phone number or address"
+          className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm placeholder:text-gray-600"
+        />
+
+        <section className="bg-white rounded-lg shadow-sm">
+          {loading && customers.length === 0 ? (
+            <div className="flex items-center gap-2 p-4">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+              <span className="text-sm text-gray-600">Loading...</span>
+            </div>
+          ) : customers.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">{query ? 'No customers match.' : 'No customers yet.'}</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {customers.map(customer => (
+                <li key={customer.id}>
+                  <Link href={`/customers/${customer.id}`} className="block px-4 py-3 hover:bg-gray-50">
+                    <div className="flex justify-between gap-2">
+                      <span className="text-sm font-medium text-gray-900">
+                        {customer.name || customer.phone}
+                        {customer.flags.map(flag => (
+                          <span key={flag} className="ml-1 px-1 py-0.5 bg-gray-100 text-gray-700 rounded-full text-xs font-bold">
+                            {CUSTOMER_FLAG_LABELS[flag]}
+                          </span>
+                        ))}
+                      </span>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {customer.orderCount} {customer.orderCount === 1 ? 'order' : 'orders'} · last {new Date(customer.lastOrderAt).toLocaleDateString('ja-JP')}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">{customer.phone} · {customer.address}</div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
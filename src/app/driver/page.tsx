@@ -0,0 +1,302 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import toast, { Toaster } from 'react-hot-toast';
+import { can } from '@/utils/permissions';
+import { isCashPayment } from '@/utils/payments';
+import { OrderStage, stageLabel } from '@/utils/workflow';
+
+interface Driver {
+  id: string;
+  name: string;
+  phone: string;
+  active: boolean;
+}
+
+interface Stop {
+  orderId: string;
+  deliveryTime: string;
+  waitingTime: string;
+  paymentMethod: string;
+  totalAmount: number;
+  customerName: string;
+  customerPhone: string;
+  address: string;
+  notes: string | null;
+  stage: string;
+  lineItems: { id: string; name: string; quantity: number }[];
+}
+
+const NO_CACHE_HEADERS = {
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+  'Pragma': 'no-cache',
+  'Expires': '0'
+};
+
+// The driver's tap on each stop: pick up from the counter, then hand over.
+// Delivered stops can be put back on the run.
+const STOP_ACTIONS: Partial<Record<string, { to: OrderStage; label: string; className: string }>> = {
+  ready: { to: 'out_for_delivery', label: 'Picked up', className: 'bg-orange-500 hover:bg-orange-600' },
+  out_for_delivery: { to: 'delivered', label: 'Delivered', className: 'bg-green-600 hover:bg-green-700' },
+  delivered: { to: 'out_for_delivery', label: 'Not delivered', className: 'bg-blue-600 hover:bg-blue-700' }
+};
+
+// "YYYY/MM/DD HH:MM:SS" sorts correctly as a string
+const byDeliveryTime = (a: Stop, b: Stop) => a.deliveryTime.localeCompare(b.deliveryTime);
+
+// A driver's run for the business day, one stop per order in delivery-time
+// order. Drivers see their own run; managers pick whose run to look at.
+export default function DriverRun() {
+  const [currentStaff, setCurrentStaff] = useState<{ id: string; name: string; role: string } | null>(null);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [driverId, setDriverId] = useState<string | null>(null);
+  const [stops, setStops] = useState<Stop[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showDelivered, setShowDelivered] = useState(false);
+  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
+
+  const role = currentStaff?.role;
+  const canPickDriver = can(role, 'orders.assign');
+
+  useEffect(() => {
+    const initialize = async () => {
+      try {
+        const sessionResponse = await fetch('/api/auth/session', { cache: 'no-store', headers: NO_CACHE_HEADERS });
+        const sessionData = await sessionResponse.json();
+        if (!sessionData.success) {
+          window.location.href = '/login?next=/driver';
+          return;
+        }
+        setCurrentStaff(sessionData.staff);
+
+        // Drivers get back just their own record
+        const driversResponse = await fetch('/api/drivers', { cache: 'no-store', headers: NO_CACHE_HEADERS });
+        const driversData = await driversResponse.json();
+        if (driversData.success) {
+          const activeDrivers = driversData.drivers.filter((driver: Driver) => driver.active);
+          setDrivers(activeDrivers);
+          setDriverId(activeDrivers[0]?.id ?? null);
+        }
+      } catch (error) {
+        console.error('Error loading driver run:', error);
+        toast.error('Failed to load driver run');
+      } finally {
+        setLoading(false);
+      }
+    };
+    initialize();
+  }, []);
+
+  const fetchStops = useCallback(async () => {
+    if (!driverId) {
+      setStops([]);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/orders?driverId=${encodeURIComponent(driverId)}`, {
+        cache: 'no-store',
+        headers: NO_CACHE_HEADERS
+      });
+      if (response.status === 401) {
+        window.location.href = '/login?next=/driver';
+        return;
+      }
+      const data = await response.json();
+      if (data.success) {
+        setStops([...data.orders].sort(byDeliveryTime));
+      } else {
+        toast.error(data.error || 'Failed to fetch orders');
+      }
+    } catch (error) {
+      console.error('Error fetching run:', error);
+      toast.error('Failed to fetch orders');
+    }
+  }, [driverId]);
+
+  useEffect(() => {
+    fetchStops();
+  }, [fetchStops]);
+
+  // Follow assignments and deliveries made elsewhere
+  const fetchStopsRef = useRef(fetchStops);
+  useEffect(() => {
+    fetchStopsRef.current = fetchStops;
+  }, [fetchStops]);
+
+  useEffect(() => {
+    const source = new EventSource('/api/orders/stream');
+    const refetch = () => fetchStopsRef.current();
+    source.addEventListener('order.updated', refetch);
+    source.addEventListener('order.delivered', refetch);
+    return () => source.close();
+  }, []);
+
+  const moveStop = async (stop: Stop, stage: OrderStage) => {
+    setUpdatingOrderId(stop.orderId);
+    try {
+      const response = await fetch('/api/orders', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ orderId: stop.orderId, stage })
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Order ${stop.orderId}: ${stageLabel(stage)}`);
+        await fetchStops();
+      } else {
+        toast.error(data.error || 'Failed to update order');
+      }
+    } catch (error) {
+      console.error('Error updating order:', error);
+      toast.error('Failed to update order');
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  };
+
+  // Cancelled orders drop off the run
+  const remainingStops = stops.filter(stop => stop.stage !== 'delivered' && stop.stage !== 'cancelled');
+  const deliveredStops = stops.filter(stop => stop.stage === 'delivered');
+
+  const renderStop = (stop: Stop, index: number) => {
+    const action = STOP_ACTIONS[stop.stage];
+    const isDelivered = stop.stage === 'delivered';
+    return (
+      <li key={stop.orderId} className={`bg-white rounded-lg shadow-sm p-4 ${isDelivered ? 'opacity-60' : ''}`}>
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex items-center gap-2">
+            {!isDelivered && (
+              <span className="flex h-7 w-7 items-center justify-center rounded-full bg-gray-900 text-sm font-bold text-white">
+                {index + 1}
+              </span>
+            )}
+            <span className={`text-2xl font-black ${stop.waitingTime === '-分' ? 'text-blue-600' : 'text-gray-900'}`}>
+              {stop.deliveryTime.split(' ')[1]?.replace(/:\d{2}$/, '')}
+            </span>
+            {stop.waitingTime === '-分' && (
+              <span className="px-1 py-0.5 bg-blue-100 text-blue-600 rounded-full text-xs font-bold">Reserved</span>
+            )}
+          </div>
+          <div className="text-right">
+            <span className="block text-xs text-gray-500">#{stop.orderId}</span>
+            <span className="text-xs font-medium text-gray-700">{stageLabel(stop.stage)}</span>
+          </div>
+        </div>
+
+        <p className="mt-2 text-lg font-bold text-gray-900">{stop.customerName}</p>
+        <a
+          href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(stop.address)}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block text-base text-blue-700 underline"
+        >
+          {stop.address}
+        </a>
+        {stop.customerPhone && (
+          <a href={`tel:${stop.customerPhone.replace(/[^\d+]/g, '')}`} className="mt-1 inline-block text-base font-medium text-blue-700">
+            📞 {stop.customerPhone}
+          </a>
+        )}
+
+        <div className="mt-2 flex items-center justify-between text-sm">
+          <span className="text-gray-600">
+            {stop.lineItems.reduce((count, item) => count + item.quantity, 0)} items
+          </span>
+          {isCashPayment(stop.paymentMethod) ? (
+            <span className="font-bold text-red-600">Collect ¥{stop.totalAmount.toLocaleString()}</span>
+          ) : (
+            <span className="text-gray-600">Paid</span>
+          )}
+        </div>
+
+        {stop.notes && stop.notes !== '-' && (
+          <p className="mt-2 rounded bg-yellow-50 p-2 text-sm text-gray-900 break-words">{stop.notes}</p>
+        )}
+
+        {action ? (
+          <button
+            type="button"
+            onClick={() => moveStop(stop, action.to)}
+            disabled={updatingOrderId === stop.orderId}
+            className={`mt-3 w-full rounded-md py-3 text-base font-bold text-white shadow-sm disabled:opacity-50 ${action.className}`}
+          >
+            {action.label}
+          </button>
+        ) : (
+          <p className="mt-3 w-full rounded-md bg-gray-100 py-3 text-center text-base font-medium text-gray-500">
+            Still in the kitchen
+          </p>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Toaster position="top-center" />
+
+      <header className="bg-white shadow-sm">
+        <div className="max-w-md mx-auto px-4 py-2 flex justify-between items-center">
+          <h1 className="text-2xl font-black" style={{ color: '#E83434' }}>Driver run</h1>
+          {can(role, 'orders.viewAll') && (
+            <Link href="/" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+              Dashboard
+            </Link>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-md mx-auto px-4 py-4 space-y-4">
+        {canPickDriver && drivers.length > 0 && (
+          <select
+            value={driverId ?? ''}
+            onChange={(e) => setDriverId(e.target.value || null)}
+            className="w-full px-2 py-2 text-base text-gray-900 border border-gray-300 rounded-md"
+          >
+            {drivers.map(driver => (
+              <option key={driver.id} value={driver.id}>{driver.name}</option>
+            ))}
+          </select>
+        )}
+
+        {loading ? (
+          <div className="flex items-center gap-2">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+            <span className="text-sm text-gray-600">Loading...</span>
+          </div>
+        ) : !driverId ? (
+          <p className="text-center text-sm text-gray-600 py-12">
+            {canPickDriver ? 'No drivers yet. Add them in Settings.' : 'Your account is not linked to a driver yet. Ask a manager.'}
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              {remainingStops.length === 0 ? 'No stops left' : `${remainingStops.length} stops to go`}
+            </p>
+            <ol className="space-y-3">
+              {remainingStops.map(renderStop)}
+            </ol>
+
+            {deliveredStops.length > 0 && (
+              <div>
+                <button
+                  type="button"
+                  onClick={() => setShowDelivered(prev => !prev)}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  {showDelivered ? '▾' : '▸'} Delivered ({deliveredStops.length})
+                </button>
+                {showDelivered && (
+                  <ol className="mt-2 space-y-3">
+                    {deliveredStops.map(renderStop)}
+                  </ol>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import {
+  FIXTURE_SESSION_COOKIE,
+  FixtureAction,
+  applyFixtureAction,
+  checkCredentials,
+  getPortalState,
+  isFixturePortalEnabled,
+  isSessionValid,
+  loadScenario,
+  renderLoginPage,
+  renderOrderDetail,
+  renderOrderList,
+  startSession
+} from '@/utils/fixturePortal';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+function html(body: string, status = 200) {
+  return new NextResponse(body, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
+
+function notFound() {
+  return new NextResponse('Not Found', { status: 404 });
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  if (!isFixturePortalEnabled()) {
+    return notFound();
+  }
+
+  const route = (await params).path.join('/');
+  const state = await getPortalState();
+
+  if (route === '_control') {
+    return NextResponse.json({
+      success: true,
+      scenario: state.scenarioName,
+      description: state.scenario.description,
+      orderIds: state.orderIds,
+      statusOverrides: state.statusOverrides,
+      sessionGeneration: state.sessionGeneration,
+      startedAt: state.startedAt,
+      appliedSteps: state.appliedSteps
+    });
+  }
+
+  if (route === 'merchant-admin/login') {
+    return html(await renderLoginPage());
+  }
+
+  // Like the real portal, an expired session shows the login screen in place
+  const cookieStore = await cookies();
+  if (!isSessionValid(state, cookieStore.get(FIXTURE_SESSION_COOKIE)?.value)) {
+    return html(await renderLoginPage());
+  }
+
+  if (route === 'merchant-admin/order/order-list') {
+    return html(await renderOrderList(state));
+  }
+
+  const detailMatch = route.match(/^merchant-admin\/order\/order-detail\/([^/]+)$/);
+  if (detailMatch) {
+    const detail = await renderOrderDetail(state, detailMatch[1]);
+    return detail ? html(detail) : notFound();
+  }
+
+  return notFound();
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  if (!isFixturePortalEnabled()) {
+    return notFound();
+  }
+
+  const route = (await params).path.join('/');
+
+  if (route === '_control') {
+    try {
+      const body = await request.json();
+      if (body.action === 'loadScenario') {
+        const state = await loadScenario(body.scenario);
+        return NextResponse.json({ success: true, scenario: state.scenarioName });
+      }
+
+      const state = await getPortalState();
+      applyFixtureAction(state, body as FixtureAction);
+      return NextResponse.json({ success: true, orderIds: state.orderIds });
+    } catch (error) {
+      console.error('Error handling fixture portal control request:', error);
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+        { status: 400 }
+      );
+    }
+  }
+
+  if (route === 'merchant-admin/login') {
+    const state = await getPortalState();
+    const form = await request.formData();
+    const email = String(form.get('email') || '');
+    const password = String(form.get('password') || '');
+
+    if (!checkCredentials(state, email, password)) {
+      return html(await renderLoginPage('ログインに失敗しました。メールアドレスまたはパスワードが正しくありません。'));
+    }
+
+    const response = NextResponse.redirect(new URL('order/order-list', request.url), 303);
+    response.cookies.set(FIXTURE_SESSION_COOKIE, startSession(state), { path: '/fixture-portal', httpOnly: true });
+    return response;
+  }
+
+  return notFound();
+}
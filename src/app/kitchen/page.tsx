@@ -0,0 +1,345 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import toast, { Toaster } from 'react-hot-toast';
+import { can } from '@/utils/permissions';
+
+interface TicketItem {
+  id: string;
+  name: string;
+  options: string[];
+  quantity: number;
+  preparedAt: string | null;
+}
+
+interface Ticket {
+  orderId: string;
+  store: { id: string; name: string } | null;
+  stage: string;
+  orderTime: string;
+  deliveryTime: string;
+  isReservation: boolean;
+  targetReadyAt: string;
+  utensils: boolean;
+  notes: string;
+  items: TicketItem[];
+  // Notes, item names and options mapped to their translations
+  translations: Record<string, string>;
+}
+
+const NO_CACHE_HEADERS = {
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+  'Pragma': 'no-cache',
+  'Expires': '0'
+};
+
+// Ageing, by minutes left until the target ready time
+const DUE_SOON_MINUTES = 5;
+const LATER_MINUTES = 30;
+
+const AGEING_STYLES = {
+  later: { header: 'bg-gray-500', label: 'Later' },
+  onTime: { header: 'bg-green-600', label: 'On time' },
+  dueSoon: { header: 'bg-yellow-500', label: 'Due soon' },
+  late: { header: 'bg-red-600', label: 'Late' }
+};
+
+const ageingOf = (minutesLeft: number): keyof typeof AGEING_STYLES => {
+  if (minutesLeft < 0) return 'late';
+  if (minutesLeft <= DUE_SOON_MINUTES) return 'dueSoon';
+  if (minutesLeft > LATER_MINUTES) return 'later';
+  return 'onTime';
+};
+
+const formatClock = (value: string | Date) =>
+  new Date(value).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit', timeZone: 'Asia/Tokyo' });
+
+// Kitchen display: one ticket per order still to be cooked, food only,
+// readable from across the kitchen. Tap an item to tick it off and tap
+// Bump when the order is ready.
+export default function KitchenDisplay() {
+  const [currentStaff, setCurrentStaff] = useState<{ id: string; name: string; role: string } | null>(null);
+  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => new Date());
+  const [busyOrderId, setBusyOrderId] = useState<string | null>(null);
+  // Last bumped order, so a mistaken bump can be brought back
+  const [lastBumpedOrderId, setLastBumpedOrderId] = useState<string | null>(null);
+
+  const role = currentStaff?.role;
+  const canCook = can(role, 'orders.cook') || can(role, 'orders.update');
+
+  const fetchTickets = useCallback(async () => {
+    try {
+      const response = await fetch('/api/kitchen', { cache: 'no-store', headers: NO_CACHE_HEADERS });
+      if (response.status === 401) {
+        window.location.href = '/login?next=/kitchen';
+        return;
+      }
+      const data = await response.json();
+      if (data.success) {
+        setTickets(data.tickets);
+      } else {
+        toast.error(data.error || 'Failed to fetch tickets');
+      }
+    } catch (error) {
+      console.error('Error fetching tickets:', error);
+      toast.error('Failed to fetch tickets');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const initialize = async () => {
+      try {
+        const response = await fetch('/api/auth/session', { cache: 'no-store', headers: NO_CACHE_HEADERS });
+        const data = await response.json();
+        if (!data.success) {
+          window.location.href = '/login?next=/kitchen';
+          return;
+        }
+        setCurrentStaff(data.staff);
+      } catch (error) {
+        console.error('Error loading session:', error);
+      }
+    };
+    initialize();
+    fetchTickets();
+  }, [fetchTickets]);
+
+  // Keep the ageing colours current between updates
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const fetchTicketsRef = useRef(fetchTickets);
+  useEffect(() => {
+    fetchTicketsRef.current = fetchTickets;
+  }, [fetchTickets]);
+
+  useEffect(() => {
+    const source = new EventSource('/api/orders/stream');
+    const refetch = () => fetchTicketsRef.current();
+    source.onopen = refetch;
+    source.addEventListener('order.created', (event) => {
+      const { orderId } = JSON.parse((event as MessageEvent).data);
+      toast.success(`New order ${orderId}`);
+      refetch();
+    });
+    source.addEventListener('order.updated', refetch);
+    source.addEventListener('order.delivered', refetch);
+    return () => source.close();
+  }, []);
+
+  const toggleItem = async (item: TicketItem) => {
+    const prepared = !item.preparedAt;
+    // Tick straight away; the refetch confirms it
+    setTickets(prev => prev.map(ticket => ({
+      ...ticket,
+      items: ticket.items.map(other =>
+        other.id === item.id ? { ...other, preparedAt: prepared ? new Date().toISOString() : null } : other
+      )
+    })));
+    try {
+      const response = await fetch(`/api/kitchen/items/${item.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ prepared })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        toast.error(data.error || 'Failed to update item');
+      }
+    } catch (error) {
+      console.error('Error updating item:', error);
+      toast.error('Failed to update item');
+    }
+    await fetchTickets();
+  };
+
+  const bumpTicket = async (ticket: Ticket) => {
+    setBusyOrderId(ticket.orderId);
+    try {
+      const response = await fetch('/api/kitchen/bump', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ orderId: ticket.orderId })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setLastBumpedOrderId(ticket.orderId);
+        await fetchTickets();
+      } else {
+        toast.error(data.error || 'Failed to bump order');
+      }
+    } catch (error) {
+      console.error('Error bumping order:', error);
+      toast.error('Failed to bump order');
+    } finally {
+      setBusyOrderId(null);
+    }
+  };
+
+  const recallLastBumped = async () => {
+    if (!lastBumpedOrderId) return;
+    try {
+      const response = await fetch('/api/orders', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ orderId: lastBumpedOrderId, stage: 'cooking' })
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Order ${lastBumpedOrderId} recalled`);
+        setLastBumpedOrderId(null);
+        await fetchTickets();
+      } else {
+        toast.error(data.error || 'Failed to recall order');
+      }
+    } catch (error) {
+      console.error('Error recalling order:', error);
+      toast.error('Failed to recall order');
+    }
+  };
+
+  // Store names only matter when tickets from several stores share the screen
+  const showStoreNames = new Set(tickets.map(ticket => ticket.store?.id)).size > 1;
+
+  return (
+    <div className="min-h-screen bg-gray-900">
+      <Toaster position="top-right" />
+
+      <header className="bg-black px-4 py-2 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <h1 className="text-2xl font-black" style={{ color: '#E83434' }}>Kitchen</h1>
+          <span className="text-3xl font-bold text-white tabular-nums">{formatClock(now)}</span>
+          <span className="text-lg text-gray-300">{tickets.length} open</span>
+        </div>
+        <div className="flex items-center gap-4">
+          {lastBumpedOrderId && canCook && (
+            <button
+              type="button"
+              onClick={recallLastBumped}
+              className="px-3 py-2 rounded-md bg-gray-700 text-base font-medium text-white hover:bg-gray-600"
+            >
+              Recall #{lastBumpedOrderId}
+            </button>
+          )}
+          <Link href="/" className="text-sm font-medium text-gray-300 hover:text-white">
+            Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="p-4">
+        {loading ? (
+          <div className="flex items-center gap-2">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+            <span className="text-sm text-gray-300">Loading...</span>
+          </div>
+        ) : tickets.length === 0 ? (
+          <p className="py-24 text-center text-2xl text-gray-400">No orders to cook</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 items-start">
+            {tickets.map(ticket => {
+              const minutesLeft = Math.round((new Date(ticket.targetReadyAt).getTime() - now.getTime()) / 60000);
+              const ageing = AGEING_STYLES[ageingOf(minutesLeft)];
+              const allPrepared = ticket.items.length > 0 && ticket.items.every(item => item.preparedAt);
+              return (
+                <article key={ticket.orderId} className="bg-white rounded-lg overflow-hidden shadow-lg">
+                  <div className={`${ageing.header} px-3 py-2 text-white`}>
+                    <div className="flex items-baseline justify-between gap-2">
+                      <span className="text-3xl font-black tabular-nums">{formatClock(ticket.targetReadyAt)}</span>
+                      <span className="text-lg font-bold">
+                        {minutesLeft < 0 ? `${-minutesLeft} min late` : `${minutesLeft} min`}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-medium">#{ticket.orderId}</span>
+                      <span>{ageing.label}</span>
+                      {ticket.stage === 'cooking' && (
+                        <span className="px-1.5 rounded bg-white/25 font-bold">Started</span>
+                      )}
+                      {ticket.isReservation && (
+                        <span className="px-1.5 rounded bg-white/25 font-bold">Reserved</span>
+                      )}
+                      {showStoreNames && ticket.store && (
+                        <span className="px-1.5 rounded bg-black/25">{ticket.store.name}</span>
+                      )}
+                    </div>
+                  </div>
+
+                  <ul className="divide-y divide-gray-200">
+                    {ticket.items.map(item => (
+                      <li key={item.id}>
+                        <button
+                          type="button"
+                          onClick={() => toggleItem(item)}
+                          disabled={!canCook}
+                          className={`w-full px-3 py-2 text-left flex gap-3 ${item.preparedAt ? 'bg-gray-100 opacity-50' : 'hover:bg-gray-50'}`}
+                        >
+                          <span className={`text-2xl font-black ${item.quantity > 1 ? 'text-red-600' : 'text-gray-900'}`}>
+                            {item.quantity}×
+                          </span>
+                          <span className="flex-1">
+                            <span className={`block text-xl font-bold text-gray-900 ${item.preparedAt ? 'line-through' : ''}`}>
+                              {item.name}
+                            </span>
+                            {ticket.translations[item.name] && (
+                              <span className="block text-base text-gray-500 italic">{ticket.translations[item.name]}</span>
+                            )}
+                            {item.options.map((option, index) => (
+                              <span key={index} className="block text-base text-gray-700">
+                                + {option}
+                                {ticket.translations[option] && <span className="text-gray-500 italic"> ({ticket.translations[option]})</span>}
+                              </span>
+                            ))}
+                          </span>
+                          {item.preparedAt && <span className="text-2xl text-green-600">✓</span>}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+
+                  {(ticket.utensils || ticket.notes) && (
+                    <div className="px-3 py-2 space-y-2 border-t border-gray-200">
+                      {ticket.utensils && (
+                        <span className="inline-block px-2 py-0.5 rounded bg-purple-100 text-lg font-bold text-purple-700">
+                          Utensils
+                        </span>
+                      )}
+                      {ticket.notes && (
+                        <p className="rounded bg-yellow-100 p-2 text-lg font-medium text-gray-900 whitespace-pre-wrap break-words">
+                          {ticket.notes}
+                          {ticket.translations[ticket.notes] && (
+                            <span className="block mt-1 text-base text-gray-600 italic">{ticket.translations[ticket.notes]}</span>
+                          )}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {canCook && (
+                    <button
+                      type="button"
+                      onClick={() => bumpTicket(ticket)}
+                      disabled={busyOrderId === ticket.orderId}
+                      className={`w-full py-4 text-2xl font-black text-white disabled:opacity-50 ${
+                        allPrepared ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-800 hover:bg-gray-700'
+                      }`}
+                    >
+                      Bump
+                    </button>
+                  )}
+                </article>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
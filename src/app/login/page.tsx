@@ -0,0 +1,167 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import toast, { Toaster } from 'react-hot-toast';
+
+const PIN_PAD_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'enter'];
+const MAX_PIN_LENGTH = 8;
+
+// Back to the page the middleware sent us here from, but only within this site
+const redirectTarget = () => {
+  const next = new URLSearchParams(window.location.search).get('next');
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+};
+
+export default function Login() {
+  const [pin, setPin] = useState('');
+  const [name, setName] = useState('');
+  const [staffId, setStaffId] = useState('');
+  const [staff, setStaff] = useState<{ id: string; name: string }[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  // True until the first staff account has been created
+  const [setupRequired, setSetupRequired] = useState(false);
+
+  useEffect(() => {
+    const checkSetup = async () => {
+      try {
+        const response = await fetch('/api/auth/setup', { cache: 'no-store' });
+        const data = await response.json();
+        if (data.success) {
+          setSetupRequired(data.setupRequired);
+        }
+      } catch (error) {
+        console.error('Error checking setup:', error);
+      }
+    };
+    const fetchStaff = async () => {
+      try {
+        const response = await fetch('/api/auth/login', { cache: 'no-store' });
+        const data = await response.json();
+        if (data.success) {
+          setStaff(data.staff);
+        }
+      } catch (error) {
+        console.error('Error fetching staff:', error);
+      }
+    };
+    checkSetup();
+    fetchStaff();
+  }, []);
+
+  const submit = async () => {
+    if (!setupRequired && !staffId) {
+      toast.error('Choose your name');
+      return;
+    }
+    if (pin.length < 4) {
+      toast.error('Enter your PIN');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(setupRequired ? '/api/auth/setup' : '/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(setupRequired ? { name, pin } : { staffId, pin })
+      });
+      const data = await response.json();
+      if (data.success) {
+        window.location.href = redirectTarget();
+        return;
+      }
+      toast.error(data.error || 'Failed to sign in');
+      setPin('');
+    } catch (error) {
+      console.error('Sign in error:', error);
+      toast.error('Failed to sign in');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleKey = (key: string) => {
+    if (key === 'clear') {
+      setPin('');
+    } else if (key === 'enter') {
+      submit();
+    } else if (pin.length < MAX_PIN_LENGTH) {
+      setPin(prev => prev + key);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <Toaster position="top-right" />
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); submit(); }}
+        className="w-72 bg-white rounded-lg shadow-sm p-6 space-y-4"
+      >
+        <h1 className="text-3xl font-black text-center" style={{ color: '#E83434' }}>Demae Robokun</h1>
+
+        {setupRequired && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              No staff accounts yet. Create the first one to finish setting up.
+            </p>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Your name"
+              className="w-full px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 placeholder:text-gray-600"
+              required
+            />
+          </div>
+        )}
+
+        {!setupRequired && (
+          <select
+            value={staffId}
+            onChange={(e) => setStaffId(e.target.value)}
+            className="w-full px-2 py-2 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            disabled={submitting}
+            required
+          >
+            <option value="">Who are you?</option>
+            {staff.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+        )}
+
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, MAX_PIN_LENGTH))}
+          placeholder={setupRequired ? 'Choose a 4-8 digit PIN' : 'PIN'}
+          className="w-full px-2 py-2 text-center text-2xl tracking-widest text-gray-900 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 placeholder:text-sm placeholder:tracking-normal placeholder:text-gray-600"
+          disabled={submitting}
+        />
+
+        <div className="grid grid-cols-3 gap-2">
+          {PIN_PAD_KEYS.map(key => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => handleKey(key)}
+              disabled={submitting}
+              className={`h-14 rounded-md font-bold shadow-sm disabled:opacity-50 ${
+                key === 'enter'
+                  ? 'bg-blue-600 text-white text-base hover:bg-blue-700'
+                  : key === 'clear'
+                    ? 'bg-gray-200 text-gray-700 text-sm hover:bg-gray-300'
+                    : 'bg-gray-100 text-gray-900 text-xl hover:bg-gray-200'
+              }`}
+            >
+              {key === 'enter' ? (setupRequired ? 'Create' : 'Sign in') : key === 'clear' ? 'Clear' : key}
+            </button>
+          ))}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,11 +1,84 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
 import toast, { Toaster } from 'react-hot-toast';
+import { can } from '@/utils/permissions';
+import { CUSTOMER_FLAG_LABELS, CustomerFlag } from '@/utils/customerFlags';
+import { OrderHighlights, RULE_COLOR_VALUES, RuleField } from '@/utils/orderRules';
+import { isCashPayment } from '@/utils/payments';
+import { playSound } from '@/utils/sounds';
+import { canMoveToStage, isClosedStage, nextStage, ORDER_STAGES, OrderStage, STAGE_LABELS, STAGE_TRANSITIONS, isOrderStage, stageLabel } from '@/utils/workflow';
+
+interface OrderLineItem {
+  id: string;
+  name: string;
+  options: string[];
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+interface OrderStatusEvent {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  source: 'portal' | 'staff';
+  // Who made a staff change
+  staff: { id: string; name: string } | null;
+  createdAt: string;
+}
+
+type MonitorState =
+  | 'idle'
+  | 'launching'
+  | 'logging_in'
+  | 'initial_sync'
+  | 'polling'
+  | 'reauthenticating'
+  | 'backoff'
+  | 'failed'
+  | 'stopped';
+
+interface MonitorTransition {
+  from: MonitorState;
+  to: MonitorState;
+  reason: string;
+  at: string;
+}
+
+interface Store {
+  id: string;
+  name: string;
+  accountEmail: string;
+  hasCredentials: boolean;
+  credentialsUpdatedAt: string | null;
+}
+
+interface Driver {
+  id: string;
+  name: string;
+  phone: string;
+}
+
+interface MonitorStatus {
+  store: Store;
+  running: boolean;
+  state: MonitorState;
+  stateSince: string;
+  stateReason: string;
+  transitions: MonitorTransition[];
+  startedAt: string | null;
+  lastPollAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
 
 interface Order {
   id?: string;
   orderId: string;
+  storeId: string | null;
+  store: { id: string; name: string } | null;
   orderTime: string;
   deliveryTime: string;
   paymentMethod: string;
@@ -13,11 +86,37 @@ interface Order {
   visitCount: string;
   customerName: string;
   customerPhone: string;
+  // Set when the phone number matched a customer
+  customerId: string | null;
+  // Flags and internal notes kept on the customer or the delivery address
+  alerts: {
+    flags: CustomerFlag[];
+    notes: { source: 'customer' | 'address'; text: string }[];
+  } | null;
+  // What the badge and highlight rules picked out
+  highlights: OrderHighlights;
+  // Notes, item names and options mapped to their translations
+  translations: Record<string, string>;
   waitingTime: string;
   totalAmount: number;
   status: string;
   items: string;
-  isDelivered?: boolean;
+  lineItems: OrderLineItem[];
+  statusEvents: OrderStatusEvent[];
+  // Driver taking the order out
+  driver: Driver | null;
+  // Fulfilment workflow stage, and when the order entered each one
+  stage: string;
+  stageChangedAt: string;
+  cookingAt: string | null;
+  readyAt: string | null;
+  outForDeliveryAt: string | null;
+  deliveredAt: string | null;
+  cancelledAt: string | null;
+  // Latest kitchen ticket print, if any
+  printJobs: { status: 'printed' | 'failed'; reason: string; error: string | null; createdAt: string }[];
+  // 領収書 issued for the order, if any
+  receipt: { id: string; addressee: string; issuedAt: string; printCount: number } | null;
   isActive?: boolean;
   address: string;
   notes: string;
@@ -42,14 +141,82 @@ const ClientDate = () => {
   );
 };
 
+// Label and colours of the monitor status pill for each state
+const MONITOR_STATE_PILLS: Record<MonitorState, { label: string; className: string; dotClassName: string; pulse: boolean }> = {
+  idle: { label: 'Not monitoring', className: 'bg-gray-100 text-gray-700', dotClassName: 'bg-gray-400', pulse: false },
+  launching: { label: 'Launching browser', className: 'bg-blue-100 text-blue-800', dotClassName: 'bg-blue-500', pulse: true },
+  logging_in: { label: 'Logging in', className: 'bg-blue-100 text-blue-800', dotClassName: 'bg-blue-500', pulse: true },
+  initial_sync: { label: 'Syncing orders', className: 'bg-blue-100 text-blue-800', dotClassName: 'bg-blue-500', pulse: true },
+  polling: { label: 'Monitoring', className: 'bg-green-100 text-green-800', dotClassName: 'bg-green-500', pulse: true },
+  reauthenticating: { label: 'Re-authenticating', className: 'bg-yellow-100 text-yellow-800', dotClassName: 'bg-yellow-500', pulse: true },
+  backoff: { label: 'Backing off', className: 'bg-orange-100 text-orange-800', dotClassName: 'bg-orange-500', pulse: true },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800', dotClassName: 'bg-red-500', pulse: false },
+  stopped: { label: 'Stopped', className: 'bg-gray-100 text-gray-700', dotClassName: 'bg-gray-400', pulse: false }
+};
+
+// States in which no monitor is running
+const MONITOR_ENDED_STATES: MonitorState[] = ['idle', 'stopped', 'failed'];
+
+// Customer and address flag badges
+const FLAG_BADGE_CLASSES: Record<CustomerFlag, string> = {
+  vip: 'bg-purple-100 text-purple-700',
+  caution: 'bg-gray-900 text-white',
+  allergy: 'bg-orange-100 text-orange-700',
+  callOnArrival: 'bg-teal-100 text-teal-700'
+};
+
+// Card border and outer ring from the highlight rules
+const highlightStyle = ({ border, outline }: OrderHighlights) => ({
+  ...(border ? { borderWidth: 4, borderStyle: border.style, borderColor: RULE_COLOR_VALUES[border.color].border } : {}),
+  ...(outline ? { outline: `4px ${outline.style} ${RULE_COLOR_VALUES[outline.color].border}`, outlineOffset: 2 } : {})
+});
+
+// Text colour for a card value from the first of its fields a rule picked out
+const fieldColorStyle = ({ fieldColors }: OrderHighlights, ...fields: RuleField[]) => {
+  const color = fields.map(field => fieldColors[field]).find(Boolean);
+  return color ? { color: RULE_COLOR_VALUES[color].text } : undefined;
+};
+
+// Stores are named after their portal shop once an order has been scraped
+const storeLabel = (store: { name: string; accountEmail?: string }) => store.name || store.accountEmail || 'Unnamed store';
+
+// Step a YYYY-MM-DD business date by whole days
+const shiftBusinessDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
 export default function Home() {
-  const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('');
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [monitoring, setMonitoring] = useState(false);
-  const [activeTab, setActiveTab] = useState<'active' | 'delivered'>('active');
-  const [storeName, setStoreName] = useState('');
+  // One entry per store (merchant account)
+  const [monitorStatuses, setMonitorStatuses] = useState<MonitorStatus[]>([]);
+  // null shows every store's orders combined
+  const [selectedStoreId, setSelectedStoreId] = useState<string | null>(null);
+  const [openTimelines, setOpenTimelines] = useState<Set<string>>(new Set());
+  // null follows the current business day; otherwise an earlier day being browsed
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [businessDate, setBusinessDate] = useState('');
+  const [currentBusinessDate, setCurrentBusinessDate] = useState('');
+  // True while the /api/orders/stream connection is open; polling only runs when it is not
+  const [streamConnected, setStreamConnected] = useState(false);
+  const [currentStaff, setCurrentStaff] = useState<{ id: string; name: string; role: string } | null>(null);
+  const role = currentStaff?.role;
+  // Active drivers, for managers assigning orders
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  // Orders ticked for assigning to a driver in one go
+  const [selectedOrderIds, setSelectedOrderIds] = useState<Set<string>>(new Set());
+  // Export panel; the range starts out as the day being viewed
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportRange, setExportRange] = useState({ from: '', to: '' });
+  const [exportStages, setExportStages] = useState<Set<OrderStage>>(new Set());
+  const [exporting, setExporting] = useState(false);
+
+  // Orders already on screen, so rule sounds only play for new arrivals.
+  // Null until the first load of a day and store.
+  const seenOrdersRef = useRef<{ view: string; orderIds: Set<string> } | null>(null);
 
   // Function to force a re-render
   const forceUpdate = useCallback(() => {
@@ -70,10 +237,21 @@ export default function Home() {
 
   // Fetch orders function with improved error handling and state updates
   const fetchOrders = useCallback(async () => {
-    if (!monitoring) return;
+    const view = `${selectedDate ?? ''}|${selectedStoreId ?? ''}`;
+    const noteSeenOrders = (seen: Order[]) => {
+      const previous = seenOrdersRef.current;
+      if (previous?.view === view) {
+        new Set(seen.filter(order => !previous.orderIds.has(order.orderId)).flatMap(order => order.highlights.sounds))
+          .forEach(playSound);
+      }
+      seenOrdersRef.current = { view, orderIds: new Set(seen.map(order => order.orderId)) };
+    };
 
     try {
-      const response = await fetch('/api/orders', {
+      const params = new URLSearchParams();
+      if (selectedDate) params.set('date', selectedDate);
+      if (selectedStoreId) params.set('storeId', selectedStoreId);
+      const response = await fetch(`/api/orders?${params}`, {
         cache: 'no-store',
         headers: {
           'Cache-Control': 'no-cache, no-store, must-revalidate',
@@ -81,6 +259,12 @@ export default function Home() {
           'Expires': '0'
         }
       });
+
+      if (response.status === 401) {
+        // Session expired mid-shift
+        window.location.href = '/login';
+        return;
+      }
       
       if (!response.ok) {
         throw new Error('Failed to fetch orders');
@@ -89,10 +273,12 @@ export default function Home() {
       const data = await response.json();
 
       if (data.success) {
+        setBusinessDate(data.businessDate);
+        setCurrentBusinessDate(data.currentBusinessDate);
         if (!data.orders || data.orders.length === 0) {
           console.log('No orders found');
+          noteSeenOrders([]);
           updateOrders([]);
-          setStoreName('');
           return;
         }
 
@@ -103,17 +289,11 @@ export default function Home() {
           return new Date(b.orderTime).getTime() - new Date(a.orderTime).getTime();
         });
 
+        noteSeenOrders(sortedOrders);
+
         // Update orders and ensure UI updates
         updateOrders(sortedOrders);
 
-        if (sortedOrders.length > 0 && sortedOrders[0].items) {
-          const items = sortedOrders[0].items;
-          const storeMatch = items.match(/店舗：(.+?)(?:\n|$)/);
-          if (storeMatch) {
-            setStoreName(storeMatch[1].trim());
-          }
-        }
-
         // Force an immediate UI update
         requestAnimationFrame(() => {
           forceUpdate();
@@ -121,20 +301,21 @@ export default function Home() {
       } else {
         console.log('Failed to fetch orders:', data.error);
         updateOrders([]);
-        setStoreName('');
       }
     } catch (error) {
       console.error('Error fetching orders:', error);
       toast.error('Failed to fetch orders');
       updateOrders([]);
-      setStoreName('');
     }
-  }, [monitoring, updateOrders, forceUpdate]);
+  }, [selectedDate, selectedStoreId, updateOrders, forceUpdate]);
+
+  // Last seen monitor state per store, to spot monitors that have just failed
+  const previousMonitorStatesRef = useRef<Map<string, MonitorState>>(new Map());
 
   // Check monitoring status from backend
   const checkMonitoringStatus = useCallback(async () => {
     try {
-      const response = await fetch('/api/orders?checkMonitoring=true', {
+      const response = await fetch('/api/monitor', {
         cache: 'no-store',
         headers: {
           'Cache-Control': 'no-cache, no-store, must-revalidate',
@@ -150,29 +331,22 @@ export default function Home() {
       const data = await response.json();
       
       if (data.success) {
-        const newMonitoringState = data.monitoring;
+        const latestStatuses: MonitorStatus[] = data.monitors;
+        // Re-authenticating and backing off still count as monitoring
+        const newMonitoringState = latestStatuses.some(status => !MONITOR_ENDED_STATES.includes(status.state));
+        setMonitorStatuses(latestStatuses);
+
+        for (const status of latestStatuses) {
+          const previousState = previousMonitorStatesRef.current.get(status.store.id);
+          if (previousState && previousState !== 'failed' && status.state === 'failed') {
+            toast.error(`Monitoring failed for ${storeLabel(status.store)}: ${status.stateReason}`);
+          }
+          previousMonitorStatesRef.current.set(status.store.id, status.state);
+        }
         
-        // If monitoring was active but is now inactive (window closed)
+        // If monitoring was active but every monitor has since ended
         if (monitoring && !newMonitoringState) {
-          // Stop monitoring completely
-          await fetch('/api/orders', {
-            method: 'DELETE',
-            headers: {
-              'Cache-Control': 'no-cache, no-store, must-revalidate',
-              'Pragma': 'no-cache',
-              'Expires': '0'
-            }
-          });
-          
           setMonitoring(false);
-          setOrders([]);
-          setStoreName('');
-          setEmail('');
-          setPassword('');
-          localStorage.removeItem('isMonitoring');
-          localStorage.removeItem('monitoringEmail');
-          localStorage.removeItem('monitoringPassword');
-          toast.error('Monitoring stopped: Browser window was closed');
           forceUpdate();
           setLoading(false);
           return;
@@ -180,62 +354,121 @@ export default function Home() {
 
         if (newMonitoringState !== monitoring) {
           setMonitoring(newMonitoringState);
-          if (!newMonitoringState) {
-            updateOrders([]);
-            setStoreName('');
-          }
           forceUpdate();
         }
         setLoading(false);
-        
-        if (!newMonitoringState) {
-          localStorage.removeItem('isMonitoring');
-          localStorage.removeItem('monitoringEmail');
-          localStorage.removeItem('monitoringPassword');
-          setEmail('');
-          setPassword('');
-        } else {
-          localStorage.setItem('isMonitoring', 'true');
-          const savedEmail = localStorage.getItem('monitoringEmail');
-          const savedPassword = localStorage.getItem('monitoringPassword');
-          if (savedEmail && savedPassword) {
-            setEmail(savedEmail);
-            setPassword(savedPassword);
-          }
-        }
       }
     } catch (error) {
       console.error('Error checking monitoring status:', error);
       if (monitoring) {
         setMonitoring(false);
         setLoading(false);
-        setOrders([]);
-        setStoreName('');
-        setEmail('');
-        setPassword('');
-        localStorage.removeItem('isMonitoring');
-        localStorage.removeItem('monitoringEmail');
-        localStorage.removeItem('monitoringPassword');
         toast.error('Monitoring stopped: Connection lost');
       }
       forceUpdate();
     }
-  }, [monitoring, forceUpdate, updateOrders]);
+  }, [monitoring, forceUpdate]);
+
+  // Who is signed in on this device
+  useEffect(() => {
+    const fetchSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session', { cache: 'no-store' });
+        const data = await response.json();
+        if (data.success) {
+          setCurrentStaff(data.staff);
+        }
+      } catch (error) {
+        console.error('Error fetching session:', error);
+      }
+    };
+    fetchSession();
+  }, []);
+
+  useEffect(() => {
+    if (!can(role, 'orders.assign')) {
+      return;
+    }
+    const fetchDrivers = async () => {
+      try {
+        const response = await fetch('/api/drivers', { cache: 'no-store' });
+        const data = await response.json();
+        if (data.success) {
+          setDrivers(data.drivers.filter((driver: Driver & { active: boolean }) => driver.active));
+        }
+      } catch (error) {
+        console.error('Error fetching drivers:', error);
+      }
+    };
+    fetchDrivers();
+  }, [role]);
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      window.location.href = '/login';
+    }
+  };
 
   // Initial setup effect
   useEffect(() => {
     const initialize = async () => {
       await checkMonitoringStatus();
-      if (monitoring) {
-        await fetchOrders();
-      }
+      await fetchOrders();
     };
     initialize();
   }, [checkMonitoringStatus, fetchOrders, monitoring]);
 
-  // Effect to handle monitoring state changes
+  // Latest callbacks for the stream listeners, so the connection isn't
+  // reopened every time the selected date or monitoring state changes
+  const fetchOrdersRef = useRef(fetchOrders);
+  const checkMonitoringStatusRef = useRef(checkMonitoringStatus);
   useEffect(() => {
-    if (monitoring) {
+    fetchOrdersRef.current = fetchOrders;
+    checkMonitoringStatusRef.current = checkMonitoringStatus;
+  }, [fetchOrders, checkMonitoringStatus]);
+
+  // Subscribe to live order and monitor events
+  useEffect(() => {
+    const source = new EventSource('/api/orders/stream');
+    let refetchTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    // Collapse bursts of events (e.g. a full sync) into one refetch
+    const scheduleRefetch = () => {
+      if (refetchTimeout) clearTimeout(refetchTimeout);
+      refetchTimeout = setTimeout(() => fetchOrdersRef.current(), 250);
+    };
+
+    source.onopen = () => {
+      setStreamConnected(true);
+      // Catch up on anything missed while disconnected
+      scheduleRefetch();
+      checkMonitoringStatusRef.current();
+    };
+    // EventSource reconnects by itself; poll until it does
+    source.onerror = () => setStreamConnected(false);
+
+    source.addEventListener('order.created', (event) => {
+      const { orderId } = JSON.parse((event as MessageEvent).data);
+      toast.success(`New order ${orderId}`);
+      scheduleRefetch();
+    });
+    source.addEventListener('order.updated', scheduleRefetch);
+    source.addEventListener('order.delivered', scheduleRefetch);
+    source.addEventListener('monitor.state', () => {
+      checkMonitoringStatusRef.current();
+    });
+
+    return () => {
+      if (refetchTimeout) clearTimeout(refetchTimeout);
+      source.close();
+    };
+  }, []);
+
+  // Fall back to polling while monitoring if the stream is down
+  useEffect(() => {
+    if (monitoring && !streamConnected) {
       let monitoringInterval: NodeJS.Timeout;
       let fetchInterval: NodeJS.Timeout;
 
@@ -260,7 +493,7 @@ export default function Home() {
         if (fetchInterval) clearInterval(fetchInterval);
       };
     }
-  }, [monitoring, fetchOrders, checkMonitoringStatus]);
+  }, [monitoring, streamConnected, fetchOrders, checkMonitoringStatus]);
 
   // Add effect to handle real-time UI updates
   useEffect(() => {
@@ -271,20 +504,13 @@ export default function Home() {
     }
   }, [monitoring, forceUpdate, fetchOrders]);
 
-  const handleLogin = async (e: React.FormEvent | null) => {
-    if (e) {
-    e.preventDefault();
-    }
-
-    if (!email || !password) {
-      toast.error('Email and password are required');
-      return;
-    }
-
+  // The monitor logs in with the store's saved credentials; see /settings
+  const handleStartMonitoring = async (store: Store) => {
     setLoading(true);
     
     try {
-      const response = await fetch('/api/orders', {
+      // Returns once the portal login succeeds; polling carries on in the background
+      const response = await fetch('/api/monitor', {
         method: 'POST',
         headers: { 
           'Content-Type': 'application/json',
@@ -292,135 +518,55 @@ export default function Home() {
           'Pragma': 'no-cache',
           'Expires': '0'
         },
-        body: JSON.stringify({ 
-          email, 
-          password,
-          startMonitoring: true
-        }),
+        body: JSON.stringify({ action: 'start', storeId: store.id }),
       });
 
       const data = await response.json();
+      await checkMonitoringStatus();
       if (data.success) {
-        // Update state in a single batch
-        await Promise.all([
-          new Promise<void>(resolve => {
-            setMonitoring(true);
-            setLoading(false);
-            resolve();
-          }),
-          new Promise<void>(resolve => {
-            localStorage.setItem('isMonitoring', 'true');
-            localStorage.setItem('monitoringEmail', email);
-            localStorage.setItem('monitoringPassword', password);
-            resolve();
-          })
-        ]);
-
-        // Show success message
+        setMonitoring(true);
         if (data.existing) {
-          toast.success('Focused existing monitoring window');
+          toast.success(`Already monitoring ${storeLabel(store)}`);
         } else {
-          toast.success('Started monitoring for new orders');
+          toast.success(`Started monitoring ${storeLabel(store)}`);
         }
 
         // Fetch initial data
-        const ordersResponse = await fetch('/api/orders', {
-          cache: 'no-store',
-          headers: {
-            'Cache-Control': 'no-cache, no-store, must-revalidate',
-            'Pragma': 'no-cache',
-            'Expires': '0'
-          }
-        });
-
-        if (ordersResponse.ok) {
-          const ordersData = await ordersResponse.json();
-          if (ordersData.success && ordersData.orders) {
-            const sortedOrders = ordersData.orders
-              .map((order: Order) => ({
-                ...order,
-                notes: (!order.notes || !order.notes.trim() || order.notes === '-' || /^[{<!]/.test(order.notes)) ? '-' : order.notes
-              }))
-              .sort((a: Order, b: Order) => new Date(b.orderTime).getTime() - new Date(a.orderTime).getTime());
-
-            // Update orders state
-            setOrders(sortedOrders);
-
-            // Update store name if available
-            if (sortedOrders.length > 0 && sortedOrders[0].items) {
-              const storeMatch = sortedOrders[0].items.match(/店舗：(.+?)(?:\n|$)/);
-              if (storeMatch) {
-                setStoreName(storeMatch[1].trim());
-              }
-            }
-          }
-        }
+        await fetchOrders();
       } else {
-        // Clear all states and storage on failure
-        await Promise.all([
-          new Promise<void>(resolve => {
-            setMonitoring(false);
-            setLoading(false);
-            setOrders([]);
-            resolve();
-          }),
-          new Promise<void>(resolve => {
-            localStorage.removeItem('isMonitoring');
-            localStorage.removeItem('monitoringEmail');
-            localStorage.removeItem('monitoringPassword');
-            resolve();
-          })
-        ]);
         toast.error(data.error || 'Failed to start monitoring');
       }
     } catch (error) {
-      console.error('Login error:', error);
-      // Clear all states and storage on error
-      await Promise.all([
-        new Promise<void>(resolve => {
-          setMonitoring(false);
-          setLoading(false);
-          setOrders([]);
-          resolve();
-        }),
-        new Promise<void>(resolve => {
-          localStorage.removeItem('isMonitoring');
-          localStorage.removeItem('monitoringEmail');
-          localStorage.removeItem('monitoringPassword');
-          resolve();
-        })
-      ]);
+      console.error('Error starting monitoring:', error);
       toast.error('Failed to start monitoring');
+    } finally {
+      setLoading(false);
     }
   };
 
-  const handleStopMonitoring = async () => {
+  const handleStopMonitoring = async (store: Store) => {
     // Ask for confirmation before stopping
-    if (!confirm('Are you sure you want to stop monitoring? This will clear all current orders.')) {
+    if (!confirm(`Are you sure you want to stop monitoring ${storeLabel(store)}? New orders will not be picked up until it is started again.`)) {
       return;
     }
 
     setLoading(true);
     try {
-      const response = await fetch('/api/orders', {
-        method: 'DELETE',
+      const response = await fetch('/api/monitor', {
+        method: 'POST',
         headers: {
+          'Content-Type': 'application/json',
           'Cache-Control': 'no-cache, no-store, must-revalidate',
           'Pragma': 'no-cache',
           'Expires': '0'
-        }
+        },
+        body: JSON.stringify({ action: 'stop', storeId: store.id })
       });
       const data = await response.json();
       if (data.success) {
-        setMonitoring(false);
-        localStorage.removeItem('isMonitoring');
-        localStorage.removeItem('monitoringEmail');
-        localStorage.removeItem('monitoringPassword');
-        setEmail('');
-        setPassword('');
-        setOrders([]);
+        await checkMonitoringStatus();
         forceUpdate();
-        toast.success('Stopped monitoring for new orders');
+        toast.success(`Stopped monitoring ${storeLabel(store)}`);
       } else {
         toast.error('Failed to stop monitoring');
       }
@@ -432,7 +578,35 @@ export default function Home() {
     }
   };
 
-  const toggleDeliveryStatus = async (orderId: string, currentStatus: boolean) => {
+  const handleRestartMonitoring = async (store: Store) => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/monitor', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          'Pragma': 'no-cache',
+          'Expires': '0'
+        },
+        body: JSON.stringify({ action: 'restart', storeId: store.id })
+      });
+      const data = await response.json();
+      await checkMonitoringStatus();
+      if (data.success) {
+        toast.success(`Restarted monitoring ${storeLabel(store)}`);
+      } else {
+        toast.error(data.error || 'Failed to restart monitoring');
+      }
+    } catch (error) {
+      console.error('Error restarting monitoring:', error);
+      toast.error('Failed to restart monitoring');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const moveOrder = async (orderId: string, stage: OrderStage) => {
     try {
       const response = await fetch('/api/orders', {
         method: 'PUT',
@@ -442,17 +616,15 @@ export default function Home() {
           'Pragma': 'no-cache',
           'Expires': '0'
         },
-        body: JSON.stringify({ 
-          orderId, 
-          isDelivered: !currentStatus,
-          isActive: true 
-        }),
+        body: JSON.stringify({ orderId, stage }),
       });
       const data = await response.json();
       if (data.success) {
-        toast.success(`Order marked as ${!currentStatus ? 'delivered' : 'not delivered'}`);
+        toast.success(`Order ${orderId}: ${stageLabel(stage)}`);
         await fetchOrders();
         forceUpdate();
+      } else {
+        toast.error(data.error || 'Failed to update order status');
       }
     } catch (error: unknown) {
       console.error('Status update error:', error);
@@ -460,14 +632,200 @@ export default function Home() {
     }
   };
 
-  const filteredOrders = orders.filter(order => {
-    switch (activeTab) {
-      case 'active':
-        return !order.isDelivered;
-      case 'delivered':
-        return order.isDelivered;
+  const reprintOrder = async (orderId: string) => {
+    try {
+      const response = await fetch('/api/orders/print', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          'Pragma': 'no-cache',
+          'Expires': '0'
+        },
+        body: JSON.stringify({ orderId }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Ticket for ${orderId} printed`);
+      } else {
+        toast.error(data.error || 'Failed to print ticket');
+      }
+    } catch (error: unknown) {
+      console.error('Print error:', error);
+      toast.error('Failed to print ticket');
+    }
+  };
+
+  // Open a receipt's PDF in a new tab. The tab is opened first so that
+  // popup blockers allow it.
+  const printReceipt = async (receiptId: string) => {
+    const pdfWindow = window.open('', '_blank');
+    try {
+      const response = await fetch(`/api/receipts/${receiptId}/pdf`, {
+        method: 'POST',
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          'Pragma': 'no-cache',
+          'Expires': '0'
+        }
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to print receipt');
+      }
+      const url = URL.createObjectURL(await response.blob());
+      if (pdfWindow) {
+        pdfWindow.location.href = url;
+      } else {
+        window.location.href = url;
+      }
+      await fetchOrders();
+    } catch (error: unknown) {
+      console.error('Receipt error:', error);
+      pdfWindow?.close();
+      toast.error(error instanceof Error ? error.message : 'Failed to print receipt');
+    }
+  };
+
+  const toggleExport = () => {
+    if (!exportOpen) {
+      setExportRange({ from: businessDate, to: businessDate });
+    }
+    setExportOpen(!exportOpen);
+  };
+
+  // Download the orders in the export range, for the selected store only
+  // when one is selected
+  const exportOrders = async (format: 'csv' | 'xlsx') => {
+    setExporting(true);
+    try {
+      const params = new URLSearchParams({ from: exportRange.from, to: exportRange.to, format });
+      if (selectedStoreId) params.set('storeId', selectedStoreId);
+      if (exportStages.size > 0) params.set('status', Array.from(exportStages).join(','));
+      const response = await fetch(`/api/orders/export?${params}`, {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          'Pragma': 'no-cache',
+          'Expires': '0'
+        }
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to export orders');
+      }
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? `orders.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: unknown) {
+      console.error('Export error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export orders');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const issueReceipt = async (order: Order) => {
+    const addressee = prompt('領収書 addressee (宛名)', order.receiptName && order.receiptName !== '-' ? order.receiptName : '');
+    if (!addressee) {
+      return;
     }
-  });
+    try {
+      const response = await fetch('/api/receipts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          'Pragma': 'no-cache',
+          'Expires': '0'
+        },
+        body: JSON.stringify({ orderId: order.orderId, addressee }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Receipt issued for ${order.orderId}`);
+        await printReceipt(data.receipt.id);
+      } else {
+        toast.error(data.error || 'Failed to issue receipt');
+      }
+    } catch (error: unknown) {
+      console.error('Receipt error:', error);
+      toast.error('Failed to issue receipt');
+    }
+  };
+
+  const assignOrders = async (orderIds: string[], driverId: string | null) => {
+    try {
+      const response = await fetch('/api/orders/assign', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          'Pragma': 'no-cache',
+          'Expires': '0'
+        },
+        body: JSON.stringify({ orderIds, driverId })
+      });
+      const data = await response.json();
+      if (data.success) {
+        const driver = drivers.find(candidate => candidate.id === driverId);
+        toast.success(driver
+          ? `${orderIds.length === 1 ? 'Order' : `${orderIds.length} orders`} assigned to ${driver.name}`
+          : 'Driver removed');
+        setSelectedOrderIds(new Set());
+        await fetchOrders();
+      } else {
+        toast.error(data.error || 'Failed to assign driver');
+      }
+    } catch (error) {
+      console.error('Error assigning driver:', error);
+      toast.error('Failed to assign driver');
+    }
+  };
+
+  const toggleOrderSelection = (orderId: string) => {
+    setSelectedOrderIds(prev => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
+  };
+
+  const toggleTimeline = (orderId: string) => {
+    setOpenTimelines(prev => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
+  };
+
+  const selectedStore = monitorStatuses.find(status => status.store.id === selectedStoreId)?.store ?? null;
+  // Per-store badges only matter when several stores share the combined view
+  const showStoreBadges = selectedStoreId === null && monitorStatuses.length > 1;
+
+  // One board column per stage; orders with an unknown stage stay in Received
+  const ordersByStage = (stage: OrderStage) =>
+    orders.filter(order => (isOrderStage(order.stage) ? order.stage : 'received') === stage);
+
+  // The moves offered on a card. Drivers only ever see orders on their own
+  // run, so the own-order check can be assumed here; the API enforces it.
+  const stageMoves = (order: Order): OrderStage[] => {
+    if (!isOrderStage(order.stage)) {
+      return [];
+    }
+    return STAGE_TRANSITIONS[order.stage].filter(stage => canMoveToStage(role, order.stage, stage, true));
+  };
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -479,203 +837,357 @@ export default function Home() {
           <div className="flex justify-between items-center">
             <h1 className="text-3xl font-black" style={{ color: '#E83434' }}>Demae Robokun</h1>
             
-            {/* Login Form - Updated with loading state */}
-            <form onSubmit={handleLogin} className="flex items-center gap-2">
-              <div className="w-48">
-              <input
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                  placeholder="Email"
-                  className="w-full px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 placeholder:text-gray-600 disabled:bg-gray-100 disabled:text-gray-500 disabled:cursor-not-allowed"
-                required
-                  disabled={monitoring || loading}
-              />
-            </div>
-              <div className="w-48">
-              <input
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                  placeholder="Password"
-                  className="w-full px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 placeholder:text-gray-600 disabled:bg-gray-100 disabled:text-gray-500 disabled:cursor-not-allowed"
-                required
-                  disabled={monitoring || loading}
-              />
+            <div className="flex items-center gap-4">
+              {loading && (
+                <div className="flex items-center gap-2">
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+                  <span className="text-sm text-gray-600">Checking status...</span>
+                </div>
+              )}
+              {(can(role, 'orders.cook') || can(role, 'orders.update')) && (
+                <Link href="/kitchen" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+                  Kitchen
+                </Link>
+              )}
+              {(can(role, 'orders.assign') || can(role, 'orders.deliverAssigned')) && (
+                <Link href="/driver" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+                  Driver run
+                </Link>
+              )}
+              {can(role, 'customers.view') && (
+                <Link href="/customers" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+                  Customers
+                </Link>
+              )}
+              {can(role, 'reports.view') && (
+                <Link href="/reports" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+                  Reports
+                </Link>
+              )}
+              {can(role, 'reports.view') && (
+                <Link href="/analytics" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+                  Analytics
+                </Link>
+              )}
+              {can(role, 'settings.manage') && (
+                <Link href="/settings" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+                  Settings
+                </Link>
+              )}
+              {currentStaff && (
+                <div className="flex items-center gap-2 text-sm text-gray-700">
+                  <span>{currentStaff.name}</span>
+                  <button
+                    type="button"
+                    onClick={handleLogout}
+                    className="text-sm text-gray-500 hover:text-gray-900"
+                  >
+                    Log out
+                  </button>
+                </div>
+              )}
             </div>
-              <div className="flex items-center gap-2">
-                {!loading && (
-                  <>
-            <button
-              type="submit"
-                      disabled={loading || monitoring}
-                      className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+          </div>
+
+          {!loading && monitorStatuses.length === 0 && can(role, 'settings.manage') && (
+            <p className="mt-2 text-sm text-gray-600">
+              No merchant accounts yet. <Link href="/settings" className="text-blue-600 hover:text-blue-800">Add one in Settings</Link> to start monitoring.
+            </p>
+          )}
+
+          {/* Store switcher with each store's monitor status */}
+          {monitorStatuses.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              <button
+                type="button"
+                onClick={() => setSelectedStoreId(null)}
+                className={`px-3 py-1 text-xs font-medium rounded-full border ${
+                  selectedStoreId === null ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                All stores
+              </button>
+              {monitorStatuses.map(status => {
+                const pill = MONITOR_STATE_PILLS[status.state];
+                const isRunning = !MONITOR_ENDED_STATES.includes(status.state);
+                return (
+                  <div
+                    key={status.store.id}
+                    className={`flex items-center gap-1 rounded-full border pl-1 pr-2 py-0.5 ${
+                      selectedStoreId === status.store.id ? 'border-gray-900' : 'border-gray-300'
+                    }`}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => setSelectedStoreId(status.store.id)}
+                      className="px-2 text-xs font-medium text-gray-900"
+                      title={status.store.accountEmail}
                     >
-                      {monitoring ? 'Monitoring...' : 'Start Monitoring'}
+                      {storeLabel(status.store)}
                     </button>
-                    {monitoring && (
+                    <span
+                      className={`inline-flex items-center gap-2 rounded-full px-2 py-0.5 text-xs font-medium ${pill.className}`}
+                      title={`${status.stateReason} (since ${new Date(status.stateSince).toLocaleTimeString('ja-JP')})`}
+                    >
+                      <span className="relative flex h-2 w-2">
+                        {pill.pulse && (
+                          <span className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${pill.dotClassName}`}></span>
+                        )}
+                        <span className={`relative inline-flex rounded-full h-2 w-2 ${pill.dotClassName}`}></span>
+                      </span>
+                      {pill.label}
+                      {(status.state === 'backoff' || status.state === 'failed') && (
+                        <span className="max-w-xs truncate font-normal">: {status.stateReason}</span>
+                      )}
+                    </span>
+                    {!can(role, 'monitor.control') ? null : isRunning ? (
+                      <button
+                        type="button"
+                        onClick={() => handleStopMonitoring(status.store)}
+                        disabled={loading}
+                        className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        Stop
+                      </button>
+                    ) : !status.store.hasCredentials ? (
+                      <Link href="/settings" className="text-xs text-gray-500 hover:text-gray-700">
+                        Set password
+                      </Link>
+                    ) : (
                       <button
                         type="button"
-                        onClick={handleStopMonitoring}
-                        className="px-3 py-1 text-sm bg-red-600 text-white rounded-md shadow-sm hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+                        onClick={() => status.state === 'idle' ? handleStartMonitoring(status.store) : handleRestartMonitoring(status.store)}
+                        disabled={loading}
+                        className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
                       >
-                        Stop Monitoring
+                        {status.state === 'idle' ? 'Start' : 'Restart'}
                       </button>
                     )}
-                  </>
-                )}
-                {loading && !monitoring && (
-                  <div className="flex items-center gap-2">
-                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
-                    <span className="text-sm text-gray-600">Checking status...</span>
-                  </div>
-                )}
-                {loading && monitoring && (
-                  <div className="flex items-center gap-2">
-                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
-                    <span className="text-sm text-gray-600">Checking orders...</span>
-                    <button
-                      type="button"
-                      onClick={handleStopMonitoring}
-                      className="px-3 py-1 text-sm bg-red-600 text-white rounded-md shadow-sm hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
-                    >
-                      Stop Monitoring
-            </button>
                   </div>
-                )}
-              </div>
-          </form>
-          </div>
+                );
+              })}
+            </div>
+          )}
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-4">
         {/* Store Name Display */}
-        {storeName && (
+        {monitorStatuses.length > 0 && (
           <div className="text-center mb-6">
-            <h2 className="text-xl font-bold text-gray-900">{storeName}</h2>
+            <h2 className="text-xl font-bold text-gray-900">{selectedStore ? storeLabel(selectedStore) : 'All stores'}</h2>
           </div>
         )}
 
-        {/* Date Display */}
-        <div className="text-right mb-4">
-          <ClientDate />
+        {/* Business Day Navigation and Date Display */}
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => businessDate && setSelectedDate(shiftBusinessDate(businessDate, -1))}
+              disabled={!businessDate}
+              className="px-2 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              ◀
+            </button>
+            <input
+              type="date"
+              value={businessDate}
+              max={currentBusinessDate}
+              onChange={(e) => e.target.value && setSelectedDate(e.target.value === currentBusinessDate ? null : e.target.value)}
+              className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm"
+            />
+            <button
+              type="button"
+              onClick={() => {
+                const nextDate = shiftBusinessDate(businessDate, 1);
+                setSelectedDate(nextDate === currentBusinessDate ? null : nextDate);
+              }}
+              disabled={!businessDate || businessDate >= currentBusinessDate}
+              className="px-2 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              ▶
+            </button>
+            {selectedDate !== null && (
+              <button
+                type="button"
+                onClick={() => setSelectedDate(null)}
+                className="px-2 py-1 text-sm text-blue-600 hover:text-blue-800"
+              >
+                Back to today
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            {can(role, 'orders.export') && (
+              <button
+                type="button"
+                onClick={toggleExport}
+                disabled={!businessDate}
+                className="px-2 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 disabled:opacity-50"
+              >
+                Export
+              </button>
+            )}
+            <ClientDate />
+          </div>
         </div>
 
+        {exportOpen && (
+          <div className="mb-4 p-3 bg-white border border-gray-200 rounded-md shadow-sm flex flex-wrap items-center gap-3">
+            <div className="flex items-center gap-1">
+              <input
+                type="date"
+                value={exportRange.from}
+                max={exportRange.to}
+                onChange={(e) => e.target.value && setExportRange(prev => ({ ...prev, from: e.target.value }))}
+                className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm"
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="date"
+                value={exportRange.to}
+                min={exportRange.from}
+                max={currentBusinessDate}
+                onChange={(e) => e.target.value && setExportRange(prev => ({ ...prev, to: e.target.value }))}
+                className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm"
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {ORDER_STAGES.map(stage => (
+                <label key={stage} className="flex items-center gap-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={exportStages.has(stage)}
+                    onChange={() => setExportStages(prev => {
+                      const next = new Set(prev);
+                      if (next.has(stage)) {
+                        next.delete(stage);
+                      } else {
+                        next.add(stage);
+                      }
+                      return next;
+                    })}
+                  />
+                  {STAGE_LABELS[stage]}
+                </label>
+              ))}
+              <span className="text-xs text-gray-500">
+                {exportStages.size === 0 ? 'All stages' : ''}{selectedStore ? ` · ${storeLabel(selectedStore)} only` : ''}
+              </span>
+            </div>
+            <div className="flex items-center gap-2 ml-auto">
+              <button
+                type="button"
+                onClick={() => exportOrders('csv')}
+                disabled={exporting}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                CSV
+              </button>
+              <button
+                type="button"
+                onClick={() => exportOrders('xlsx')}
+                disabled={exporting}
+                className="px-3 py-1 text-sm bg-green-600 text-white rounded-md shadow-sm hover:bg-green-700 disabled:opacity-50"
+              >
+                Excel
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Orders Grid */}
         <div className="space-y-6">
           <div className="flex flex-col space-y-4">
             <div className="flex justify-between items-center">
               <div className="flex items-center gap-3">
                 <h2 className="text-2xl font-semibold text-gray-900">Orders</h2>
-                {(monitoring || loading) && (
-                  <div className="flex items-center">
-                    <span className="relative flex h-4 w-4">
-                      <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75"></span>
-                      <span className="relative inline-flex rounded-full h-4 w-4 bg-green-500"></span>
-                    </span>
-                  </div>
-                )}
               </div>
-              <span className="text-sm text-gray-500">{filteredOrders.length} orders found</span>
+              <span className="text-sm text-gray-500">{orders.length} orders found</span>
             </div>
-            
-            {/* Tabs */}
-            <div className="border-b border-gray-200">
-              <nav className="-mb-px flex space-x-8">
-                <button
-                  onClick={() => setActiveTab('active')}
-                  className={`${
-                    activeTab === 'active'
-                      ? 'border-green-500 text-green-600'
-                      : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
-                  } whitespace-nowrap border-b-2 py-4 px-1 text-sm font-medium transition-colors duration-200`}
+
+            {/* Assign the ticked orders to a driver */}
+            {selectedOrderIds.size > 0 && (
+              <div className="flex items-center gap-2 rounded-md bg-blue-50 px-3 py-2 text-sm text-blue-900">
+                <span>{selectedOrderIds.size} selected</span>
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && assignOrders([...selectedOrderIds], e.target.value === 'none' ? null : e.target.value)}
+                  className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md"
                 >
-                  Active Orders
-                  <span className="ml-2 rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-900">
-                    {orders.filter(order => !order.isDelivered).length}
-                  </span>
-                </button>
+                  <option value="">Assign to driver...</option>
+                  {drivers.map(driver => (
+                    <option key={driver.id} value={driver.id}>{driver.name}</option>
+                  ))}
+                  <option value="none">No driver</option>
+                </select>
                 <button
-                  onClick={() => setActiveTab('delivered')}
-                  className={`${
-                    activeTab === 'delivered'
-                      ? 'border-red-500 text-red-600'
-                      : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
-                  } whitespace-nowrap border-b-2 py-4 px-1 text-sm font-medium transition-colors duration-200`}
+                  type="button"
+                  onClick={() => setSelectedOrderIds(new Set())}
+                  className="text-blue-700 hover:text-blue-900"
                 >
-                  Delivered Orders
-                  <span className="ml-2 rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-900">
-                    {orders.filter(order => order.isDelivered).length}
-                  </span>
+                  Clear
                 </button>
-              </nav>
-            </div>
+              </div>
+            )}
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredOrders.map((order) => (
+          {/* Kanban board, one column per workflow stage */}
+          <div className="flex gap-4 overflow-x-auto pb-2">
+            {ORDER_STAGES.map((stage) => {
+              const stageOrders = ordersByStage(stage);
+              return (
+            <section key={stage} className="w-80 flex-shrink-0 space-y-4">
+              <h3 className="flex items-center justify-between rounded-md bg-gray-100 px-3 py-2 text-sm font-semibold text-gray-700">
+                {STAGE_LABELS[stage]}
+                <span className="rounded-full bg-white px-2.5 py-0.5 text-xs font-medium text-gray-900">
+                  {stageOrders.length}
+                </span>
+              </h3>
+            {stageOrders.map((order) => (
               <div
                 key={order.orderId}
                 className={`bg-white rounded-lg shadow-sm overflow-hidden transition-all duration-200 ${
-                  order.isDelivered ? 'opacity-85' : ''
-                } ${
-                  order.waitingTime === '-分' && 
-                  ((order.paymentMethod === '着払い' || order.paymentMethod === '代金引換') || 
-                   (order.receiptName && order.receiptName !== '-'))
-                  ? 'border-4 border-blue-300 outline outline-4 outline-red-300 outline-offset-2'
-                  : order.waitingTime === '-分' 
-                    ? 'border-4 border-blue-300'
-                    : (order.paymentMethod === '着払い' || order.paymentMethod === '代金引換' || 
-                       (order.receiptName && order.receiptName !== '-'))
-                      ? 'border-4 border-red-300'
-                      : 'border-2 border-gray-200'
-                }`}
+                  isClosedStage(stage) ? 'opacity-85' : ''
+                } ${order.highlights.border ? '' : 'border-2 border-gray-200'}`}
+                style={highlightStyle(order.highlights)}
               >
                 <div className="h-full">
-                  <div className={`h-full bg-white rounded-lg ${
-                    order.waitingTime === '-分' && 
-                    ((order.paymentMethod === '着払い' || order.paymentMethod === '代金引換') || 
-                     (order.receiptName && order.receiptName !== '-'))
-                    ? 'm-[1px]'
-                    : ''
-                  }`}>
+                  <div className={`h-full bg-white rounded-lg ${order.highlights.outline ? 'm-[1px]' : ''}`}>
                 {/* Order Header */}
                     <div className="px-2 py-2 bg-gray-50 border-b border-gray-200">
                   <div className="flex justify-between items-center">
-                        <h3 className="text-base font-medium text-gray-900">
-                      Order ID: {order.orderId}
-                    </h3>
-                        <div className="flex gap-0.5">
-                          {order.waitingTime === '-分' && (
-                            <span className="px-1 py-0.5 bg-blue-100 text-blue-600 rounded-full text-sm font-bold">
-                              Reserved
+                        <div className="flex items-center gap-2">
+                          <h3 className="text-base font-medium text-gray-900">
+                            Order ID: {order.orderId}
+                          </h3>
+                          {showStoreBadges && order.store && (
+                            <span className="px-1.5 py-0.5 text-xs font-medium rounded bg-gray-200 text-gray-800">
+                              {storeLabel(order.store)}
                             </span>
                           )}
-                          {order.items && (
-                            (order.items.includes('箸、スプーン、おしぼり等／Utensils') ||
-                             order.items.includes('箸、スプーン、おしぼり等') ||
-                             order.items.includes('Utensils')) && (
-                              <span className="px-1 py-0.5 bg-green-100 text-green-600 rounded-full text-sm font-bold">
-                                Utensils
-                              </span>
-                            )
-                          )}
-                          {order.notes && /lassi|lissa|lassy/i.test(order.notes) && (
-                            <span className="px-1 py-0.5 bg-yellow-100 text-yellow-600 rounded-full text-sm font-bold">
-                              Lassi
+                        </div>
+                        <div className="flex flex-wrap justify-end gap-0.5">
+                          {order.alerts?.flags.map(flag => (
+                            <span key={flag} className={`px-1 py-0.5 rounded-full text-sm font-bold ${FLAG_BADGE_CLASSES[flag]}`}>
+                              {CUSTOMER_FLAG_LABELS[flag]}
+                            </span>
+                          ))}
+                          {order.highlights.badges.map(badge => (
+                            <span
+                              key={badge.ruleId}
+                              className="px-1 py-0.5 rounded-full text-sm font-bold"
+                              style={{ backgroundColor: RULE_COLOR_VALUES[badge.color].background, color: RULE_COLOR_VALUES[badge.color].text }}
+                            >
+                              {badge.label}
+                            </span>
+                          ))}
+                          {order.receipt && (
+                            <span className="px-1 py-0.5 bg-gray-100 text-gray-600 rounded-full text-sm font-bold">
+                              Receipt ✓
                             </span>
                           )}
-                      {order.receiptName && order.receiptName !== '-' && (
-                            <span className="px-1 py-0.5 bg-red-100 text-red-600 rounded-full text-sm font-bold">
-                          Receipt
-                        </span>
-                      )}
-                      {(order.paymentMethod === '着払い' || order.paymentMethod === '代金引換') && (
-                            <span className="px-1 py-0.5 bg-red-100 text-red-600 rounded-full text-sm font-bold">
-                          Cash
-                        </span>
-                      )}
                     </div>
                   </div>
                 </div>
@@ -702,29 +1214,20 @@ export default function Home() {
                     </div>
                     <div>
                           <span className="text-xs text-gray-500">Delivery Time</span>
-                          <p className={`text-sm font-medium ${
-                            order.waitingTime === '-分'
-                              ? 'text-blue-600'
-                              : 'text-gray-900'
-                          }`}>
+                          <p className="text-sm font-medium text-gray-900" style={fieldColorStyle(order.highlights, 'waitingTime', 'deliveryTime')}>
                             <span>{order.deliveryTime.split(' ')[0]}</span>
-                            <span className={`text-base font-bold ml-2 ${
-                              order.waitingTime === '-分'
-                                ? 'text-blue-600'
-                                : 'text-gray-900'
-                            }`}>
+                            <span className="text-base font-bold ml-2">
                               {order.deliveryTime.split(' ')[1]?.replace(/:\d{2}$/, '')}
                             </span>
                           </p>
                     </div>
                     <div>
                           <span className="text-xs text-gray-500">Payment Method</span>
-                      <p className={`text-sm font-medium ${
-                        order.paymentMethod === '着払い' || order.paymentMethod === '代金引換'
-                          ? 'text-red-600 font-bold'
-                          : 'text-gray-900'
-                      }`}>
-                        {order.paymentMethod === '着払い' || order.paymentMethod === '代金引換' 
+                      <p
+                        className={`text-sm text-gray-900 ${order.highlights.fieldColors.paymentMethod ? 'font-bold' : 'font-medium'}`}
+                        style={fieldColorStyle(order.highlights, 'paymentMethod')}
+                      >
+                        {isCashPayment(order.paymentMethod)
                           ? 'Cash'
                           : order.paymentMethod === 'カード払い（注文時に決済）'
                             ? 'Credit Card'
@@ -739,11 +1242,59 @@ export default function Home() {
                     </div>
                   </div>
 
+                      {/* Items */}
+                      {order.lineItems && order.lineItems.length > 0 && (
+                        <div className="border-t border-gray-200 pt-2">
+                          <span className="text-xs text-gray-500">Items</span>
+                          <table className="w-full mt-1 text-sm">
+                            <thead>
+                              <tr className="text-xs text-gray-500 border-b border-gray-100">
+                                <th className="text-left font-normal pb-1">Item</th>
+                                <th className="text-right font-normal pb-1 w-10">Qty</th>
+                                <th className="text-right font-normal pb-1 w-16">Price</th>
+                                <th className="text-right font-normal pb-1 w-16">Total</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {order.lineItems.map((item) => (
+                                <tr key={item.id} className="align-top border-b border-gray-100 last:border-b-0">
+                                  <td className="py-1 pr-1">
+                                    <p className="font-medium text-gray-900">{item.name}</p>
+                                    {order.translations[item.name] && (
+                                      <p className="text-xs text-gray-500 italic">{order.translations[item.name]}</p>
+                                    )}
+                                    {item.options.map((option, index) => (
+                                      <p key={index} className="text-xs text-gray-600">
+                                        ・{option}
+                                        {order.translations[option] && <span className="text-gray-500 italic"> ({order.translations[option]})</span>}
+                                      </p>
+                                    ))}
+                                  </td>
+                                  <td className="py-1 text-right font-bold text-gray-900">×{item.quantity}</td>
+                                  <td className="py-1 text-right text-gray-700">¥{item.unitPrice.toLocaleString()}</td>
+                                  <td className="py-1 text-right font-medium text-gray-900">¥{item.lineTotal.toLocaleString()}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          <p className="mt-1 text-right text-sm font-bold text-gray-900">
+                            Total ¥{order.totalAmount.toLocaleString()}
+                          </p>
+                        </div>
+                      )}
+
+                      {can(role, 'orders.viewCustomer') && (
                       <div className="border-t border-gray-200 pt-2">
                         <div className="grid grid-cols-2 gap-1">
                       <div>
                             <span className="text-xs text-gray-500">Customer Name</span>
-                        <p className="text-sm font-medium text-gray-900">{order.customerName}</p>
+                        <p className="text-sm font-medium text-gray-900">
+                          {order.customerId && can(role, 'customers.view') ? (
+                            <Link href={`/customers/${order.customerId}`} className="text-blue-600 hover:text-blue-800 underline">
+                              {order.customerName || 'Customer'}
+                            </Link>
+                          ) : order.customerName}
+                        </p>
                       </div>
                       <div>
                             <span className="text-xs text-gray-500">Phone Number</span>
@@ -755,41 +1306,174 @@ export default function Home() {
                           <p className="text-sm font-medium text-gray-900">{order.address}</p>
                     </div>
                   </div>
+                      )}
+
+                      {/* Internal notes kept on the customer or address */}
+                      {order.alerts && order.alerts.notes.length > 0 && (
+                        <div className="rounded-md border border-amber-300 bg-amber-50 px-2 py-1">
+                          {order.alerts.notes.map(note => (
+                            <p key={note.source} className="text-sm text-amber-900 break-words">
+                              <span className="text-xs font-bold">{note.source === 'customer' ? 'Customer note' : 'Address note'}: </span>
+                              {note.text}
+                            </p>
+                          ))}
+                        </div>
+                      )}
 
                       {/* Notes Section */}
                       {order.notes && (
                         <div className="border-t border-gray-200 pt-1">
                           <span className="text-xs text-gray-500">Notes</span>
                           <p className="text-sm font-medium text-gray-900 break-words">{order.notes}</p>
+                          {order.translations[order.notes] && (
+                            <p className="text-sm text-gray-500 italic break-words">{order.translations[order.notes]}</p>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Status History */}
+                      {order.statusEvents && order.statusEvents.length > 0 && (
+                        <div className="border-t border-gray-200 pt-1">
+                          <button
+                            type="button"
+                            onClick={() => toggleTimeline(order.orderId)}
+                            className="text-xs text-gray-500 hover:text-gray-700"
+                          >
+                            {openTimelines.has(order.orderId) ? '▾' : '▸'} Status History ({order.statusEvents.length})
+                          </button>
+                          {openTimelines.has(order.orderId) && (
+                            <ol className="mt-1 space-y-1 border-l-2 border-gray-200 pl-2">
+                              {order.statusEvents.map((event) => (
+                                <li key={event.id} className="text-xs text-gray-700">
+                                  <span className="font-bold text-gray-900">
+                                    {new Date(event.createdAt).toLocaleString('ja-JP', {
+                                      month: '2-digit',
+                                      day: '2-digit',
+                                      hour: '2-digit',
+                                      minute: '2-digit',
+                                      second: '2-digit',
+                                      hour12: false
+                                    })}
+                                  </span>
+                                  <span className={`ml-1 px-1 rounded ${
+                                    event.source === 'staff'
+                                      ? 'bg-purple-100 text-purple-600'
+                                      : 'bg-gray-100 text-gray-600'
+                                  }`}>
+                                    {event.source === 'staff' ? (event.staff?.name ?? 'Staff') : 'Portal'}
+                                  </span>
+                                  <span className="ml-1">
+                                    {event.source === 'staff'
+                                      ? `${event.fromStatus ? `${stageLabel(event.fromStatus)} → ` : ''}${stageLabel(event.toStatus)}`
+                                      : event.fromStatus ? `${event.fromStatus} → ${event.toStatus}` : event.toStatus}
+                                  </span>
+                                </li>
+                              ))}
+                            </ol>
+                          )}
                         </div>
                       )}
 
                 </div>
 
-                {/* Actions */}
-                    <div className="px-2 py-2 bg-gray-50 border-t border-gray-200">
-                  <button
-                    onClick={() => toggleDeliveryStatus(order.orderId, order.isDelivered || false)}
-                        className={`w-full inline-flex justify-center items-center px-2 py-1.5 rounded-md text-sm font-medium text-white shadow-sm transition-colors duration-200 ${
-                      order.isDelivered 
-                        ? 'bg-blue-600 hover:bg-blue-700' 
-                        : 'bg-green-600 hover:bg-green-700'
-                    }`}
-                  >
-                        {order.isDelivered 
-                          ? (activeTab === 'delivered' ? 'Send Back' : 'Not Delivered')
-                          : 'Delivered'}
-                  </button>
+                {/* Driver */}
+                    {can(role, 'orders.assign') ? (
+                      <div className="px-2 py-1.5 bg-gray-50 border-t border-gray-200 flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={selectedOrderIds.has(order.orderId)}
+                          onChange={() => toggleOrderSelection(order.orderId)}
+                          disabled={isClosedStage(order.stage)}
+                          className="h-4 w-4"
+                          title="Select to assign several orders at once"
+                        />
+                        <span className="text-xs text-gray-500">Driver</span>
+                        <select
+                          value={order.driver?.id ?? ''}
+                          onChange={(e) => assignOrders([order.orderId], e.target.value || null)}
+                          disabled={isClosedStage(order.stage)}
+                          className="flex-1 px-1 py-0.5 text-sm text-gray-900 border border-gray-300 rounded-md disabled:bg-gray-100"
+                        >
+                          <option value="">Unassigned</option>
+                          {order.driver && !drivers.some(driver => driver.id === order.driver?.id) && (
+                            <option value={order.driver.id}>{order.driver.name}</option>
+                          )}
+                          {drivers.map(driver => (
+                            <option key={driver.id} value={driver.id}>{driver.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ) : order.driver && (
+                      <div className="px-2 py-1.5 bg-gray-50 border-t border-gray-200 text-sm text-gray-700">
+                        <span className="text-xs text-gray-500 mr-2">Driver</span>
+                        {order.driver.name}
+                      </div>
+                    )}
+
+                {/* Actions: the next stage first, then undo and cancel */}
+                    {(stageMoves(order).length > 0 || can(role, 'orders.print') || can(role, 'receipts.issue')) && (
+                    <div className="px-2 py-2 bg-gray-50 border-t border-gray-200 space-y-1">
+                      {stageMoves(order).includes(nextStage(order.stage) as OrderStage) && (
+                        <button
+                          onClick={() => moveOrder(order.orderId, nextStage(order.stage) as OrderStage)}
+                          className="w-full inline-flex justify-center items-center px-2 py-1.5 rounded-md text-sm font-medium text-white shadow-sm transition-colors duration-200 bg-green-600 hover:bg-green-700"
+                        >
+                          {STAGE_LABELS[nextStage(order.stage) as OrderStage]}
+                        </button>
+                      )}
+                      <div className="flex gap-1">
+                        {stageMoves(order).filter(to => to !== nextStage(order.stage)).map(to => (
+                          <button
+                            key={to}
+                            onClick={() => moveOrder(order.orderId, to)}
+                            className={`flex-1 px-2 py-1 rounded-md text-xs font-medium border transition-colors duration-200 ${
+                              to === 'cancelled'
+                                ? 'border-red-200 text-red-600 hover:bg-red-50'
+                                : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                            }`}
+                          >
+                            {to === 'cancelled' ? 'Cancel' : `Back to ${STAGE_LABELS[to]}`}
+                          </button>
+                        ))}
+                        {can(role, 'orders.print') && (
+                          <button
+                            onClick={() => reprintOrder(order.orderId)}
+                            title={order.printJobs[0]?.status === 'failed' ? `Last print failed: ${order.printJobs[0].error}` : undefined}
+                            className={`flex-1 px-2 py-1 rounded-md text-xs font-medium border transition-colors duration-200 ${
+                              order.printJobs[0]?.status === 'failed'
+                                ? 'border-red-300 bg-red-50 text-red-700 hover:bg-red-100'
+                                : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                            }`}
+                          >
+                            {order.printJobs[0]?.status === 'failed' ? 'Print failed - Retry' : 'Reprint'}
+                          </button>
+                        )}
+                        {can(role, 'receipts.issue') && (
+                          <button
+                            onClick={() => order.receipt ? printReceipt(order.receipt.id) : issueReceipt(order)}
+                            title={order.receipt ? `Issued to ${order.receipt.addressee}; printed ${order.receipt.printCount} times` : undefined}
+                            className="flex-1 px-2 py-1 rounded-md text-xs font-medium border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors duration-200"
+                          >
+                            {order.receipt ? '領収書 再発行' : '領収書'}
+                          </button>
+                        )}
+                      </div>
                     </div>
+                    )}
                   </div>
                 </div>
               </div>
             ))}
+            </section>
+              );
+            })}
           </div>
           {orders.length === 0 && (
             <div className="text-center py-12 bg-white rounded-lg shadow-sm">
               <p className="text-gray-500">
-                {monitoring ? 'No orders found. Monitoring is active.' : 'No orders found. Please login to fetch orders.'}
+                {selectedDate !== null
+                  ? `No orders on ${selectedDate}.`
+                  : monitoring ? 'No orders found. Monitoring is active.' : 'No orders found. Please login to fetch orders.'}
               </p>
             </div>
           )}
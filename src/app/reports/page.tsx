@@ -0,0 +1,366 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import toast, { Toaster } from 'react-hot-toast';
+
+interface SalesFigures {
+  orders: number;
+  sales: number;
+}
+
+interface DailyReport {
+  businessDate: string;
+  generatedAt: string;
+  totalOrders: number;
+  grossSales: number;
+  averageTicket: number;
+  byPaymentMethod: (SalesFigures & { category: string; label: string })[];
+  reserved: SalesFigures;
+  immediate: SalesFigures;
+  cancelled: SalesFigures;
+  byStore: (SalesFigures & { storeId: string | null; name: string })[];
+}
+
+interface ReportSnapshot {
+  report: DailyReport;
+  savedAt: string;
+  // null for snapshots saved automatically by earlier versions
+  savedBy: { id: string; name: string } | null;
+}
+
+const NO_CACHE_HEADERS = {
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+  'Pragma': 'no-cache',
+  'Expires': '0'
+};
+
+const formatYen = (amount: number) => `¥${amount.toLocaleString('ja-JP')}`;
+
+// Step a YYYY-MM-DD business date by whole days
+const shiftBusinessDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+const FiguresRow = ({ label, figures, total }: { label: string; figures: SalesFigures; total: number }) => (
+  <tr className="border-t border-gray-200">
+    <td className="py-1.5 text-gray-900">{label}</td>
+    <td className="py-1.5 text-right tabular-nums text-gray-900">{figures.orders}</td>
+    <td className="py-1.5 text-right tabular-nums text-gray-900">{formatYen(figures.sales)}</td>
+    <td className="py-1.5 text-right tabular-nums text-gray-500">
+      {total > 0 ? `${Math.round(figures.sales / total * 100)}%` : '-'}
+    </td>
+  </tr>
+);
+
+const FiguresTable = ({ title, rows, total }: { title: string; rows: { label: string; figures: SalesFigures }[]; total: number }) => (
+  <section className="bg-white rounded-lg shadow-sm p-4 print:shadow-none print:p-0">
+    <h2 className="text-base font-bold text-gray-900 mb-2">{title}</h2>
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-gray-500">
+          <th className="text-left font-medium pb-1"></th>
+          <th className="text-right font-medium pb-1">Orders</th>
+          <th className="text-right font-medium pb-1">Sales</th>
+          <th className="text-right font-medium pb-1">Share</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => <FiguresRow key={row.label} label={row.label} figures={row.figures} total={total} />)}
+      </tbody>
+    </table>
+  </section>
+);
+
+// End-of-day (Z) report. Shows the saved snapshot for a closed day, or the
+// live figures, and prints on a single sheet.
+export default function Reports() {
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [businessDate, setBusinessDate] = useState('');
+  const [currentBusinessDate, setCurrentBusinessDate] = useState('');
+  const [liveReport, setLiveReport] = useState<DailyReport | null>(null);
+  const [snapshot, setSnapshot] = useState<ReportSnapshot | null>(null);
+  const [showLive, setShowLive] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // Journal export for the accounting software; empty dates follow the day shown
+  const [journalRange, setJournalRange] = useState({ from: '', to: '' });
+  const [journalFormat, setJournalFormat] = useState<'freee' | 'moneyforward'>('freee');
+  const [journalGranularity, setJournalGranularity] = useState<'day' | 'order'>('day');
+  const [exporting, setExporting] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = selectedDate ? `?date=${selectedDate}` : '';
+      const response = await fetch(`/api/reports/daily${params}`, { cache: 'no-store', headers: NO_CACHE_HEADERS });
+      if (response.status === 401) {
+        window.location.href = '/login?next=/reports';
+        return;
+      }
+      const data = await response.json();
+      if (data.success) {
+        setBusinessDate(data.businessDate);
+        setCurrentBusinessDate(data.currentBusinessDate);
+        setLiveReport(data.report);
+        setSnapshot(data.snapshot);
+        setShowLive(!data.snapshot);
+      } else {
+        toast.error(data.error || 'Failed to load report');
+      }
+    } catch (error) {
+      console.error('Error loading report:', error);
+      toast.error('Failed to load report');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDate]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const handleSaveSnapshot = async () => {
+    if (snapshot && !confirm(`Replace the snapshot saved ${new Date(snapshot.savedAt).toLocaleString('ja-JP')}?`)) {
+      return;
+    }
+    setSaving(true);
+    try {
+      const response = await fetch('/api/reports/daily', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ date: businessDate })
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Saved the report for ${businessDate}`);
+        setSnapshot(data.snapshot);
+        setShowLive(false);
+      } else {
+        toast.error(data.error || 'Failed to save report');
+      }
+    } catch (error) {
+      console.error('Error saving report:', error);
+      toast.error('Failed to save report');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The month so far, up to the day shown
+  const journalFrom = journalRange.from || (businessDate ? `${businessDate.slice(0, 8)}01` : '');
+  const journalTo = journalRange.to || businessDate;
+
+  const handleExportJournal = async () => {
+    setExporting(true);
+    try {
+      const params = new URLSearchParams({ from: journalFrom, to: journalTo, format: journalFormat, granularity: journalGranularity });
+      const response = await fetch(`/api/accounting/journal?${params}`, { cache: 'no-store', headers: NO_CACHE_HEADERS });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to export journal');
+      }
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'journal.csv';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: unknown) {
+      console.error('Journal export error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export journal');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const report = showLive || !snapshot ? liveReport : snapshot.report;
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      <Toaster position="top-right" />
+
+      <header className="bg-white shadow-sm print:hidden">
+        <div className="max-w-3xl mx-auto px-4 py-2 flex justify-between items-center">
+          <h1 className="text-3xl font-black" style={{ color: '#E83434' }}>Daily report</h1>
+          <Link href="/" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+            Back to dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-6 space-y-4 print:py-0">
+        <div className="flex flex-wrap items-center justify-between gap-2 print:hidden">
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => businessDate && setSelectedDate(shiftBusinessDate(businessDate, -1))}
+              disabled={!businessDate}
+              className="px-2 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              ◀
+            </button>
+            <input
+              type="date"
+              value={businessDate}
+              max={currentBusinessDate}
+              onChange={(e) => e.target.value && setSelectedDate(e.target.value === currentBusinessDate ? null : e.target.value)}
+              className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm"
+            />
+            <button
+              type="button"
+              onClick={() => {
+                const nextDate = shiftBusinessDate(businessDate, 1);
+                setSelectedDate(nextDate === currentBusinessDate ? null : nextDate);
+              }}
+              disabled={!businessDate || businessDate >= currentBusinessDate}
+              className="px-2 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              ▶
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleSaveSnapshot}
+              disabled={saving || loading}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {snapshot ? 'Save again' : 'Close day'}
+            </button>
+            <button
+              type="button"
+              onClick={() => window.print()}
+              disabled={!report}
+              className="px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              Print
+            </button>
+          </div>
+        </div>
+
+        {snapshot && (
+          <div className="flex items-center justify-between rounded-md border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 print:hidden">
+            <span>
+              Snapshot saved {new Date(snapshot.savedAt).toLocaleString('ja-JP')}
+              {snapshot.savedBy ? ` by ${snapshot.savedBy.name}` : ' automatically'}
+            </span>
+            <button
+              type="button"
+              onClick={() => setShowLive(prev => !prev)}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              {showLive ? 'Show snapshot' : 'Show live figures'}
+            </button>
+          </div>
+        )}
+
+        {loading && !report ? (
+          <div className="flex items-center gap-2">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+            <span className="text-sm text-gray-600">Loading...</span>
+          </div>
+        ) : report && (
+          <>
+            <div className="hidden print:block">
+              <h1 className="text-xl font-bold text-gray-900">Daily report {report.businessDate}</h1>
+              <p className="text-xs text-gray-600">
+                {showLive || !snapshot ? 'Live figures' : 'Snapshot'} as of {new Date(report.generatedAt).toLocaleString('ja-JP')}
+              </p>
+            </div>
+
+            <section className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {[
+                { label: 'Gross sales', value: formatYen(report.grossSales) },
+                { label: 'Orders', value: String(report.totalOrders - report.cancelled.orders) },
+                { label: 'Average ticket', value: formatYen(report.averageTicket) },
+                { label: 'Cancelled', value: `${report.cancelled.orders} (${formatYen(report.cancelled.sales)})` }
+              ].map(({ label, value }) => (
+                <div key={label} className="bg-white rounded-lg shadow-sm p-3 print:shadow-none print:border print:border-gray-300">
+                  <div className="text-xs text-gray-500">{label}</div>
+                  <div className="text-xl font-bold text-gray-900 tabular-nums">{value}</div>
+                </div>
+              ))}
+            </section>
+            <p className="text-xs text-gray-500">
+              {report.totalOrders} orders taken in all. Sales, order count and average ticket leave cancelled orders out.
+            </p>
+
+            <FiguresTable
+              title="By payment method"
+              rows={report.byPaymentMethod.map(figures => ({ label: figures.label, figures }))}
+              total={report.grossSales}
+            />
+            <FiguresTable
+              title="Reserved and immediate"
+              rows={[
+                { label: 'Reserved', figures: report.reserved },
+                { label: 'Immediate', figures: report.immediate }
+              ]}
+              total={report.grossSales}
+            />
+            {report.byStore.length > 1 && (
+              <FiguresTable
+                title="By store"
+                rows={report.byStore.map(figures => ({ label: figures.name, figures }))}
+                total={report.grossSales}
+              />
+            )}
+          </>
+        )}
+
+        <section className="bg-white rounded-lg shadow-sm p-4 print:hidden">
+          <h2 className="text-base font-bold text-gray-900 mb-1">Accounting export</h2>
+          <p className="text-xs text-gray-500 mb-3">
+            Sales as a journal import CSV (Shift_JIS). Cancelled orders are left out. The accounts are set on the Settings page.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              value={journalFrom}
+              max={journalTo}
+              onChange={(e) => e.target.value && setJournalRange({ from: e.target.value, to: journalTo })}
+              className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm"
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <input
+              type="date"
+              value={journalTo}
+              min={journalFrom}
+              max={currentBusinessDate}
+              onChange={(e) => e.target.value && setJournalRange({ from: journalFrom, to: e.target.value })}
+              className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm"
+            />
+            <select
+              value={journalFormat}
+              onChange={(e) => setJournalFormat(e.target.value as 'freee' | 'moneyforward')}
+              className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm"
+            >
+              <option value="freee">freee</option>
+              <option value="moneyforward">Money Forward</option>
+            </select>
+            <select
+              value={journalGranularity}
+              onChange={(e) => setJournalGranularity(e.target.value as 'day' | 'order')}
+              className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm"
+            >
+              <option value="day">One entry per day and payment method</option>
+              <option value="order">One entry per order</option>
+            </select>
+            <button
+              type="button"
+              onClick={handleExportJournal}
+              disabled={exporting || !journalFrom || !journalTo}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              Download
+            </button>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,1437 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import toast, { Toaster } from 'react-hot-toast';
+import { can, STAFF_ROLE_LABELS, STAFF_ROLES, StaffRole } from '@/utils/permissions';
+import {
+  OrderRuleConfig,
+  RULE_BORDER_STYLES,
+  RULE_COLOR_VALUES,
+  RULE_COLORS,
+  RULE_FIELD_LABELS,
+  RULE_FIELDS,
+  RULE_MATCH_TYPE_LABELS,
+  RULE_MATCH_TYPES,
+  RULE_PRINTER_ACTION_LABELS,
+  RULE_PRINTER_ACTIONS,
+  RULE_SOUNDS,
+  checkRulePattern
+} from '@/utils/orderRules';
+import { playSound } from '@/utils/sounds';
+
+interface StoreAccount {
+  id: string;
+  name: string;
+  accountEmail: string;
+  hasCredentials: boolean;
+  credentialsUpdatedAt: string | null;
+  // Printed on receipts; empty until set
+  invoiceRegistrationNumber: string;
+}
+
+interface StaffAccount {
+  id: string;
+  name: string;
+  role: StaffRole;
+  active: boolean;
+}
+
+interface DriverAccount {
+  id: string;
+  name: string;
+  phone: string;
+  active: boolean;
+  // Staff account the driver signs in with
+  staff: { id: string; name: string } | null;
+}
+
+interface PrinterConfig {
+  id: string;
+  name: string;
+  host: string;
+  port: number;
+  // null prints every store's orders
+  storeId: string | null;
+  autoPrint: boolean;
+  copies: number;
+  // Empty uses the default template
+  template: string;
+  active: boolean;
+}
+
+interface JournalAccount {
+  // 'sales', or the payment category it is debited for
+  key: string;
+  label: string;
+  account: string;
+  subAccount: string;
+  taxCategory: string;
+}
+
+interface OrderRule extends OrderRuleConfig {
+  position: number;
+  active: boolean;
+}
+
+// A rule being added (no id) or edited
+type RuleDraft = Omit<OrderRuleConfig, 'id'> & { id?: string };
+
+const NEW_RULE: RuleDraft = {
+  name: '',
+  field: 'notes',
+  matchType: 'keywords',
+  pattern: '',
+  badgeLabel: '',
+  color: 'red',
+  borderStyle: 'none',
+  sound: 'none',
+  printerAction: 'none'
+};
+
+const NO_CACHE_HEADERS = {
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+  'Pragma': 'no-cache',
+  'Expires': '0'
+};
+
+const inputClassName = 'w-full px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 placeholder:text-gray-600 disabled:bg-gray-100 disabled:text-gray-500 disabled:cursor-not-allowed';
+const buttonClassName = 'px-3 py-1 text-sm bg-blue-600 text-white rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap';
+
+// Merchant accounts, staff, drivers, printers, badge rules and accounting accounts. Portal passwords are sent here once and kept
+// encrypted on the server; the dashboard and tablets never see them again.
+export default function Settings() {
+  const [stores, setStores] = useState<StoreAccount[]>([]);
+  const [keyConfigured, setKeyConfigured] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  // Replacement password being typed for each store
+  const [rotatedPasswords, setRotatedPasswords] = useState<Record<string, string>>({});
+  // Registration number being edited for each store
+  const [registrationNumbers, setRegistrationNumbers] = useState<Record<string, string>>({});
+  const [staff, setStaff] = useState<StaffAccount[]>([]);
+  const [newStaffName, setNewStaffName] = useState('');
+  const [newStaffPin, setNewStaffPin] = useState('');
+  const [newStaffRole, setNewStaffRole] = useState<StaffRole>('kitchen');
+  const [drivers, setDrivers] = useState<DriverAccount[]>([]);
+  const [newDriverName, setNewDriverName] = useState('');
+  const [newDriverPhone, setNewDriverPhone] = useState('');
+  const [printers, setPrinters] = useState<PrinterConfig[]>([]);
+  const [defaultTemplate, setDefaultTemplate] = useState('');
+  const [templateFields, setTemplateFields] = useState<Record<string, string>>({});
+  const [newPrinterName, setNewPrinterName] = useState('');
+  const [newPrinterHost, setNewPrinterHost] = useState('');
+  const [newPrinterPort, setNewPrinterPort] = useState('9100');
+  // Accounts for the journal export, as edited
+  const [journalAccounts, setJournalAccounts] = useState<JournalAccount[]>([]);
+  const [rules, setRules] = useState<OrderRule[]>([]);
+  const [editingRule, setEditingRule] = useState<RuleDraft | null>(null);
+  // Template being edited, for one printer at a time
+  const [editingTemplate, setEditingTemplate] = useState<{ printerId: string; text: string } | null>(null);
+  // null until the session has loaded
+  const [currentStaff, setCurrentStaff] = useState<StaffAccount | null>(null);
+
+  const fetchStores = useCallback(async () => {
+    try {
+      const response = await fetch('/api/stores', { cache: 'no-store', headers: NO_CACHE_HEADERS });
+      const data = await response.json();
+      if (data.success) {
+        setStores(data.stores);
+        setKeyConfigured(data.credentialsKeyConfigured);
+      } else {
+        toast.error(data.error || 'Failed to load stores');
+      }
+    } catch (error) {
+      console.error('Error fetching stores:', error);
+      toast.error('Failed to load stores');
+    }
+  }, []);
+
+  const fetchDrivers = useCallback(async () => {
+    try {
+      const response = await fetch('/api/drivers', { cache: 'no-store', headers: NO_CACHE_HEADERS });
+      const data = await response.json();
+      if (data.success) {
+        setDrivers(data.drivers);
+      } else {
+        toast.error(data.error || 'Failed to load drivers');
+      }
+    } catch (error) {
+      console.error('Error fetching drivers:', error);
+      toast.error('Failed to load drivers');
+    }
+  }, []);
+
+  const fetchPrinters = useCallback(async () => {
+    try {
+      const response = await fetch('/api/printers', { cache: 'no-store', headers: NO_CACHE_HEADERS });
+      const data = await response.json();
+      if (data.success) {
+        setPrinters(data.printers);
+        setDefaultTemplate(data.defaultTemplate);
+        setTemplateFields(data.templateFields);
+      } else {
+        toast.error(data.error || 'Failed to load printers');
+      }
+    } catch (error) {
+      console.error('Error fetching printers:', error);
+      toast.error('Failed to load printers');
+    }
+  }, []);
+
+  const fetchJournalAccounts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/accounting/accounts', { cache: 'no-store', headers: NO_CACHE_HEADERS });
+      const data = await response.json();
+      if (data.success) {
+        setJournalAccounts(data.accounts);
+      } else {
+        toast.error(data.error || 'Failed to load accounts');
+      }
+    } catch (error) {
+      console.error('Error fetching journal accounts:', error);
+      toast.error('Failed to load accounts');
+    }
+  }, []);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/rules', { cache: 'no-store', headers: NO_CACHE_HEADERS });
+      const data = await response.json();
+      if (data.success) {
+        setRules(data.rules);
+      } else {
+        toast.error(data.error || 'Failed to load rules');
+      }
+    } catch (error) {
+      console.error('Error fetching rules:', error);
+      toast.error('Failed to load rules');
+    }
+  }, []);
+
+  const fetchStaff = useCallback(async () => {
+    try {
+      const response = await fetch('/api/staff', { cache: 'no-store', headers: NO_CACHE_HEADERS });
+      const data = await response.json();
+      if (data.success) {
+        setStaff(data.staff);
+      } else {
+        toast.error(data.error || 'Failed to load staff');
+      }
+    } catch (error) {
+      console.error('Error fetching staff:', error);
+      toast.error('Failed to load staff');
+    }
+  }, []);
+
+  useEffect(() => {
+    const initialize = async () => {
+      try {
+        const response = await fetch('/api/auth/session', { cache: 'no-store', headers: NO_CACHE_HEADERS });
+        const data = await response.json();
+        if (!data.success) {
+          window.location.href = '/login';
+          return;
+        }
+        setCurrentStaff(data.staff);
+        if (can(data.staff.role, 'settings.manage')) {
+          await Promise.all([fetchStores(), fetchStaff(), fetchDrivers(), fetchPrinters(), fetchJournalAccounts(), fetchRules()]);
+        }
+      } catch (error) {
+        console.error('Error loading settings:', error);
+        toast.error('Failed to load settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+    initialize();
+  }, [fetchStores, fetchStaff, fetchDrivers, fetchPrinters, fetchJournalAccounts, fetchRules]);
+
+  const handleAddStore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newEmail || !newPassword) {
+      toast.error('Email and password are required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/stores', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ accountEmail: newEmail, password: newPassword })
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Saved credentials for ${data.store.accountEmail}`);
+        setNewEmail('');
+        setNewPassword('');
+        await fetchStores();
+      } else {
+        toast.error(data.error || 'Failed to save credentials');
+      }
+    } catch (error) {
+      console.error('Error saving credentials:', error);
+      toast.error('Failed to save credentials');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRotatePassword = async (store: StoreAccount) => {
+    const password = rotatedPasswords[store.id];
+    if (!password) {
+      toast.error('Enter the new password first');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/stores/${store.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ password })
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Password updated for ${store.accountEmail}`);
+        setRotatedPasswords(prev => {
+          const next = { ...prev };
+          delete next[store.id];
+          return next;
+        });
+        await fetchStores();
+      } else {
+        toast.error(data.error || 'Failed to update password');
+      }
+    } catch (error) {
+      console.error('Error updating password:', error);
+      toast.error('Failed to update password');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveRegistrationNumber = async (store: StoreAccount) => {
+    const invoiceRegistrationNumber = registrationNumbers[store.id] ?? store.invoiceRegistrationNumber;
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/stores/${store.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ invoiceRegistrationNumber })
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Registration number saved for ${store.name || store.accountEmail}`);
+        setRegistrationNumbers(prev => {
+          const next = { ...prev };
+          delete next[store.id];
+          return next;
+        });
+        await fetchStores();
+      } else {
+        toast.error(data.error || 'Failed to save registration number');
+      }
+    } catch (error) {
+      console.error('Error saving registration number:', error);
+      toast.error('Failed to save registration number');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddStaff = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch('/api/staff', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ name: newStaffName, pin: newStaffPin, role: newStaffRole })
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Added ${data.staff.name}`);
+        setNewStaffName('');
+        setNewStaffPin('');
+        await fetchStaff();
+      } else {
+        toast.error(data.error || 'Failed to add staff member');
+      }
+    } catch (error) {
+      console.error('Error adding staff:', error);
+      toast.error('Failed to add staff member');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateStaff = async (member: StaffAccount, changes: { pin?: string; role?: StaffRole; active?: boolean }, successMessage: string) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/staff/${member.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify(changes)
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(successMessage);
+        await fetchStaff();
+      } else {
+        toast.error(data.error || 'Failed to update staff member');
+      }
+    } catch (error) {
+      console.error('Error updating staff:', error);
+      toast.error('Failed to update staff member');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResetPin = (member: StaffAccount) => {
+    const pin = prompt(`New 4-8 digit PIN for ${member.name}`);
+    if (pin) {
+      // Reactivating needs a fresh PIN anyway
+      updateStaff(member, member.active ? { pin } : { pin, active: true }, `PIN updated for ${member.name}`);
+    }
+  };
+
+  const handleAddDriver = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch('/api/drivers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ name: newDriverName, phone: newDriverPhone })
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Added driver ${data.driver.name}`);
+        setNewDriverName('');
+        setNewDriverPhone('');
+        await fetchDrivers();
+      } else {
+        toast.error(data.error || 'Failed to add driver');
+      }
+    } catch (error) {
+      console.error('Error adding driver:', error);
+      toast.error('Failed to add driver');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateDriver = async (driver: DriverAccount, changes: { staffId?: string | null; active?: boolean }, successMessage: string) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/drivers/${driver.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify(changes)
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(successMessage);
+        await fetchDrivers();
+      } else {
+        toast.error(data.error || 'Failed to update driver');
+      }
+    } catch (error) {
+      console.error('Error updating driver:', error);
+      toast.error('Failed to update driver');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddPrinter = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch('/api/printers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ name: newPrinterName, host: newPrinterHost, port: Number(newPrinterPort) })
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Added printer ${data.printer.name}`);
+        setNewPrinterName('');
+        setNewPrinterHost('');
+        setNewPrinterPort('9100');
+        await fetchPrinters();
+      } else {
+        toast.error(data.error || 'Failed to add printer');
+      }
+    } catch (error) {
+      console.error('Error adding printer:', error);
+      toast.error('Failed to add printer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updatePrinter = async (
+    printer: PrinterConfig,
+    changes: { storeId?: string | null; autoPrint?: boolean; copies?: number; template?: string; active?: boolean },
+    successMessage: string
+  ) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/printers/${printer.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify(changes)
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(successMessage);
+        await fetchPrinters();
+        return true;
+      }
+      toast.error(data.error || 'Failed to update printer');
+    } catch (error) {
+      console.error('Error updating printer:', error);
+      toast.error('Failed to update printer');
+    } finally {
+      setSaving(false);
+    }
+    return false;
+  };
+
+  const handleTestPrint = async (printer: PrinterConfig) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/printers/${printer.id}/test`, {
+        method: 'POST',
+        headers: NO_CACHE_HEADERS
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Sent a test ticket to ${printer.name}`);
+      } else {
+        toast.error(data.error || 'Test print failed');
+      }
+    } catch (error) {
+      console.error('Error printing test ticket:', error);
+      toast.error('Test print failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveTemplate = async (printer: PrinterConfig, template: string) => {
+    if (await updatePrinter(printer, { template }, `Saved ${printer.name}'s template`)) {
+      setEditingTemplate(null);
+    }
+  };
+
+  const updateJournalAccount = (key: string, changes: Partial<JournalAccount>) => {
+    setJournalAccounts(prev => prev.map(account => account.key === key ? { ...account, ...changes } : account));
+  };
+
+  const handleSaveJournalAccounts = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch('/api/accounting/accounts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({
+          accounts: Object.fromEntries(journalAccounts.map(({ key, account, subAccount, taxCategory }) => [key, { account, subAccount, taxCategory }]))
+        })
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success('Saved the accounting accounts');
+        setJournalAccounts(data.accounts);
+      } else {
+        toast.error(data.error || 'Failed to save accounts');
+      }
+    } catch (error) {
+      console.error('Error saving journal accounts:', error);
+      toast.error('Failed to save accounts');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingRule) {
+      return;
+    }
+    const { id, ...settings } = editingRule;
+    setSaving(true);
+    try {
+      const response = await fetch(id ? `/api/rules/${id}` : '/api/rules', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify(settings)
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(id ? `Saved ${data.rule.name}` : `Added ${data.rule.name}`);
+        setEditingRule(null);
+        await fetchRules();
+      } else {
+        toast.error(data.error || 'Failed to save rule');
+      }
+    } catch (error) {
+      console.error('Error saving rule:', error);
+      toast.error('Failed to save rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: OrderRule) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/rules/${rule.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ active: !rule.active })
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`${rule.active ? 'Turned off' : 'Turned on'} ${rule.name}`);
+        await fetchRules();
+      } else {
+        toast.error(data.error || 'Failed to update rule');
+      }
+    } catch (error) {
+      console.error('Error updating rule:', error);
+      toast.error('Failed to update rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMoveRule = async (index: number, offset: number) => {
+    const ruleIds = rules.map(rule => rule.id);
+    [ruleIds[index], ruleIds[index + offset]] = [ruleIds[index + offset], ruleIds[index]];
+    setSaving(true);
+    try {
+      const response = await fetch('/api/rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...NO_CACHE_HEADERS },
+        body: JSON.stringify({ ruleIds })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setRules(data.rules);
+      } else {
+        toast.error(data.error || 'Failed to reorder rules');
+      }
+    } catch (error) {
+      console.error('Error reordering rules:', error);
+      toast.error('Failed to reorder rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRule = async (rule: OrderRule) => {
+    if (!confirm(`Remove the rule ${rule.name}?`)) {
+      return;
+    }
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/rules/${rule.id}`, { method: 'DELETE', headers: NO_CACHE_HEADERS });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Removed ${rule.name}`);
+        await fetchRules();
+      } else {
+        toast.error(data.error || 'Failed to remove rule');
+      }
+    } catch (error) {
+      console.error('Error deleting rule:', error);
+      toast.error('Failed to remove rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeactivate = (member: StaffAccount) => {
+    if (confirm(`Deactivate ${member.name}? They will no longer be able to sign in.`)) {
+      updateStaff(member, { active: false }, `Deactivated ${member.name}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Toaster position="top-right" />
+
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 py-2 flex justify-between items-center">
+          <h1 className="text-3xl font-black" style={{ color: '#E83434' }}>Settings</h1>
+          <Link href="/" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+            Back to dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-6 space-y-6">
+        {currentStaff && !can(currentStaff.role, 'settings.manage') ? (
+          <div className="rounded-md border border-gray-200 bg-white p-4 text-sm text-gray-700">
+            Only managers can change settings.
+          </div>
+        ) : (
+        <>
+        {!keyConfigured && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+            CREDENTIALS_KEY is not set on the server, so passwords cannot be saved or used.
+          </div>
+        )}
+
+        <section className="bg-white rounded-lg shadow-sm p-4">
+          <h2 className="text-lg font-bold text-gray-900 mb-1">Merchant accounts</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Passwords are stored encrypted on the server. A new password is used the next time
+            the monitor logs in; monitoring does not need to be restarted.
+          </p>
+
+          {loading ? (
+            <div className="flex items-center gap-2">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+              <span className="text-sm text-gray-600">Loading...</span>
+            </div>
+          ) : stores.length === 0 ? (
+            <p className="text-sm text-gray-500">No accounts yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {stores.map(store => (
+                <li key={store.id} className="py-3 flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{store.name || store.accountEmail}</div>
+                    <div className="text-xs text-gray-500">
+                      {store.accountEmail} ·{' '}
+                      {store.hasCredentials && store.credentialsUpdatedAt
+                        ? `Password saved ${new Date(store.credentialsUpdatedAt).toLocaleString('ja-JP')}`
+                        : 'No password saved'}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-48">
+                      <input
+                        type="password"
+                        value={rotatedPasswords[store.id] ?? ''}
+                        onChange={(e) => setRotatedPasswords(prev => ({ ...prev, [store.id]: e.target.value }))}
+                        placeholder="New password"
+                        autoComplete="new-password"
+                        className={inputClassName}
+                        disabled={saving}
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleRotatePassword(store)}
+                      disabled={saving || !rotatedPasswords[store.id]}
+                      className={buttonClassName}
+                    >
+                      {store.hasCredentials ? 'Change' : 'Save'}
+                    </button>
+                  </div>
+                  <div className="w-full flex items-center justify-end gap-2">
+                    <span className="text-xs text-gray-500">Invoice registration no. (receipts)</span>
+                    <div className="w-48">
+                      <input
+                        type="text"
+                        value={registrationNumbers[store.id] ?? store.invoiceRegistrationNumber}
+                        onChange={(e) => setRegistrationNumbers(prev => ({ ...prev, [store.id]: e.target.value }))}
+                        placeholder="T1234567890123"
+                        className={inputClassName}
+                        disabled={saving}
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleSaveRegistrationNumber(store)}
+                      disabled={saving || registrationNumbers[store.id] === undefined}
+                      className={buttonClassName}
+                    >
+                      Save
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="bg-white rounded-lg shadow-sm p-4">
+          <h2 className="text-lg font-bold text-gray-900 mb-4">Add account</h2>
+          <form onSubmit={handleAddStore} className="flex flex-wrap items-center gap-2">
+            <div className="w-56">
+              <input
+                type="email"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                placeholder="Portal email"
+                className={inputClassName}
+                required
+                disabled={saving}
+              />
+            </div>
+            <div className="w-48">
+              <input
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder="Password"
+                autoComplete="new-password"
+                className={inputClassName}
+                required
+                disabled={saving}
+              />
+            </div>
+            <button type="submit" disabled={saving} className={buttonClassName}>
+              Save
+            </button>
+          </form>
+        </section>
+        <section className="bg-white rounded-lg shadow-sm p-4">
+          <h2 className="text-lg font-bold text-gray-900 mb-1">Staff</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Everyone signs in with their own PIN, and changes to orders are recorded under their name.
+          </p>
+
+          <ul className="divide-y divide-gray-200 mb-4">
+            {staff.map(member => (
+              <li key={member.id} className="py-2 flex items-center justify-between gap-2">
+                <span className={`text-sm font-medium ${member.active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                  {member.name}
+                </span>
+                <div className="flex items-center gap-3">
+                  <select
+                    value={member.role}
+                    onChange={(e) => {
+                      const role = e.target.value as StaffRole;
+                      updateStaff(member, { role }, `${member.name} is now ${STAFF_ROLE_LABELS[role]}`);
+                    }}
+                    disabled={saving || member.id === currentStaff?.id}
+                    className="px-1 py-0.5 text-xs text-gray-900 border border-gray-300 rounded-md disabled:opacity-50"
+                  >
+                    {STAFF_ROLES.map(role => (
+                      <option key={role} value={role}>{STAFF_ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => handleResetPin(member)}
+                    disabled={saving}
+                    className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    {member.active ? 'Reset PIN' : 'Reactivate'}
+                  </button>
+                  {member.active && (
+                    <button
+                      type="button"
+                      onClick={() => handleDeactivate(member)}
+                      disabled={saving}
+                      className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Deactivate
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleAddStaff} className="flex flex-wrap items-center gap-2">
+            <div className="w-56">
+              <input
+                type="text"
+                value={newStaffName}
+                onChange={(e) => setNewStaffName(e.target.value)}
+                placeholder="Name"
+                className={inputClassName}
+                required
+                disabled={saving}
+              />
+            </div>
+            <select
+              value={newStaffRole}
+              onChange={(e) => setNewStaffRole(e.target.value as StaffRole)}
+              className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md shadow-sm"
+              disabled={saving}
+            >
+              {STAFF_ROLES.map(role => (
+                <option key={role} value={role}>{STAFF_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <div className="w-48">
+              <input
+                type="password"
+                inputMode="numeric"
+                value={newStaffPin}
+                onChange={(e) => setNewStaffPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                placeholder="4-8 digit PIN"
+                autoComplete="new-password"
+                className={inputClassName}
+                required
+                disabled={saving}
+              />
+            </div>
+            <button type="submit" disabled={saving} className={buttonClassName}>
+              Add staff
+            </button>
+          </form>
+        </section>
+        <section className="bg-white rounded-lg shadow-sm p-4">
+          <h2 className="text-lg font-bold text-gray-900 mb-1">Drivers</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Link a driver to a driver-role staff account so they can sign in and see their run on /driver.
+          </p>
+
+          <ul className="divide-y divide-gray-200 mb-4">
+            {drivers.map(driver => (
+              <li key={driver.id} className="py-2 flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <div className={`text-sm font-medium ${driver.active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                    {driver.name}
+                  </div>
+                  {driver.phone && <div className="text-xs text-gray-500">{driver.phone}</div>}
+                </div>
+                <div className="flex items-center gap-3">
+                  <select
+                    value={driver.staff?.id ?? ''}
+                    onChange={(e) => updateDriver(driver, { staffId: e.target.value || null }, `Updated ${driver.name}'s sign-in`)}
+                    disabled={saving}
+                    className="px-1 py-0.5 text-xs text-gray-900 border border-gray-300 rounded-md disabled:opacity-50"
+                  >
+                    <option value="">No sign-in</option>
+                    {staff
+                      .filter(member => member.active && member.role === 'driver')
+                      .map(member => (
+                        <option key={member.id} value={member.id}>{member.name}</option>
+                      ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => updateDriver(driver, { active: !driver.active }, `${driver.active ? 'Deactivated' : 'Reactivated'} ${driver.name}`)}
+                    disabled={saving}
+                    className={`text-xs disabled:opacity-50 ${driver.active ? 'text-red-600 hover:text-red-800' : 'text-blue-600 hover:text-blue-800'}`}
+                  >
+                    {driver.active ? 'Deactivate' : 'Reactivate'}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleAddDriver} className="flex flex-wrap items-center gap-2">
+            <div className="w-56">
+              <input
+                type="text"
+                value={newDriverName}
+                onChange={(e) => setNewDriverName(e.target.value)}
+                placeholder="Name"
+                className={inputClassName}
+                required
+                disabled={saving}
+              />
+            </div>
+            <div className="w-48">
+              <input
+                type="tel"
+                value={newDriverPhone}
+                onChange={(e) => setNewDriverPhone(e.target.value)}
+                placeholder="Phone (optional)"
+                className={inputClassName}
+                disabled={saving}
+              />
+            </div>
+            <button type="submit" disabled={saving} className={buttonClassName}>
+              Add driver
+            </button>
+          </form>
+        </section>
+        <section className="bg-white rounded-lg shadow-sm p-4">
+          <h2 className="text-lg font-bold text-gray-900 mb-1">Printers</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Network ESC/POS printers on raw TCP (usually port 9100). Auto-print printers get a kitchen ticket for every new order.
+          </p>
+
+          <ul className="divide-y divide-gray-200 mb-4">
+            {printers.map(printer => (
+              <li key={printer.id} className="py-2 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <div className={`text-sm font-medium ${printer.active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                      {printer.name}
+                    </div>
+                    <div className="text-xs text-gray-500">{printer.host}:{printer.port}</div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <select
+                      value={printer.storeId ?? ''}
+                      onChange={(e) => updatePrinter(printer, { storeId: e.target.value || null }, `Updated ${printer.name}`)}
+                      disabled={saving}
+                      className="px-1 py-0.5 text-xs text-gray-900 border border-gray-300 rounded-md disabled:opacity-50"
+                    >
+                      <option value="">All stores</option>
+                      {stores.map(store => (
+                        <option key={store.id} value={store.id}>{store.name || store.accountEmail}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-1 text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={printer.autoPrint}
+                        onChange={(e) => updatePrinter(printer, { autoPrint: e.target.checked }, `Updated ${printer.name}`)}
+                        disabled={saving}
+                      />
+                      Auto-print
+                    </label>
+                    <select
+                      value={printer.copies}
+                      onChange={(e) => updatePrinter(printer, { copies: Number(e.target.value) }, `Updated ${printer.name}`)}
+                      disabled={saving}
+                      className="px-1 py-0.5 text-xs text-gray-900 border border-gray-300 rounded-md disabled:opacity-50"
+                    >
+                      {[1, 2, 3, 4, 5].map(copies => (
+                        <option key={copies} value={copies}>{copies} {copies === 1 ? 'copy' : 'copies'}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => setEditingTemplate({ printerId: printer.id, text: printer.template || defaultTemplate })}
+                      disabled={saving}
+                      className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      Template
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleTestPrint(printer)}
+                      disabled={saving}
+                      className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      Test print
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => updatePrinter(printer, { active: !printer.active }, `${printer.active ? 'Deactivated' : 'Reactivated'} ${printer.name}`)}
+                      disabled={saving}
+                      className={`text-xs disabled:opacity-50 ${printer.active ? 'text-red-600 hover:text-red-800' : 'text-blue-600 hover:text-blue-800'}`}
+                    >
+                      {printer.active ? 'Deactivate' : 'Reactivate'}
+                    </button>
+                  </div>
+                </div>
+
+                {editingTemplate?.printerId === printer.id && (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editingTemplate.text}
+                      onChange={(e) => setEditingTemplate({ printerId: printer.id, text: e.target.value })}
+                      rows={14}
+                      className={`${inputClassName} font-mono`}
+                      disabled={saving}
+                    />
+                    <div className="text-xs text-gray-600 space-y-1">
+                      <p>
+                        Lines may start with [center], [right], [bold], [large] or [tall]. [line] prints a rule, [feed] a blank line and [cut] cuts the paper.
+                        A line whose fields are all empty is left out.
+                      </p>
+                      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+                        {Object.entries(templateFields).map(([field, description]) => (
+                          <li key={field}><code className="text-gray-900">{`{${field}}`}</code> {description}</li>
+                        ))}
+                      </ul>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleSaveTemplate(printer, editingTemplate.text === defaultTemplate ? '' : editingTemplate.text)}
+                        disabled={saving}
+                        className={buttonClassName}
+                      >
+                        Save template
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingTemplate({ printerId: printer.id, text: defaultTemplate })}
+                        disabled={saving}
+                        className="text-sm text-gray-600 hover:text-gray-900"
+                      >
+                        Reset to default
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingTemplate(null)}
+                        className="text-sm text-gray-600 hover:text-gray-900"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleAddPrinter} className="flex flex-wrap items-center gap-2">
+            <div className="w-48">
+              <input
+                type="text"
+                value={newPrinterName}
+                onChange={(e) => setNewPrinterName(e.target.value)}
+                placeholder="Name (e.g. Kitchen)"
+                className={inputClassName}
+                required
+                disabled={saving}
+              />
+            </div>
+            <div className="w-44">
+              <input
+                type="text"
+                value={newPrinterHost}
+                onChange={(e) => setNewPrinterHost(e.target.value)}
+                placeholder="IP address"
+                className={inputClassName}
+                required
+                disabled={saving}
+              />
+            </div>
+            <div className="w-20">
+              <input
+                type="number"
+                value={newPrinterPort}
+                onChange={(e) => setNewPrinterPort(e.target.value)}
+                min={1}
+                max={65535}
+                className={inputClassName}
+                required
+                disabled={saving}
+              />
+            </div>
+            <button type="submit" disabled={saving} className={buttonClassName}>
+              Add printer
+            </button>
+          </form>
+        </section>
+        <section className="bg-white rounded-lg shadow-sm p-4">
+          <h2 className="text-lg font-bold text-gray-900 mb-1">Badges and highlights</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Rules that pick out orders on the dashboard, checked from the top. The first matching rule with a border
+            outlines the card and a second one in another colour draws a ring around it.
+          </p>
+
+          <ul className="divide-y divide-gray-200 mb-4">
+            {rules.map((rule, index) => (
+              <li key={rule.id} className="py-2 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className={`text-sm font-medium ${rule.active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                      {rule.name}
+                      {rule.badgeLabel && <RuleBadge rule={rule} />}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {RULE_FIELD_LABELS[rule.field]} {RULE_MATCH_TYPE_LABELS[rule.matchType].toLowerCase()}
+                      {rule.matchType !== 'present' && ` ${rule.pattern.split('\n').join(', ')}`}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={() => handleMoveRule(index, -1)}
+                      disabled={saving || index === 0}
+                      className="text-xs text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                      aria-label="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleMoveRule(index, 1)}
+                      disabled={saving || index === rules.length - 1}
+                      className="text-xs text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                      aria-label="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingRule(rule)}
+                      disabled={saving}
+                      className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleToggleRule(rule)}
+                      disabled={saving}
+                      className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      {rule.active ? 'Turn off' : 'Turn on'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteRule(rule)}
+                      disabled={saving}
+                      className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                {editingRule?.id === rule.id && (
+                  <RuleForm
+                    rule={editingRule}
+                    onChange={setEditingRule}
+                    onSubmit={handleSaveRule}
+                    onCancel={() => setEditingRule(null)}
+                    saving={saving}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {editingRule && !editingRule.id ? (
+            <RuleForm
+              rule={editingRule}
+              onChange={setEditingRule}
+              onSubmit={handleSaveRule}
+              onCancel={() => setEditingRule(null)}
+              saving={saving}
+            />
+          ) : (
+            <button type="button" onClick={() => setEditingRule(NEW_RULE)} disabled={saving} className={buttonClassName}>
+              Add rule
+            </button>
+          )}
+        </section>
+        <section className="bg-white rounded-lg shadow-sm p-4">
+          <h2 className="text-lg font-bold text-gray-900 mb-1">Accounting</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Accounts for the freee and Money Forward journal export on the Reports page. Each day&apos;s sales are
+            debited to the account for how they were paid and credited to sales. The sub-account is the 取引先 in
+            freee and the 補助科目 in Money Forward.
+          </p>
+          <form onSubmit={handleSaveJournalAccounts} className="space-y-2">
+            <div className="grid grid-cols-4 gap-2 text-xs text-gray-500">
+              <span></span>
+              <span>Account</span>
+              <span>Sub-account</span>
+              <span>Tax category</span>
+            </div>
+            {journalAccounts.map(account => (
+              <div key={account.key} className="grid grid-cols-4 gap-2 items-center">
+                <span className="text-sm text-gray-900">{account.label}</span>
+                <input
+                  type="text"
+                  value={account.account}
+                  onChange={(e) => updateJournalAccount(account.key, { account: e.target.value })}
+                  className={inputClassName}
+                  required
+                  disabled={saving}
+                />
+                <input
+                  type="text"
+                  value={account.subAccount}
+                  onChange={(e) => updateJournalAccount(account.key, { subAccount: e.target.value })}
+                  className={inputClassName}
+                  disabled={saving}
+                />
+                <input
+                  type="text"
+                  value={account.taxCategory}
+                  onChange={(e) => updateJournalAccount(account.key, { taxCategory: e.target.value })}
+                  className={inputClassName}
+                  disabled={saving}
+                />
+              </div>
+            ))}
+            <button type="submit" disabled={saving || journalAccounts.length === 0} className={buttonClassName}>
+              Save accounts
+            </button>
+          </form>
+        </section>
+        </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function RuleBadge({ rule }: { rule: Pick<OrderRuleConfig, 'badgeLabel' | 'color'> }) {
+  const colors = RULE_COLOR_VALUES[rule.color];
+  return (
+    <span
+      className="ml-1 px-1 py-0.5 rounded-full text-xs font-bold"
+      style={{ backgroundColor: colors.background, color: colors.text }}
+    >
+      {rule.badgeLabel}
+    </span>
+  );
+}
+
+// Form for adding or editing a badge and highlight rule
+function RuleForm({ rule, onChange, onSubmit, onCancel, saving }: {
+  rule: RuleDraft;
+  onChange: (rule: RuleDraft) => void;
+  onSubmit: (e: React.FormEvent) => void;
+  onCancel: () => void;
+  saving: boolean;
+}) {
+  const update = (changes: Partial<RuleDraft>) => onChange({ ...rule, ...changes });
+  const patternError = rule.pattern ? checkRulePattern(rule.matchType, rule.pattern) : null;
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-2 rounded-md border border-gray-200 p-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <label className="text-xs text-gray-600">
+          Name
+          <input
+            type="text"
+            value={rule.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="e.g. Extra spicy"
+            className={inputClassName}
+            required
+            disabled={saving}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Badge
+          <input
+            type="text"
+            value={rule.badgeLabel}
+            onChange={(e) => update({ badgeLabel: e.target.value })}
+            placeholder="Leave empty for no badge"
+            className={inputClassName}
+            disabled={saving}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          When
+          <select
+            value={rule.field}
+            onChange={(e) => update({ field: e.target.value as RuleDraft['field'] })}
+            className={inputClassName}
+            disabled={saving}
+          >
+            {RULE_FIELDS.map(field => (
+              <option key={field} value={field}>{RULE_FIELD_LABELS[field]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Match
+          <select
+            value={rule.matchType}
+            onChange={(e) => update({ matchType: e.target.value as RuleDraft['matchType'] })}
+            className={inputClassName}
+            disabled={saving}
+          >
+            {RULE_MATCH_TYPES.map(matchType => (
+              <option key={matchType} value={matchType}>{RULE_MATCH_TYPE_LABELS[matchType]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {rule.matchType !== 'present' && (
+        <label className="block text-xs text-gray-600">
+          {rule.matchType === 'regex' ? 'Regex (not case sensitive)' : 'One per line; case and full-width characters are ignored'}
+          <textarea
+            value={rule.pattern}
+            onChange={(e) => update({ pattern: e.target.value })}
+            rows={rule.matchType === 'regex' ? 1 : 3}
+            placeholder={rule.matchType === 'regex' ? 'e.g. extra\\s*spicy|激辛' : 'e.g. extra spicy\n激辛'}
+            className={`${inputClassName} font-mono`}
+            required
+            disabled={saving}
+          />
+          {patternError && <span className="text-red-600">{patternError}</span>}
+        </label>
+      )}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <label className="text-xs text-gray-600">
+          Colour
+          <select
+            value={rule.color}
+            onChange={(e) => update({ color: e.target.value as RuleDraft['color'] })}
+            className={inputClassName}
+            disabled={saving}
+          >
+            {RULE_COLORS.map(color => (
+              <option key={color} value={color}>{color}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Border
+          <select
+            value={rule.borderStyle}
+            onChange={(e) => update({ borderStyle: e.target.value as RuleDraft['borderStyle'] })}
+            className={inputClassName}
+            disabled={saving}
+          >
+            {RULE_BORDER_STYLES.map(style => (
+              <option key={style} value={style}>{style}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Sound on arrival
+          <select
+            value={rule.sound}
+            onChange={(e) => {
+              const sound = e.target.value as RuleDraft['sound'];
+              update({ sound });
+              playSound(sound);
+            }}
+            className={inputClassName}
+            disabled={saving}
+          >
+            {RULE_SOUNDS.map(sound => (
+              <option key={sound} value={sound}>{sound}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Printer
+          <select
+            value={rule.printerAction}
+            onChange={(e) => update({ printerAction: e.target.value as RuleDraft['printerAction'] })}
+            className={inputClassName}
+            disabled={saving}
+          >
+            {RULE_PRINTER_ACTIONS.map(action => (
+              <option key={action} value={action}>{RULE_PRINTER_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="flex items-center gap-2">
+        <button type="submit" disabled={saving || !!patternError} className={buttonClassName}>
+          {rule.id ? 'Save rule' : 'Add rule'}
+        </button>
+        <button type="button" onClick={onCancel} className="text-sm text-gray-600 hover:text-gray-900">
+          Cancel
+        </button>
+        {rule.badgeLabel && (
+          <span
+            className="ml-auto px-2 py-1 rounded-md text-xs text-gray-600"
+            style={rule.borderStyle === 'none' ? undefined : { border: `4px ${rule.borderStyle} ${RULE_COLOR_VALUES[rule.color].border}` }}
+          >
+            Preview <RuleBadge rule={rule} />
+          </span>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,14 @@
+// Runs once when the server starts
+
+export async function register() {
+  // Prisma needs Node, not the edge runtime the middleware uses
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+  const { seedDefaultRules } = await import('./utils/orderRuleStore');
+  await seedDefaultRules().catch(error => console.error('Error creating the default badge rules:', error));
+
+  const { backfillCustomers } = await import('./utils/customers');
+  // In the background, so a long backfill doesn't hold up startup
+  backfillCustomers().catch(error => console.error('Error linking earlier orders to customers:', error));
+}
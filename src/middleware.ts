@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSessionSecretConfigured, SESSION_COOKIE, STAFF_ID_HEADER, verifySessionToken } from '@/utils/session';
+
+// Every page and API route needs a signed-in staff member, except the login
+// screen and the endpoints it uses. The fixture portal stands in for the
+// external Demae-can site, so it is left out entirely.
+const PUBLIC_PATHS = ['/login', '/api/auth/login', '/api/auth/setup'];
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isApi = pathname.startsWith('/api/');
+
+  // Only the middleware may say who the caller is
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete(STAFF_ID_HEADER);
+
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
+  if (!isSessionSecretConfigured()) {
+    return NextResponse.json(
+      { success: false, error: 'SESSION_SECRET is not set on the server' },
+      { status: 500 }
+    );
+  }
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!session) {
+    if (isApi) {
+      return NextResponse.json(
+        { success: false, error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  requestHeaders.set(STAFF_ID_HEADER, session.staffId);
+  return NextResponse.next({ request: { headers: requestHeaders } });
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|fixture-portal).*)']
+};
@@ -0,0 +1,198 @@
+import { prisma } from './prisma';
+import { getBusinessDate, getBusinessDayRange, parsePortalDateTime } from './businessDay';
+import { isCancelledOrder } from './reports';
+
+// Trends over a range of business days for the analytics page. Only the
+// aggregated figures leave the server; orders are read a page at a time with
+// just the columns needed so a long range doesn't hold every order at once.
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 2000;
+
+// Longest range the page can ask for
+export const MAX_ANALYTICS_DAYS = 366;
+
+// Ranges longer than this are charted by week rather than by day
+const DAILY_BUCKET_MAX_DAYS = 62;
+
+// Upper bounds (minutes) of the delay histogram's bars; the last bar takes
+// everything longer
+export const DELAY_BUCKET_LIMITS = [15, 30, 45, 60, 90, 120];
+
+export interface TrendPoint {
+  // First business date in the bucket
+  date: string;
+  orders: number;
+  sales: number;
+  averageTicket: number;
+  reserved: number;
+  reservationShare: number;
+  // Mean minutes from order to delivery time for immediate orders, null when
+  // there were none
+  averageDelay: number | null;
+}
+
+export interface DelayStats {
+  orders: number;
+  medianMinutes: number | null;
+  averageMinutes: number | null;
+}
+
+export interface Analytics {
+  from: string;
+  to: string;
+  bucket: 'day' | 'week';
+  totals: {
+    orders: number;
+    sales: number;
+    averageTicket: number;
+    reservationShare: number;
+    cancelled: number;
+  };
+  // Orders by JST weekday (0 = Sunday) and hour of order time
+  heatmap: number[][];
+  trend: TrendPoint[];
+  delay: {
+    immediate: DelayStats;
+    reserved: DelayStats;
+    // Immediate orders per DELAY_BUCKET_LIMITS bar
+    histogram: number[];
+  };
+}
+
+const shiftDate = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+// Whole days from one business date to another, counting both
+export function countDays(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS) + 1;
+}
+
+// Monday of the week a business date falls in
+function weekStart(date: string): string {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return shiftDate(date, -((weekday + 6) % 7));
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+function delayStats(values: number[]): DelayStats {
+  return {
+    orders: values.length,
+    medianMinutes: median(values),
+    averageMinutes: values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null
+  };
+}
+
+export async function buildAnalytics(from: string, to: string): Promise<Analytics> {
+  const start = getBusinessDayRange(from).start;
+  const end = getBusinessDayRange(to).end;
+  const bucket = countDays(from, to) > DAILY_BUCKET_MAX_DAYS ? 'week' : 'day';
+  const bucketOf = (date: string) => bucket === 'week' ? weekStart(date) : date;
+
+  const heatmap = Array.from({ length: 7 }, () => new Array(24).fill(0));
+  const buckets = new Map<string, { orders: number; sales: number; reserved: number; delayTotal: number; delayed: number }>();
+  for (let date = bucketOf(from); date <= to; date = shiftDate(date, bucket === 'week' ? 7 : 1)) {
+    buckets.set(date, { orders: 0, sales: 0, reserved: 0, delayTotal: 0, delayed: 0 });
+  }
+  const immediateDelays: number[] = [];
+  const reservedDelays: number[] = [];
+  const histogram = new Array(DELAY_BUCKET_LIMITS.length + 1).fill(0);
+  let cancelled = 0;
+
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await prisma.order.findMany({
+      where: { orderTime: { gte: start, lt: end } },
+      select: { id: true, orderTime: true, deliveryTime: true, totalAmount: true, waitingTime: true, stage: true, status: true },
+      orderBy: { id: 'asc' },
+      take: PAGE_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+
+    for (const order of page) {
+      if (isCancelledOrder(order)) {
+        cancelled += 1;
+        continue;
+      }
+      const jst = new Date(order.orderTime.getTime() + JST_OFFSET_MS);
+      heatmap[jst.getUTCDay()][jst.getUTCHours()] += 1;
+
+      const figures = buckets.get(bucketOf(getBusinessDate(order.orderTime)));
+      if (!figures) {
+        continue;
+      }
+      const isReservation = order.waitingTime === '-分';
+      figures.orders += 1;
+      figures.sales += Math.round(order.totalAmount);
+      if (isReservation) {
+        figures.reserved += 1;
+      }
+
+      // Delivery times the portal gave in a form we can't read are left out
+      const deliveryTime = parsePortalDateTime(order.deliveryTime);
+      if (isNaN(deliveryTime.getTime())) {
+        continue;
+      }
+      const minutes = Math.round((deliveryTime.getTime() - order.orderTime.getTime()) / 60000);
+      if (minutes < 0) {
+        continue;
+      }
+      if (isReservation) {
+        reservedDelays.push(minutes);
+      } else {
+        immediateDelays.push(minutes);
+        figures.delayTotal += minutes;
+        figures.delayed += 1;
+        const bar = DELAY_BUCKET_LIMITS.findIndex(limit => minutes < limit);
+        histogram[bar === -1 ? DELAY_BUCKET_LIMITS.length : bar] += 1;
+      }
+    }
+
+    if (page.length < PAGE_SIZE) {
+      break;
+    }
+    cursor = page[page.length - 1].id;
+  }
+
+  const trend = Array.from(buckets, ([date, figures]) => ({
+    date,
+    orders: figures.orders,
+    sales: figures.sales,
+    averageTicket: figures.orders > 0 ? Math.round(figures.sales / figures.orders) : 0,
+    reserved: figures.reserved,
+    reservationShare: figures.orders > 0 ? figures.reserved / figures.orders : 0,
+    averageDelay: figures.delayed > 0 ? Math.round(figures.delayTotal / figures.delayed) : null
+  }));
+  const orders = trend.reduce((sum, point) => sum + point.orders, 0);
+  const sales = trend.reduce((sum, point) => sum + point.sales, 0);
+  const reserved = trend.reduce((sum, point) => sum + point.reserved, 0);
+
+  return {
+    from,
+    to,
+    bucket,
+    totals: {
+      orders,
+      sales,
+      averageTicket: orders > 0 ? Math.round(sales / orders) : 0,
+      reservationShare: orders > 0 ? reserved / orders : 0,
+      cancelled
+    },
+    heatmap,
+    trend,
+    delay: {
+      immediate: delayStats(immediateDelays),
+      reserved: delayStats(reservedDelays),
+      histogram
+    }
+  };
+}
@@ -0,0 +1,48 @@
+// Business days run from the cutoff hour (JST) to the same hour the next day,
+// so orders taken after midnight count towards the previous day's shift.
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getBusinessDayCutoffHour(): number {
+  const hour = parseInt(process.env.BUSINESS_DAY_CUTOFF_HOUR || '4', 10);
+  return isNaN(hour) || hour < 0 || hour > 23 ? 4 : hour;
+}
+
+/**
+ * Parse a portal timestamp such as "2025/02/14 18:05:12" as JST.
+ * Anything else is handed to the Date constructor as before.
+ */
+export function parsePortalDateTime(value: string): Date {
+  const match = value.trim().match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) {
+    return new Date(value);
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return new Date(Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds || 0)
+  ) - JST_OFFSET_MS);
+}
+
+export function isBusinessDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+// The business day (YYYY-MM-DD) that a moment in time belongs to
+export function getBusinessDate(date: Date = new Date()): string {
+  const shifted = new Date(date.getTime() + JST_OFFSET_MS - getBusinessDayCutoffHour() * 60 * 60 * 1000);
+  return shifted.toISOString().slice(0, 10);
+}
+
+// [start, end) of a business day as absolute times
+export function getBusinessDayRange(businessDate: string): { start: Date; end: Date } {
+  const midnightUtc = Date.parse(`${businessDate}T00:00:00Z`);
+  const start = midnightUtc - JST_OFFSET_MS + getBusinessDayCutoffHour() * 60 * 60 * 1000;
+  return { start: new Date(start), end: new Date(start + DAY_MS) };
+}
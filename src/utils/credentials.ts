@@ -0,0 +1,60 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+// Portal passwords are stored encrypted with AES-256-GCM. The key is derived
+// from CREDENTIALS_KEY, which never leaves the server environment, so the
+// database alone is not enough to recover a password.
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const FORMAT_VERSION = 'v1';
+// Fixed salt: the secret itself is expected to be long and random
+const KEY_SALT = 'demae-robokun-credentials';
+
+export interface PortalCredentials {
+  email: string;
+  password: string;
+}
+
+let cachedKey: { secret: string; key: Buffer } | null = null;
+
+function getKey(): Buffer {
+  const secret = process.env.CREDENTIALS_KEY;
+  if (!secret) {
+    throw new Error('CREDENTIALS_KEY is not set; it is required to store portal passwords');
+  }
+  if (cachedKey?.secret !== secret) {
+    cachedKey = { secret, key: scryptSync(secret, KEY_SALT, 32) };
+  }
+  return cachedKey.key;
+}
+
+export function isCredentialsKeyConfigured(): boolean {
+  return Boolean(process.env.CREDENTIALS_KEY);
+}
+
+// Encrypt to "v1:<iv>:<auth tag>:<ciphertext>", each part base64
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [FORMAT_VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptSecret(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognised encrypted credential format');
+  }
+
+  try {
+    const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final()
+    ]).toString('utf8');
+  } catch {
+    throw new Error('Could not decrypt stored credentials; has CREDENTIALS_KEY changed?');
+  }
+}
@@ -0,0 +1,14 @@
+// CSV for spreadsheets and accounting software: fields quoted only when
+// they need to be, and CRLF line endings.
+
+export function csvField(text: string): string {
+  // Keep spreadsheet apps from running a cell as a formula
+  if (/^[=+@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,36 @@
+// Flags staff put on a customer or a delivery address, shown as badges on
+// that customer's or address's orders. Shared by the API and the pages.
+
+export type CustomerFlag = 'vip' | 'caution' | 'allergy' | 'callOnArrival';
+
+export const CUSTOMER_FLAGS: CustomerFlag[] = ['vip', 'caution', 'allergy', 'callOnArrival'];
+
+export const CUSTOMER_FLAG_LABELS: Record<CustomerFlag, string> = {
+  vip: 'VIP',
+  caution: 'Caution',
+  allergy: 'Allergy',
+  callOnArrival: 'Call on arrival'
+};
+
+export function isCustomerFlag(value: unknown): value is CustomerFlag {
+  return typeof value === 'string' && (CUSTOMER_FLAGS as string[]).includes(value);
+}
+
+// Flags are stored one per line; unknown ones are dropped
+export function parseFlags(value: string): CustomerFlag[] {
+  return value.split('\n').filter(isCustomerFlag);
+}
+
+export function serializeFlags(flags: CustomerFlag[]): string {
+  return CUSTOMER_FLAGS.filter(flag => flags.includes(flag)).join('\n');
+}
+
+// Addresses as typed vary in width, spacing and dashes; this is the form
+// they are compared in
+export function normalizeAddress(address: string): string {
+  return address
+    .normalize('NFKC')
+    .replace(/[‐‑‒–—―−]/g, '-')
+    .replace(/\s+/g, '')
+    .toLowerCase();
+}
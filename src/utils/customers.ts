@@ -0,0 +1,302 @@
+import type { AddressNote, Customer } from '@prisma/client';
+import { prisma } from './prisma';
+import { isCancelledOrder } from './reports';
+import { CUSTOMER_FLAGS, CustomerFlag, isCustomerFlag, normalizeAddress, parseFlags, serializeFlags } from './customerFlags';
+
+// Customers are recognised by the phone number on their orders, so repeat
+// orders link up whichever store they went to. Names and addresses are taken
+// from the latest order as given; people move and mistype.
+
+// How many of a customer's most-ordered items to show
+const USUAL_ITEM_COUNT = 5;
+
+// Orders read at a time while backfilling
+const BACKFILL_BATCH_SIZE = 500;
+
+const MAX_INTERNAL_NOTES_LENGTH = 1000;
+
+/**
+ * Reduce a phone number to its digits, with +81 turned back into the
+ * leading 0. Returns null for anything that isn't a 10 or 11 digit number.
+ */
+export function normalizePhone(phone: string): string | null {
+  let digits = phone.normalize('NFKC').replace(/\D/g, '');
+  if (phone.trim().startsWith('+81') || (digits.startsWith('81') && digits.length >= 11 && digits.length <= 12)) {
+    digits = `0${digits.slice(2)}`;
+  }
+  return /^0\d{9,10}$/.test(digits) ? digits : null;
+}
+
+interface CustomerDetails {
+  customerPhone: string;
+  customerName: string;
+  address: string;
+  visitCount: string;
+  orderTime: Date;
+}
+
+// Find or create the customer for an order's details and bring their
+// details up to date. Returns null when the phone number can't be read.
+export async function linkCustomer(details: CustomerDetails): Promise<string | null> {
+  const phone = normalizePhone(details.customerPhone);
+  if (!phone) {
+    return null;
+  }
+
+  // Upserted, and then updated only where this order is older or newer than
+  // those seen so far, so saves of the same customer's orders at once don't
+  // collide or undo each other
+  const customer = await prisma.customer.upsert({
+    where: { phone },
+    create: {
+      phone,
+      name: details.customerName,
+      address: details.address,
+      visitCount: details.visitCount,
+      firstOrderAt: details.orderTime,
+      lastOrderAt: details.orderTime
+    },
+    update: {}
+  });
+  await prisma.customer.updateMany({
+    where: { id: customer.id, firstOrderAt: { gt: details.orderTime } },
+    data: { firstOrderAt: details.orderTime }
+  });
+  await prisma.customer.updateMany({
+    where: { id: customer.id, lastOrderAt: { lte: details.orderTime } },
+    data: {
+      lastOrderAt: details.orderTime,
+      name: details.customerName || undefined,
+      address: details.address || undefined,
+      visitCount: details.visitCount || undefined
+    }
+  });
+  return customer.id;
+}
+
+// The next batch of orders without a customer, oldest first, after the
+// given order
+function findUnlinkedOrders(after: { id: string; orderTime: Date } | null) {
+  return prisma.order.findMany({
+    where: {
+      customerId: null,
+      customerPhone: { not: '' },
+      ...(after ? {
+        OR: [
+          { orderTime: { gt: after.orderTime } },
+          { orderTime: after.orderTime, id: { gt: after.id } }
+        ]
+      } : {})
+    },
+    orderBy: [{ orderTime: 'asc' }, { id: 'asc' }],
+    take: BACKFILL_BATCH_SIZE,
+    select: { id: true, customerPhone: true, customerName: true, address: true, visitCount: true, orderTime: true }
+  });
+}
+
+// Link orders saved before customers were kept, oldest first so the latest
+// details win. Runs once at startup (see instrumentation.ts); it pages past
+// each batch, so orders whose phone can't be read are only tried once.
+export async function backfillCustomers(): Promise<number> {
+  let linked = 0;
+  let orders = await findUnlinkedOrders(null);
+  while (orders.length > 0) {
+    for (const order of orders) {
+      const customerId = await linkCustomer(order);
+      if (customerId) {
+        await prisma.order.update({ where: { id: order.id }, data: { customerId } });
+        linked += 1;
+      }
+    }
+    orders = await findUnlinkedOrders(orders[orders.length - 1]);
+  }
+  if (linked > 0) {
+    console.log(`Linked ${linked} earlier orders to customers`);
+  }
+  return linked;
+}
+
+export function toCustomerSummary(customer: Customer) {
+  return {
+    id: customer.id,
+    phone: customer.phone,
+    name: customer.name,
+    address: customer.address,
+    visitCount: customer.visitCount,
+    flags: parseFlags(customer.flags),
+    internalNotes: customer.internalNotes,
+    firstOrderAt: customer.firstOrderAt.toISOString(),
+    lastOrderAt: customer.lastOrderAt.toISOString()
+  };
+}
+
+export function toAddressNoteSummary(note: AddressNote) {
+  return {
+    address: note.label,
+    flags: parseFlags(note.flags),
+    internalNotes: note.internalNotes,
+    updatedAt: note.updatedAt.toISOString()
+  };
+}
+
+export interface FlagSettings {
+  flags: CustomerFlag[];
+  internalNotes: string;
+}
+
+// Why flags and notes from a request can't be saved, or null if they can
+export function checkFlagSettings(settings: { flags?: unknown; internalNotes?: unknown }): string | null {
+  const { flags, internalNotes } = settings;
+  if (!Array.isArray(flags) || !flags.every(isCustomerFlag)) {
+    return `flags must be a list of ${CUSTOMER_FLAGS.join(', ')}`;
+  }
+  if (typeof internalNotes !== 'string') {
+    return 'internalNotes must be text';
+  }
+  if (internalNotes.length > MAX_INTERNAL_NOTES_LENGTH) {
+    return `Notes can be at most ${MAX_INTERNAL_NOTES_LENGTH} characters`;
+  }
+  return null;
+}
+
+export async function updateCustomerFlags(customerId: string, settings: FlagSettings) {
+  return prisma.customer.update({
+    where: { id: customerId },
+    data: { flags: serializeFlags(settings.flags), internalNotes: settings.internalNotes.trim() }
+  });
+}
+
+// Set the flags and notes on an address. Clearing both removes the note.
+// Returns null when it was removed.
+export async function saveAddressNote(address: string, settings: FlagSettings) {
+  const key = normalizeAddress(address);
+  const data = { flags: serializeFlags(settings.flags), internalNotes: settings.internalNotes.trim() };
+  if (!data.flags && !data.internalNotes) {
+    await prisma.addressNote.deleteMany({ where: { address: key } });
+    return null;
+  }
+  return prisma.addressNote.upsert({
+    where: { address: key },
+    create: { address: key, label: address.trim(), ...data },
+    update: data
+  });
+}
+
+export interface OrderAlerts {
+  flags: CustomerFlag[];
+  notes: { source: 'customer' | 'address'; text: string }[];
+}
+
+// Flags and internal notes for each order, from its customer and its
+// delivery address, keyed by orderId. Orders with neither are left out.
+export async function getOrderAlerts(
+  orders: { orderId: string; address: string; customer: Pick<Customer, 'flags' | 'internalNotes'> | null }[],
+  options: { includeNotes: boolean }
+): Promise<Map<string, OrderAlerts>> {
+  const addresses = [...new Set(orders.map(order => normalizeAddress(order.address)).filter(Boolean))];
+  const addressNotes = new Map(
+    (addresses.length > 0 ? await prisma.addressNote.findMany({ where: { address: { in: addresses } } }) : [])
+      .map(note => [note.address, note])
+  );
+
+  const alerts = new Map<string, OrderAlerts>();
+  for (const order of orders) {
+    const addressNote = addressNotes.get(normalizeAddress(order.address));
+    const flags = new Set([
+      ...parseFlags(order.customer?.flags ?? ''),
+      ...parseFlags(addressNote?.flags ?? '')
+    ]);
+    const notes: OrderAlerts['notes'] = [];
+    if (options.includeNotes && order.customer?.internalNotes) {
+      notes.push({ source: 'customer', text: order.customer.internalNotes });
+    }
+    if (options.includeNotes && addressNote?.internalNotes) {
+      notes.push({ source: 'address', text: addressNote.internalNotes });
+    }
+    if (flags.size > 0 || notes.length > 0) {
+      alerts.set(order.orderId, { flags: CUSTOMER_FLAGS.filter(flag => flags.has(flag)), notes });
+    }
+  }
+  return alerts;
+}
+
+// A customer with their order history and what it adds up to
+export async function getCustomerProfile(customerId: string) {
+  const customer = await prisma.customer.findUnique({
+    where: { id: customerId },
+    include: {
+      orders: {
+        orderBy: { orderTime: 'desc' },
+        include: {
+          store: { select: { id: true, name: true } },
+          lineItems: { select: { name: true, quantity: true } }
+        }
+      }
+    }
+  });
+  if (!customer) {
+    return null;
+  }
+
+  const completed = customer.orders.filter(order => !isCancelledOrder(order));
+
+  // Items counted by how many orders they were in, so one big order
+  // doesn't make a usual
+  const itemCounts = new Map<string, { orders: number; quantity: number }>();
+  for (const order of completed) {
+    for (const name of new Set(order.lineItems.map(item => item.name))) {
+      const counts = itemCounts.get(name) ?? { orders: 0, quantity: 0 };
+      counts.orders += 1;
+      counts.quantity += order.lineItems.filter(item => item.name === name).reduce((sum, item) => sum + item.quantity, 0);
+      itemCounts.set(name, counts);
+    }
+  }
+  const usualItems = Array.from(itemCounts, ([name, counts]) => ({ name, ...counts }))
+    .sort((a, b) => b.orders - a.orders || b.quantity - a.quantity)
+    .slice(0, USUAL_ITEM_COUNT);
+
+  const totalSpend = completed.reduce((sum, order) => sum + Math.round(order.totalAmount), 0);
+
+  // Every address they have had orders delivered to, latest first, with
+  // whatever is noted against it
+  const addresses = new Map<string, string>();
+  for (const order of customer.orders) {
+    const key = normalizeAddress(order.address);
+    if (key && !addresses.has(key)) {
+      addresses.set(key, order.address);
+    }
+  }
+  const addressNotes = new Map(
+    (await prisma.addressNote.findMany({ where: { address: { in: [...addresses.keys()] } } }))
+      .map(note => [note.address, note])
+  );
+
+  return {
+    ...toCustomerSummary(customer),
+    orderCount: completed.length,
+    totalSpend,
+    averageSpend: completed.length > 0 ? Math.round(totalSpend / completed.length) : 0,
+    usualItems,
+    addresses: Array.from(addresses, ([key, address]) => {
+      const note = addressNotes.get(key);
+      return { address, flags: note ? parseFlags(note.flags) : [], internalNotes: note?.internalNotes ?? '' };
+    }),
+    notes: customer.orders
+      .filter(order => order.notes && order.notes !== '-')
+      .map(order => ({ orderId: order.orderId, orderTime: order.orderTime.toISOString(), notes: order.notes! })),
+    orders: customer.orders.map(order => ({
+      orderId: order.orderId,
+      orderTime: order.orderTime.toISOString(),
+      store: order.store,
+      stage: order.stage,
+      status: order.status,
+      cancelled: isCancelledOrder(order),
+      paymentMethod: order.paymentMethod,
+      totalAmount: order.totalAmount,
+      address: order.address,
+      items: order.lineItems.length > 0
+        ? order.lineItems.map(item => `${item.name} ×${item.quantity}`).join(', ')
+        : order.items
+    }))
+  };
+}
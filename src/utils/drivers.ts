@@ -0,0 +1,27 @@
+import type { Driver, Staff } from '@prisma/client';
+import { prisma } from './prisma';
+
+// Drivers take orders out. A driver can be linked to a driver-role staff
+// account so they can sign in and see their own run.
+
+export function toDriverSummary(driver: Driver & { staff?: Pick<Staff, 'id' | 'name'> | null }) {
+  return {
+    id: driver.id,
+    name: driver.name,
+    phone: driver.phone,
+    active: driver.active,
+    staff: driver.staff ? { id: driver.staff.id, name: driver.staff.name } : null
+  };
+}
+
+// Why a staff account can't be linked to this driver, or null if it can
+export async function checkDriverStaffLink(staffId: string, driverId?: string): Promise<string | null> {
+  const staff = await prisma.staff.findUnique({ where: { id: staffId }, include: { driver: true } });
+  if (!staff?.active || staff.role !== 'driver') {
+    return 'Only an active driver-role staff account can be linked';
+  }
+  if (staff.driver && staff.driver.id !== driverId) {
+    return `${staff.name} is already linked to ${staff.driver.name}`;
+  }
+  return null;
+}
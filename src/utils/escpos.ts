@@ -0,0 +1,188 @@
+import iconv from 'iconv-lite';
+
+// Turns a ticket template into the raw ESC/POS bytes a Japanese thermal
+// printer understands. Text goes out as Shift_JIS in kanji mode.
+//
+// Templates are plain text, one printed line per template line:
+// - {field} is replaced with the ticket's value. A line whose fields are all
+//   empty is left out, and a multi-line value prints as several lines.
+// - A line may start with [center], [right], [bold], [large] (double width
+//   and height) and [tall] (double height), in any combination.
+// - [line] prints a rule, [feed] a blank line and [cut] cuts the paper.
+//   Every ticket ends with a cut.
+
+// Characters per line on 80mm paper in the printer's default font
+const PAPER_COLUMNS = 48;
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const FS = 0x1c;
+const LF = 0x0a;
+
+const INITIALIZE = [ESC, 0x40];
+// Shift_JIS code system, then kanji mode on
+const KANJI_MODE = [FS, 0x43, 0x01, FS, 0x26];
+const FEED_AND_CUT = [ESC, 0x64, 0x03, GS, 0x56, 0x42, 0x00];
+
+const ALIGNMENTS = { left: 0, center: 1, right: 2 } as const;
+
+type LineStyle = {
+  align: keyof typeof ALIGNMENTS;
+  bold: boolean;
+  width: 1 | 2;
+  height: 1 | 2;
+};
+
+type TicketLine =
+  | { kind: 'text'; text: string; style: LineStyle }
+  | { kind: 'rule' }
+  | { kind: 'feed' }
+  | { kind: 'cut' };
+
+const STYLE_DIRECTIVES: Record<string, (style: LineStyle) => void> = {
+  center: style => { style.align = 'center'; },
+  right: style => { style.align = 'right'; },
+  bold: style => { style.bold = true; },
+  large: style => { style.width = 2; style.height = 2; },
+  tall: style => { style.height = 2; }
+};
+
+const LINE_DIRECTIVES: Record<string, Exclude<TicketLine['kind'], 'text'>> = {
+  line: 'rule',
+  feed: 'feed',
+  cut: 'cut'
+};
+
+// Fields a kitchen ticket template can use, with what they hold
+export const KITCHEN_TICKET_FIELDS: Record<string, string> = {
+  orderId: 'Order number',
+  store: 'Store name',
+  reserved: '予約 RESERVED on reservations, otherwise empty',
+  deliveryTime: 'Delivery time',
+  orderTime: 'Time the order was placed',
+  items: 'One line per item with quantity, then its options',
+  notes: 'Customer notes',
+  notesTranslation: 'The notes translated, when there is a translation',
+  utensils: 'A line when utensils were asked for, otherwise empty',
+  highlights: 'Badges from highlight rules set to print, one per line',
+  reprint: '再印刷 REPRINT on reprints, otherwise empty',
+  printedAt: 'Time the ticket was printed'
+};
+
+export const DEFAULT_KITCHEN_TEMPLATE = [
+  '[center][bold]{store}',
+  '[center]{reprint}',
+  '[large]#{orderId}',
+  '[large]{reserved}',
+  '[tall][bold]配達 {deliveryTime}',
+  '注文 {orderTime}',
+  '[line]',
+  '[tall]{items}',
+  '[line]',
+  '[bold]{utensils}',
+  '[bold]{highlights}',
+  '[bold]{notes}',
+  '{notesTranslation}',
+  '[feed]',
+  '[right]{printedAt}'
+].join('\n');
+
+const FIELD_PATTERN = /\{(\w+)\}/g;
+const DIRECTIVE_PATTERN = /^\[(\w+)\]/;
+
+function splitDirectives(templateLine: string): { directives: string[]; rest: string } {
+  const directives: string[] = [];
+  let rest = templateLine;
+  let match;
+  while ((match = rest.match(DIRECTIVE_PATTERN))) {
+    directives.push(match[1]);
+    rest = rest.slice(match[0].length);
+  }
+  return { directives, rest };
+}
+
+// Problems with a template, or null if it can be used
+export function validateTemplate(template: string, fields: Record<string, string> = KITCHEN_TICKET_FIELDS): string | null {
+  for (const [index, templateLine] of template.split('\n').entries()) {
+    const { directives, rest } = splitDirectives(templateLine);
+    for (const directive of directives) {
+      if (!(directive in STYLE_DIRECTIVES) && !(directive in LINE_DIRECTIVES)) {
+        return `Line ${index + 1}: unknown [${directive}]`;
+      }
+    }
+    for (const [, field] of rest.matchAll(FIELD_PATTERN)) {
+      if (!(field in fields)) {
+        return `Line ${index + 1}: unknown {${field}}`;
+      }
+    }
+  }
+  return null;
+}
+
+function renderTemplate(template: string, values: Record<string, string>): TicketLine[] {
+  const lines: TicketLine[] = [];
+
+  for (const templateLine of template.split('\n')) {
+    const { directives, rest } = splitDirectives(templateLine.trimEnd());
+
+    const lineDirective = directives.find(directive => directive in LINE_DIRECTIVES);
+    if (lineDirective) {
+      lines.push({ kind: LINE_DIRECTIVES[lineDirective] });
+      continue;
+    }
+
+    const fieldNames = Array.from(rest.matchAll(FIELD_PATTERN), match => match[1]);
+    if (fieldNames.length > 0 && fieldNames.every(field => !values[field])) {
+      continue;
+    }
+
+    const style: LineStyle = { align: 'left', bold: false, width: 1, height: 1 };
+    for (const directive of directives) {
+      STYLE_DIRECTIVES[directive]?.(style);
+    }
+
+    const text = rest.replace(FIELD_PATTERN, (_, field) => values[field] ?? '');
+    for (const textLine of text.split('\n')) {
+      lines.push({ kind: 'text', text: textLine, style });
+    }
+  }
+
+  return lines;
+}
+
+function encodeLine(line: TicketLine): number[] {
+  switch (line.kind) {
+    case 'rule':
+      // Back to normal size first, or a rule after a [large] line wraps
+      return [GS, 0x21, 0, FS, 0x21, 0, ESC, 0x45, 0, ...Buffer.from('-'.repeat(PAPER_COLUMNS)), LF];
+    case 'feed':
+      return [LF];
+    case 'cut':
+      return FEED_AND_CUT;
+    case 'text': {
+      const { align, bold, width, height } = line.style;
+      const size = ((width - 1) << 4) | (height - 1);
+      return [
+        ESC, 0x61, ALIGNMENTS[align],
+        GS, 0x21, size,
+        // Kanji characters take their size from FS ! rather than GS !
+        FS, 0x21, (width === 2 ? 0x04 : 0) | (height === 2 ? 0x08 : 0),
+        ESC, 0x45, bold ? 1 : 0,
+        ...iconv.encode(line.text, 'Shift_JIS'),
+        LF
+      ];
+    }
+  }
+}
+
+// The bytes for one ticket, printed copies times
+export function encodeTicket(template: string, values: Record<string, string>, copies = 1): Buffer {
+  const lines = renderTemplate(template, values);
+  const ticket = [
+    ...INITIALIZE,
+    ...KANJI_MODE,
+    ...lines.flatMap(encodeLine),
+    ...(lines[lines.length - 1]?.kind === 'cut' ? [] : FEED_AND_CUT)
+  ];
+  return Buffer.from(Array.from({ length: Math.max(1, copies) }, () => ticket).flat());
+}
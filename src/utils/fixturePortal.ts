@@ -0,0 +1,221 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getBusinessDate } from './businessDay';
+
+// Local stand-in for the Demae-can partner portal, served from the saved
+// HTML under fixtures/portal. Scenario files script what happens after the
+// first login (orders arriving, statuses changing, sessions expiring).
+
+const FIXTURE_DIR = path.join(process.cwd(), 'fixtures', 'portal');
+export const FIXTURE_SESSION_COOKIE = 'fixture_portal_session';
+// Business day the saved fixtures were captured on; dates are shifted to today
+const FIXTURE_BUSINESS_DATE = '2025-02-14';
+
+type ScenarioStep =
+  | { afterSeconds: number; action: 'addOrder'; orderId: string }
+  | { afterSeconds: number; action: 'removeOrder'; orderId: string }
+  | { afterSeconds: number; action: 'setStatus'; orderId: string; status: string }
+  | { afterSeconds: number; action: 'expireSession' }
+  | { afterSeconds: number; action: 'clearOrders' };
+
+export type FixtureAction =
+  | { action: 'addOrder'; orderId: string }
+  | { action: 'removeOrder'; orderId: string }
+  | { action: 'setStatus'; orderId: string; status: string }
+  | { action: 'expireSession' }
+  | { action: 'clearOrders' };
+
+interface Scenario {
+  description?: string;
+  credentials: { email: string; password: string };
+  orders: string[];
+  steps: ScenarioStep[];
+}
+
+interface FixtureOrderRow {
+  orderTime: string;
+  status: string;
+  customerName: string;
+  storeName: string;
+  totalAmount: string;
+}
+
+interface PortalState {
+  scenarioName: string;
+  scenario: Scenario;
+  // Order IDs currently listed on the order list, in display order
+  orderIds: string[];
+  statusOverrides: Record<string, string>;
+  // Bumped on every expireSession so old cookies stop working
+  sessionGeneration: number;
+  // Set on the first successful login; scenario steps are timed from here
+  startedAt: number | null;
+  appliedSteps: number;
+}
+
+// Keep the state on globalThis so it survives Next.js hot reloads
+const globalForPortal = globalThis as unknown as { fixturePortalState?: PortalState };
+
+export function isFixturePortalEnabled(): boolean {
+  return process.env.FIXTURE_PORTAL === 'true';
+}
+
+async function readFixture(relativePath: string): Promise<string> {
+  return fs.readFile(path.join(FIXTURE_DIR, relativePath), 'utf8');
+}
+
+// Move every YYYY/MM/DD date in a fixture by the same number of days so the
+// saved orders land on the current business day
+function shiftFixtureDates(html: string): string {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const offsetDays = Math.round(
+    (Date.parse(`${getBusinessDate()}T00:00:00Z`) - Date.parse(`${FIXTURE_BUSINESS_DATE}T00:00:00Z`)) / dayMs
+  );
+
+  return html.replace(/(\d{4})\/(\d{2})\/(\d{2})/g, (_, year: string, month: string, day: string) => {
+    const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day) + offsetDays));
+    return date.toISOString().slice(0, 10).replace(/-/g, '/');
+  });
+}
+
+function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => values[key] ?? '');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export async function loadScenario(name: string): Promise<PortalState> {
+  if (!/^[\w-]+$/.test(name)) {
+    throw new Error(`Invalid scenario name: ${name}`);
+  }
+
+  const scenario = JSON.parse(await readFixture(`scenarios/${name}.json`)) as Scenario;
+  const state: PortalState = {
+    scenarioName: name,
+    scenario,
+    orderIds: [...scenario.orders],
+    statusOverrides: {},
+    sessionGeneration: 0,
+    startedAt: null,
+    appliedSteps: 0
+  };
+
+  globalForPortal.fixturePortalState = state;
+  console.log(`Fixture portal loaded scenario "${name}"`);
+  return state;
+}
+
+export async function getPortalState(): Promise<PortalState> {
+  const state = globalForPortal.fixturePortalState
+    ?? await loadScenario(process.env.FIXTURE_PORTAL_SCENARIO || 'default');
+
+  // Apply any scripted steps that have come due since the last request
+  if (state.startedAt !== null) {
+    const elapsedSeconds = (Date.now() - state.startedAt) / 1000;
+    const steps = [...state.scenario.steps].sort((a, b) => a.afterSeconds - b.afterSeconds);
+    while (state.appliedSteps < steps.length && steps[state.appliedSteps].afterSeconds <= elapsedSeconds) {
+      const { afterSeconds, ...action } = steps[state.appliedSteps];
+      console.log(`Fixture portal step at ${afterSeconds}s:`, action);
+      applyFixtureAction(state, action);
+      state.appliedSteps++;
+    }
+  }
+
+  return state;
+}
+
+export function applyFixtureAction(state: PortalState, action: FixtureAction) {
+  switch (action.action) {
+    case 'addOrder':
+      if (!state.orderIds.includes(action.orderId)) {
+        // New orders show up at the top of the portal list
+        state.orderIds.unshift(action.orderId);
+      }
+      break;
+    case 'removeOrder':
+      state.orderIds = state.orderIds.filter(orderId => orderId !== action.orderId);
+      break;
+    case 'setStatus':
+      state.statusOverrides[action.orderId] = action.status;
+      break;
+    case 'expireSession':
+      state.sessionGeneration++;
+      break;
+    case 'clearOrders':
+      state.orderIds = [];
+      break;
+  }
+}
+
+export function isSessionValid(state: PortalState, cookieValue: string | undefined): boolean {
+  return cookieValue === String(state.sessionGeneration);
+}
+
+export function checkCredentials(state: PortalState, email: string, password: string): boolean {
+  const { credentials } = state.scenario;
+  return email === credentials.email && password === credentials.password;
+}
+
+export function startSession(state: PortalState): string {
+  if (state.startedAt === null) {
+    state.startedAt = Date.now();
+  }
+  return String(state.sessionGeneration);
+}
+
+export async function renderLoginPage(errorMessage?: string): Promise<string> {
+  const template = await readFixture('login.html');
+  return fillTemplate(template, {
+    LOGIN_ERROR: errorMessage ? `<p class="loginError" role="alert">${escapeHtml(errorMessage)}</p>` : ''
+  });
+}
+
+export async function renderOrderList(state: PortalState): Promise<string> {
+  if (state.orderIds.length === 0) {
+    return readFixture('order-list-empty.html');
+  }
+
+  const rows = JSON.parse(await readFixture('orders.json')) as Record<string, FixtureOrderRow>;
+  const rowTemplate = await readFixture('order-list-row.html');
+
+  const renderedRows = state.orderIds
+    .filter(orderId => {
+      if (!rows[orderId]) {
+        console.warn(`Fixture portal has no orders.json entry for ${orderId}`);
+        return false;
+      }
+      return true;
+    })
+    .map(orderId => {
+      const row = rows[orderId];
+      return fillTemplate(rowTemplate, {
+        ORDER_ID: escapeHtml(orderId),
+        ORDER_TIME: escapeHtml(row.orderTime),
+        STATUS: escapeHtml(state.statusOverrides[orderId] ?? row.status),
+        CUSTOMER_NAME: escapeHtml(row.customerName),
+        STORE_NAME: escapeHtml(row.storeName),
+        TOTAL_AMOUNT: escapeHtml(row.totalAmount)
+      });
+    })
+    .join('\n');
+
+  return shiftFixtureDates(fillTemplate(await readFixture('order-list.html'), { ORDER_ROWS: renderedRows }));
+}
+
+export async function renderOrderDetail(state: PortalState, orderId: string): Promise<string | null> {
+  if (!/^[\w-]+$/.test(orderId) || !state.orderIds.includes(orderId)) {
+    return null;
+  }
+
+  try {
+    return shiftFixtureDates(await readFixture(`orders/${orderId}.html`));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,218 @@
+import iconv from 'iconv-lite';
+import { prisma } from './prisma';
+import { getBusinessDate, getBusinessDayRange } from './businessDay';
+import { toCsv } from './csv';
+import { PAYMENT_CATEGORIES, PAYMENT_CATEGORY_LABELS, PaymentCategory, paymentCategory } from './payments';
+import { includedTax, RECEIPT_TAX_RATE } from './receipts';
+import { isCancelledOrder } from './reports';
+
+// Sales as journal entries for freee or Money Forward クラウド会計 to import.
+// Each entry debits the account for how the order was paid (cash collected
+// at the door, or a receivable the platform settles later) and credits
+// sales, with the consumption tax included in the amount.
+
+export type JournalFormat = 'freee' | 'moneyforward';
+
+export const JOURNAL_FORMATS: JournalFormat[] = ['freee', 'moneyforward'];
+
+// One entry per business day and payment method, or one per order
+export type JournalGranularity = 'day' | 'order';
+
+export const JOURNAL_GRANULARITIES: JournalGranularity[] = ['day', 'order'];
+
+export type JournalAccountKey = 'sales' | PaymentCategory;
+
+export const JOURNAL_ACCOUNT_KEYS: JournalAccountKey[] = ['sales', ...PAYMENT_CATEGORIES];
+
+export const JOURNAL_ACCOUNT_LABELS: Record<JournalAccountKey, string> = {
+  sales: 'Sales (credit)',
+  ...PAYMENT_CATEGORY_LABELS
+};
+
+export interface JournalAccountSetting {
+  account: string;
+  subAccount: string;
+  taxCategory: string;
+}
+
+// Cash is in the till; card and Amazon Pay are paid out by the platform
+export const DEFAULT_JOURNAL_ACCOUNTS: Record<JournalAccountKey, JournalAccountSetting> = {
+  sales: { account: '売上高', subAccount: '出前館', taxCategory: '課税売上8%（軽）' },
+  cash: { account: '現金', subAccount: '', taxCategory: '対象外' },
+  card: { account: '売掛金', subAccount: '出前館', taxCategory: '対象外' },
+  amazonPay: { account: '売掛金', subAccount: '出前館', taxCategory: '対象外' },
+  other: { account: '売掛金', subAccount: '', taxCategory: '対象外' }
+};
+
+export function isJournalAccountKey(value: unknown): value is JournalAccountKey {
+  return typeof value === 'string' && (JOURNAL_ACCOUNT_KEYS as string[]).includes(value);
+}
+
+// The saved accounts, with the defaults for any not set
+export async function getJournalAccounts(): Promise<Record<JournalAccountKey, JournalAccountSetting>> {
+  const accounts = { ...DEFAULT_JOURNAL_ACCOUNTS };
+  for (const row of await prisma.journalAccount.findMany()) {
+    if (isJournalAccountKey(row.key)) {
+      accounts[row.key] = { account: row.account, subAccount: row.subAccount, taxCategory: row.taxCategory };
+    }
+  }
+  return accounts;
+}
+
+// Why account settings from a request can't be saved, or null if they can
+export function checkJournalAccounts(accounts: unknown): string | null {
+  if (!accounts || typeof accounts !== 'object') {
+    return 'accounts is required';
+  }
+  for (const [key, setting] of Object.entries(accounts)) {
+    if (!isJournalAccountKey(key)) {
+      return `Unknown account: ${key}`;
+    }
+    const { account, subAccount, taxCategory } = (setting ?? {}) as Record<string, unknown>;
+    if (typeof account !== 'string' || !account.trim()) {
+      return `${JOURNAL_ACCOUNT_LABELS[key]} needs an account`;
+    }
+    if ((subAccount !== undefined && typeof subAccount !== 'string') || (taxCategory !== undefined && typeof taxCategory !== 'string')) {
+      return `${JOURNAL_ACCOUNT_LABELS[key]} has an invalid sub-account or tax category`;
+    }
+  }
+  return null;
+}
+
+export async function saveJournalAccounts(accounts: Partial<Record<JournalAccountKey, JournalAccountSetting>>) {
+  await prisma.$transaction(Object.entries(accounts).map(([key, setting]) => {
+    const data = {
+      account: setting.account.trim(),
+      subAccount: setting.subAccount?.trim() ?? '',
+      taxCategory: setting.taxCategory?.trim() ?? ''
+    };
+    return prisma.journalAccount.upsert({ where: { key }, create: { key, ...data }, update: data });
+  }));
+}
+
+export interface JournalEntry {
+  // Business date, YYYY-MM-DD
+  date: string;
+  paymentCategory: PaymentCategory;
+  amount: number;
+  taxAmount: number;
+  description: string;
+}
+
+// Sales for a range of business days as journal entries, oldest first.
+// Cancelled orders are left out; hidden ones were still sold, so they count.
+export async function buildJournalEntries(
+  from: string,
+  to: string,
+  options: { granularity: JournalGranularity; storeId?: string | null }
+): Promise<JournalEntry[]> {
+  const orders = await prisma.order.findMany({
+    where: {
+      orderTime: { gte: getBusinessDayRange(from).start, lt: getBusinessDayRange(to).end },
+      ...(options.storeId ? { storeId: options.storeId } : {})
+    },
+    orderBy: { orderTime: 'asc' },
+    select: {
+      orderId: true,
+      orderTime: true,
+      paymentMethod: true,
+      totalAmount: true,
+      stage: true,
+      status: true,
+      store: { select: { name: true, accountEmail: true } }
+    }
+  });
+
+  const entries: JournalEntry[] = [];
+  // Per-day totals keyed by date, store and payment category
+  const days = new Map<string, JournalEntry & { orders: number }>();
+
+  for (const order of orders) {
+    const amount = Math.round(order.totalAmount);
+    if (isCancelledOrder(order) || amount <= 0) {
+      continue;
+    }
+    const date = getBusinessDate(order.orderTime);
+    const category = paymentCategory(order.paymentMethod);
+    const storeName = order.store ? order.store.name || order.store.accountEmail : '';
+
+    if (options.granularity === 'order') {
+      entries.push({
+        date,
+        paymentCategory: category,
+        amount,
+        taxAmount: includedTax(amount, RECEIPT_TAX_RATE),
+        description: ['出前館', storeName, order.orderId, order.paymentMethod].filter(Boolean).join(' ')
+      });
+      continue;
+    }
+
+    const key = `${date}|${storeName}|${category}`;
+    const day = days.get(key) ?? { date, paymentCategory: category, amount: 0, taxAmount: 0, description: storeName, orders: 0 };
+    day.amount += amount;
+    day.orders += 1;
+    days.set(key, day);
+  }
+
+  for (const day of days.values()) {
+    entries.push({
+      date: day.date,
+      paymentCategory: day.paymentCategory,
+      amount: day.amount,
+      // Tax is worked out on the day's total, as on a daily sales slip
+      taxAmount: includedTax(day.amount, RECEIPT_TAX_RATE),
+      description: ['出前館売上', day.description, PAYMENT_CATEGORY_LABELS[day.paymentCategory], `${day.orders}件`].filter(Boolean).join(' ')
+    });
+  }
+  return entries;
+}
+
+const formatDate = (date: string) => date.replace(/-/g, '/');
+
+function freeeRows(entries: JournalEntry[], accounts: Record<JournalAccountKey, JournalAccountSetting>): string[][] {
+  const header = [
+    '日付', '伝票番号', '決算整理仕訳',
+    '借方勘定科目', '借方取引先', '借方税区分', '借方金額', '借方税額',
+    '貸方勘定科目', '貸方取引先', '貸方税区分', '貸方金額', '貸方税額',
+    '摘要'
+  ];
+  return [header, ...entries.map((entry, index) => {
+    const debit = accounts[entry.paymentCategory];
+    const credit = accounts.sales;
+    return [
+      formatDate(entry.date), String(index + 1), '',
+      debit.account, debit.subAccount, debit.taxCategory, String(entry.amount), '',
+      credit.account, credit.subAccount, credit.taxCategory, String(entry.amount), String(entry.taxAmount),
+      entry.description
+    ];
+  })];
+}
+
+function moneyForwardRows(entries: JournalEntry[], accounts: Record<JournalAccountKey, JournalAccountSetting>): string[][] {
+  const header = [
+    '取引No', '取引日',
+    '借方勘定科目', '借方補助科目', '借方部門', '借方取引先', '借方税区分', '借方インボイス', '借方金額(円)', '借方税額',
+    '貸方勘定科目', '貸方補助科目', '貸方部門', '貸方取引先', '貸方税区分', '貸方インボイス', '貸方金額(円)', '貸方税額',
+    '摘要', '仕訳メモ', 'タグ', 'MF仕訳タイプ', '決算整理仕訳'
+  ];
+  return [header, ...entries.map((entry, index) => {
+    const debit = accounts[entry.paymentCategory];
+    const credit = accounts.sales;
+    return [
+      String(index + 1), formatDate(entry.date),
+      debit.account, debit.subAccount, '', '', debit.taxCategory, '', String(entry.amount), '',
+      credit.account, credit.subAccount, '', '', credit.taxCategory, '', String(entry.amount), String(entry.taxAmount),
+      entry.description, '', '', '', ''
+    ];
+  })];
+}
+
+// The import file, in Shift_JIS as both services expect
+export function journalToCsv(
+  format: JournalFormat,
+  entries: JournalEntry[],
+  accounts: Record<JournalAccountKey, JournalAccountSetting>
+): Buffer {
+  const rows = format === 'freee' ? freeeRows(entries, accounts) : moneyForwardRows(entries, accounts);
+  return iconv.encode(toCsv(rows), 'Shift_JIS');
+}
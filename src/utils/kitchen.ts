@@ -0,0 +1,59 @@
+import type { Order, OrderItem, Store } from '@prisma/client';
+import { parsePortalDateTime } from './businessDay';
+import { mentionsUtensils } from './orderDetailParser';
+import type { OrderTranslations } from './translation';
+import { OrderStage } from './workflow';
+
+// The kitchen display shows each order still to be cooked as a ticket with
+// just the food: items, options, quantities, utensils and notes.
+
+// Stages the kitchen still has to act on
+export const KITCHEN_STAGES: OrderStage[] = ['received', 'cooking'];
+
+// Minutes before the delivery time that an order should be ready, leaving
+// the driver time to get there
+export function getKitchenLeadMinutes(): number {
+  const minutes = parseInt(process.env.KITCHEN_LEAD_MINUTES || '15', 10);
+  return isNaN(minutes) || minutes < 0 ? 15 : minutes;
+}
+
+// When the kitchen should have an order ready: the lead time before its
+// delivery time, or the lead time after it was placed if the portal's
+// delivery time can't be read
+export function getTargetReadyTime(order: Pick<Order, 'deliveryTime' | 'orderTime'>): Date {
+  const leadMs = getKitchenLeadMinutes() * 60 * 1000;
+  const deliveryTime = parsePortalDateTime(order.deliveryTime);
+  if (isNaN(deliveryTime.getTime())) {
+    return new Date(order.orderTime.getTime() + leadMs);
+  }
+  return new Date(deliveryTime.getTime() - leadMs);
+}
+
+export function toKitchenTicket(
+  order: Order & { lineItems: OrderItem[]; store: Pick<Store, 'id' | 'name'> | null },
+  translations: OrderTranslations = {}
+) {
+  return {
+    orderId: order.orderId,
+    store: order.store,
+    stage: order.stage,
+    orderTime: order.orderTime.toISOString(),
+    deliveryTime: order.deliveryTime,
+    isReservation: order.waitingTime === '-分',
+    targetReadyAt: getTargetReadyTime(order).toISOString(),
+    utensils: mentionsUtensils(order.items),
+    notes: order.notes && order.notes !== '-' ? order.notes : '',
+    // The utensils request sometimes comes through as a line of its own
+    items: order.lineItems
+      .filter(item => !mentionsUtensils(item.name))
+      .map(item => ({
+        id: item.id,
+        name: item.name,
+        options: item.options ? item.options.split('\n') : [],
+        quantity: item.quantity,
+        preparedAt: item.preparedAt?.toISOString() ?? null
+      })),
+    // Notes, item names and options mapped to their translations
+    translations
+  };
+}
@@ -0,0 +1,122 @@
+import { publishMonitorState } from './orderEvents';
+
+// Explicit lifecycle of each store's order monitor. The scraper moves between
+// these states as it works, and every move is kept with a timestamp and reason
+// so the dashboard can show what each monitor is doing and why.
+
+export type MonitorState =
+  | 'idle'
+  | 'launching'
+  | 'logging_in'
+  | 'initial_sync'
+  | 'polling'
+  | 'reauthenticating'
+  | 'backoff'
+  | 'failed'
+  | 'stopped';
+
+export interface MonitorTransition {
+  from: MonitorState;
+  to: MonitorState;
+  reason: string;
+  at: string;
+}
+
+export interface MonitorStateSnapshot {
+  state: MonitorState;
+  since: string;
+  reason: string;
+  transitions: MonitorTransition[];
+}
+
+// States the monitor may move to from each state
+const ALLOWED_TRANSITIONS: Record<MonitorState, MonitorState[]> = {
+  idle: ['launching', 'stopped'],
+  launching: ['logging_in', 'failed', 'stopped', 'backoff'],
+  logging_in: ['initial_sync', 'polling', 'reauthenticating', 'launching', 'failed', 'stopped', 'backoff'],
+  initial_sync: ['polling', 'failed', 'stopped', 'backoff'],
+  polling: ['reauthenticating', 'backoff', 'launching', 'failed', 'stopped'],
+  reauthenticating: ['polling', 'backoff', 'launching', 'failed', 'stopped'],
+  backoff: ['polling', 'reauthenticating', 'launching', 'failed', 'stopped'],
+  failed: ['launching', 'stopped'],
+  stopped: ['launching']
+};
+
+// Oldest transitions are dropped beyond this many
+const MAX_TRANSITIONS = 50;
+
+interface MonitorStateMachine {
+  state: MonitorState;
+  since: Date;
+  reason: string;
+  transitions: MonitorTransition[];
+}
+
+// One machine per store, keyed by store ID
+const globalForState = globalThis as unknown as { monitorStateMachines?: Map<string, MonitorStateMachine> };
+
+function getMachine(storeId: string): MonitorStateMachine {
+  if (!globalForState.monitorStateMachines) {
+    globalForState.monitorStateMachines = new Map();
+  }
+
+  let machine = globalForState.monitorStateMachines.get(storeId);
+  if (!machine) {
+    machine = {
+      state: 'idle',
+      since: new Date(),
+      reason: 'Monitoring has not been started',
+      transitions: []
+    };
+    globalForState.monitorStateMachines.set(storeId, machine);
+  }
+  return machine;
+}
+
+export function getMonitorState(storeId: string): MonitorState {
+  return getMachine(storeId).state;
+}
+
+/**
+ * Move the monitor to a new state. Moves the table doesn't allow are ignored,
+ * which stops work still unwinding after a stop from overwriting "stopped".
+ * Returns whether the state changed.
+ */
+export function transitionMonitor(storeId: string, to: MonitorState, reason: string): boolean {
+  const machine = getMachine(storeId);
+  const from = machine.state;
+
+  if (from === to) {
+    // Same state, newer explanation (e.g. another error while backing off)
+    machine.reason = reason;
+    return false;
+  }
+
+  if (!ALLOWED_TRANSITIONS[from].includes(to)) {
+    console.warn(`Ignoring monitor transition for store ${storeId} ${from} -> ${to}: ${reason}`);
+    return false;
+  }
+
+  const at = new Date();
+  machine.transitions.push({ from, to, reason, at: at.toISOString() });
+  if (machine.transitions.length > MAX_TRANSITIONS) {
+    machine.transitions.splice(0, machine.transitions.length - MAX_TRANSITIONS);
+  }
+  machine.state = to;
+  machine.since = at;
+  machine.reason = reason;
+
+  console.log(`Monitor state for store ${storeId}: ${from} -> ${to} (${reason})`);
+  publishMonitorState(storeId, to, reason);
+  return true;
+}
+
+export function getMonitorStateSnapshot(storeId: string): MonitorStateSnapshot {
+  const machine = getMachine(storeId);
+  return {
+    state: machine.state,
+    since: machine.since.toISOString(),
+    reason: machine.reason,
+    transitions: [...machine.transitions]
+  };
+}
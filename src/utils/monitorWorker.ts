@@ -0,0 +1,206 @@
+import { getMonitoringStatus, startOrderMonitoring, stopOrderMonitoring } from './scraper';
+import { applyPortalStatus, saveScrapedOrder } from './orderStore';
+import { getMonitorStateSnapshot, MonitorState, MonitorTransition } from './monitorState';
+import { getStoreCredentials, toStoreSummary } from './stores';
+import { prisma } from './prisma';
+import { autoPrintOrder } from './printer';
+
+// Runs order monitoring as background jobs owned by the server process
+// rather than by the request that started them, one job per store. The job
+// records live on globalThis so they survive hot reloads of the API routes.
+
+interface MonitorJob {
+  storeId: string;
+  startedAt: Date | null;
+  lastPollAt: Date | null;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  // The detached monitoring loop; settles when monitoring stops
+  loop: Promise<void> | null;
+}
+
+export interface MonitorJobStatus {
+  store: ReturnType<typeof toStoreSummary>;
+  running: boolean;
+  state: MonitorState;
+  stateSince: string;
+  stateReason: string;
+  // Most recent last
+  transitions: MonitorTransition[];
+  startedAt: string | null;
+  lastPollAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+export type MonitorStartResult =
+  | { success: true; existing: boolean; status: MonitorJobStatus | null }
+  | { success: false; error: string; status: MonitorJobStatus | null };
+
+const globalForWorker = globalThis as unknown as { monitorJobs?: Map<string, MonitorJob> };
+
+function getJob(storeId: string): MonitorJob {
+  if (!globalForWorker.monitorJobs) {
+    globalForWorker.monitorJobs = new Map();
+  }
+
+  let job = globalForWorker.monitorJobs.get(storeId);
+  if (!job) {
+    job = {
+      storeId,
+      startedAt: null,
+      lastPollAt: null,
+      lastError: null,
+      lastErrorAt: null,
+      loop: null
+    };
+    globalForWorker.monitorJobs.set(storeId, job);
+  }
+  return job;
+}
+
+function recordError(job: MonitorJob, error: unknown) {
+  job.lastError = error instanceof Error ? error.message : String(error);
+  job.lastErrorAt = new Date();
+}
+
+export async function getMonitorJobStatus(storeId: string): Promise<MonitorJobStatus | null> {
+  const store = await prisma.store.findUnique({ where: { id: storeId } });
+  if (!store) {
+    return null;
+  }
+
+  const job = getJob(storeId);
+  const { state, since, reason, transitions } = getMonitorStateSnapshot(storeId);
+  return {
+    store: toStoreSummary(store),
+    running: await getMonitoringStatus(storeId),
+    state,
+    stateSince: since,
+    stateReason: reason,
+    transitions,
+    startedAt: job.startedAt?.toISOString() ?? null,
+    lastPollAt: job.lastPollAt?.toISOString() ?? null,
+    lastError: job.lastError,
+    lastErrorAt: job.lastErrorAt?.toISOString() ?? null
+  };
+}
+
+// Status of every known store, monitored or not
+export async function listMonitorJobStatuses(): Promise<MonitorJobStatus[]> {
+  const stores = await prisma.store.findMany({ orderBy: { createdAt: 'asc' } });
+  const statuses = await Promise.all(stores.map(store => getMonitorJobStatus(store.id)));
+  return statuses.filter((status): status is MonitorJobStatus => status !== null);
+}
+
+/**
+ * Start monitoring a store with its saved portal credentials and resolve as
+ * soon as the portal login has succeeded. The polling loop keeps running in
+ * the background after this returns.
+ */
+export async function startMonitorJob(storeId: string): Promise<MonitorStartResult> {
+  const store = await prisma.store.findUnique({ where: { id: storeId } });
+  if (!store) {
+    return { success: false, error: 'Store not found', status: null };
+  }
+  const job = getJob(store.id);
+
+  if (await getMonitoringStatus(store.id)) {
+    return { success: true, existing: true, status: await getMonitorJobStatus(store.id) };
+  }
+
+  // Fail fast on a missing or undecryptable password rather than in the browser
+  try {
+    await getStoreCredentials(store.id);
+  } catch (error) {
+    recordError(job, error);
+    return { success: false, error: job.lastError ?? 'Portal credentials unavailable', status: await getMonitorJobStatus(store.id) };
+  }
+
+  job.startedAt = new Date();
+  job.lastPollAt = null;
+  job.lastError = null;
+  job.lastErrorAt = null;
+
+  console.log(`Starting monitor job for store ${store.id} (${store.accountEmail})`);
+
+  const loginResult = await new Promise<{ success: true; existing: boolean } | { success: false; error: string }>(resolve => {
+    let loggedIn = false;
+
+    job.loop = startOrderMonitoring(store.id, () => getStoreCredentials(store.id), {
+      onNewOrders: async (newOrders) => {
+        console.log('Received new orders to store:', newOrders.map(order => order.orderId));
+        for (const order of newOrders) {
+          try {
+            if (await saveScrapedOrder(order, store.id)) {
+              await autoPrintOrder(order.orderId);
+            }
+          } catch (orderError) {
+            console.error('Error processing individual order:', order.orderId, orderError);
+            recordError(job, orderError);
+          }
+        }
+      },
+      onStatusChange: async (orderId, status) => {
+        try {
+          await applyPortalStatus(orderId, status);
+        } catch (error) {
+          console.error('Error recording status change:', orderId, error);
+          recordError(job, error);
+        }
+      },
+      onLoggedIn: () => {
+        loggedIn = true;
+        resolve({ success: true, existing: false });
+      },
+      onPoll: () => {
+        job.lastPollAt = new Date();
+      },
+      onError: (error) => recordError(job, error)
+    }).then(result => {
+      if (!loggedIn) {
+        // The loop ended before login finished: either login failed, or a
+        // window from an earlier start was already open
+        if (result.success) {
+          resolve({ success: true, existing: result.existing });
+        } else {
+          resolve({ success: false, error: result.error || job.lastError || 'Failed to start monitoring' });
+        }
+      }
+      console.log(`Monitor job loop for store ${store.id} finished`);
+    }, error => {
+      recordError(job, error);
+      if (!loggedIn) {
+        resolve({ success: false, error: job.lastError || 'Failed to start monitoring' });
+      }
+    }).finally(() => {
+      job.loop = null;
+    });
+  });
+
+  if (!loginResult.success) {
+    job.startedAt = null;
+    return { success: false, error: loginResult.error, status: await getMonitorJobStatus(store.id) };
+  }
+
+  return { success: true, existing: loginResult.existing, status: await getMonitorJobStatus(store.id) };
+}
+
+export async function stopMonitorJob(storeId: string, reason = 'Stop requested'): Promise<MonitorJobStatus | null> {
+  const job = getJob(storeId);
+  console.log(`Stopping monitor job for store ${storeId}`);
+
+  await stopOrderMonitoring(storeId, 'stopped', reason);
+  // Let the loop notice and unwind before reporting back
+  if (job.loop) {
+    await Promise.race([job.loop, new Promise(resolve => setTimeout(resolve, 10000))]);
+  }
+
+  job.startedAt = null;
+  return getMonitorJobStatus(storeId);
+}
+
+export async function restartMonitorJob(storeId: string): Promise<MonitorStartResult> {
+  await stopMonitorJob(storeId, 'Restart requested');
+  return startMonitorJob(storeId);
+}
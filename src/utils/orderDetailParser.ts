@@ -0,0 +1,298 @@
+import { parseHTML } from 'linkedom';
+
+export interface OrderLineItem {
+  name: string;
+  options: string[];
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+export interface DetailedOrder {
+  orderId: string;
+  orderTime: string;
+  status: string;
+  totalAmount: number;
+  deliveryTime: string;
+  paymentMethod: string;
+  visitCount: string;
+  customerName: string;
+  customerPhone: string;
+  receiptName: string;
+  waitingTime: string;
+  address: string;
+  items: string;
+  lineItems: OrderLineItem[];
+  notes: string;
+  // Shop the order was placed with, from the 店舗： line of the items section
+  storeName: string;
+}
+
+export interface ParseWarning {
+  field: keyof DetailedOrder;
+  message: string;
+}
+
+export interface ParsedOrderDetail {
+  order: DetailedOrder;
+  warnings: ParseWarning[];
+}
+
+const UTENSILS_LABEL = '箸、スプーン、おしぼり等／Utensils';
+const UTENSILS_MARKERS = [UTENSILS_LABEL, '箸、スプーン、おしぼり等', 'Utensils'];
+const ITEMS_LABELS = ['商品情報', '注文商品'];
+const AMOUNT_PATTERN = /[¥￥]([0-9,]+)/;
+
+// Whether the customer asked for utensils, going by an order's items text
+export function mentionsUtensils(text: string): boolean {
+  return UTENSILS_MARKERS.some(marker => text.includes(marker));
+}
+
+// Trim every line and drop blank ones, keeping line breaks so that
+// "店舗：..." style lines can still be picked out of the items text
+function cleanText(text: string | null | undefined): string {
+  return (text || '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function findValueByLabel(document: Document, labelText: string): string | null {
+  // dl/dt/dd structure
+  for (const dl of document.querySelectorAll('dl')) {
+    const dt = dl.querySelector('dt');
+    const dd = dl.querySelector('dd');
+    if (dt?.textContent?.includes(labelText) && dd) {
+      return cleanText(dd.textContent);
+    }
+  }
+
+  // Table rows with the label in one cell and the value in the next
+  for (const cell of document.querySelectorAll('table td, table th')) {
+    if (cell.textContent?.includes(labelText) && cell.nextElementSibling) {
+      return cleanText(cell.nextElementSibling.textContent);
+    }
+  }
+
+  // Loose dt followed by dd
+  for (const dt of document.querySelectorAll('dt')) {
+    const next = dt.nextElementSibling;
+    if (dt.textContent?.includes(labelText) && next?.tagName.toLowerCase() === 'dd') {
+      return cleanText(next.textContent);
+    }
+  }
+
+  return null;
+}
+
+function parseAmount(text: string | null | undefined): number | null {
+  const match = (text || '').match(AMOUNT_PATTERN);
+  return match ? parseInt(match[1].replace(/,/g, ''), 10) : null;
+}
+
+// Rows of the items table: name (with options underneath), quantity, unit price, line total
+function parseLineItems(table: Element, warnings: ParseWarning[]): OrderLineItem[] {
+  const body = table.querySelector('tbody') || table;
+  const lineItems: OrderLineItem[] = [];
+
+  Array.from(body.querySelectorAll('tr')).forEach((row, index) => {
+    const cells = Array.from(row.querySelectorAll('td'));
+    if (cells.length < 2) {
+      return;
+    }
+
+    const [nameCell, quantityCell, unitPriceCell, lineTotalCell] = cells;
+    const nameElement = nameCell.querySelector('.itemName');
+    const optionElements = Array.from(nameCell.querySelectorAll('.itemOptions li'));
+
+    // Without the usual markup, the first line is the name and the rest are options
+    const nameLines = cleanText(nameCell.textContent).split('\n');
+    const name = nameElement ? cleanText(nameElement.textContent) : nameLines[0] || '';
+    const options = optionElements.length > 0 || nameElement
+      ? optionElements.map(option => cleanText(option.textContent)).filter(Boolean)
+      : nameLines.slice(1);
+
+    if (!name) {
+      warnings.push({ field: 'lineItems', message: `Row ${index + 1} has no item name` });
+      return;
+    }
+
+    const quantity = parseInt(cleanText(quantityCell?.textContent).replace(/[^0-9]/g, ''), 10);
+    if (isNaN(quantity)) {
+      warnings.push({ field: 'lineItems', message: `No quantity for ${name}; assuming 1` });
+    }
+    const unitPrice = parseAmount(unitPriceCell?.textContent);
+    const lineTotal = parseAmount(lineTotalCell?.textContent);
+    if (unitPrice === null && lineTotal === null) {
+      warnings.push({ field: 'lineItems', message: `No price for ${name}` });
+    }
+
+    const itemQuantity = isNaN(quantity) ? 1 : quantity;
+    lineItems.push({
+      name,
+      options,
+      quantity: itemQuantity,
+      unitPrice: unitPrice ?? (lineTotal !== null ? lineTotal / itemQuantity : 0),
+      lineTotal: lineTotal ?? (unitPrice !== null ? unitPrice * itemQuantity : 0)
+    });
+  });
+
+  return lineItems;
+}
+
+function findFieldset(document: Document, labels: string[]): Element | undefined {
+  return Array.from(document.querySelectorAll('fieldset')).find(fieldset => {
+    const legend = fieldset.querySelector('legend')?.textContent || fieldset.textContent || '';
+    return labels.some(label => legend.includes(label));
+  });
+}
+
+function formatDateTime(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  const seconds = String(date.getSeconds()).padStart(2, '0');
+  return `${year}/${month}/${day} ${hours}:${minutes}:${seconds}`;
+}
+
+/**
+ * Parse an order detail page from the partner portal.
+ *
+ * Works on raw HTML (from `page.content()` or a saved fixture), so it can be
+ * exercised without a browser. `status` comes from the order list row since
+ * the detail page does not show it. Fields that cannot be found are returned
+ * empty and reported in `warnings`.
+ */
+export function parseOrderDetail(html: string, status = ''): ParsedOrderDetail {
+  const { document } = parseHTML(html);
+  const warnings: ParseWarning[] = [];
+
+  const labelValue = (field: keyof DetailedOrder, ...labels: string[]): string => {
+    for (const label of labels) {
+      const value = findValueByLabel(document, label);
+      if (value !== null) {
+        return value;
+      }
+    }
+    warnings.push({ field, message: `Label not found: ${labels.join(' / ')}` });
+    return '';
+  };
+
+  const itemsFieldset = findFieldset(document, ITEMS_LABELS);
+
+  // Total: the last 合計 inside the items section, else the innermost 合計 anywhere
+  let totalAmount = 0;
+  const totalCandidates = itemsFieldset
+    ? Array.from(itemsFieldset.querySelectorAll('div'))
+    : [];
+  const totalElement = totalCandidates.reverse().find(el =>
+    el.textContent?.includes('合計') && AMOUNT_PATTERN.test(el.textContent)
+  ) || Array.from(document.querySelectorAll('body *')).reverse().find(el =>
+    el.textContent?.includes('合計') && AMOUNT_PATTERN.test(el.textContent)
+  );
+  const parsedTotal = parseAmount(totalElement?.textContent);
+  if (parsedTotal !== null) {
+    totalAmount = parsedTotal;
+    if (!itemsFieldset) {
+      warnings.push({ field: 'totalAmount', message: 'Items section not found; 合計 taken from elsewhere on the page' });
+    }
+  } else {
+    warnings.push({ field: 'totalAmount', message: '合計 amount not found' });
+  }
+
+  // Notes from the 備考 fieldset, else a 備考 label
+  let notes = '';
+  const remarkFieldset = findFieldset(document, ['備考']);
+  if (remarkFieldset) {
+    notes = cleanText(remarkFieldset.textContent).replace('備考', '').trim();
+  } else {
+    const remark = findValueByLabel(document, '備考');
+    if (remark !== null) {
+      notes = remark;
+    } else {
+      warnings.push({ field: 'notes', message: '備考 section not found' });
+    }
+  }
+
+  // Items text from the items section, else an items label
+  let items = '';
+  if (itemsFieldset) {
+    items = cleanText(itemsFieldset.textContent);
+    for (const label of ITEMS_LABELS) {
+      items = items.replace(label, '');
+    }
+    items = items.trim();
+  } else {
+    items = ITEMS_LABELS.map(label => findValueByLabel(document, label)).find(value => value) || '';
+    if (!items) {
+      warnings.push({ field: 'items', message: 'Items section not found' });
+    }
+  }
+
+  const itemTable = document.querySelector('table.orderItemList');
+  let lineItems: OrderLineItem[] = [];
+  if (itemTable) {
+    lineItems = parseLineItems(itemTable, warnings);
+  } else {
+    warnings.push({ field: 'lineItems', message: 'Item table (table.orderItemList) not found' });
+  }
+
+  // Utensils are usually a line in the items table but can appear elsewhere
+  const itemTableText = itemTable?.textContent || '';
+  const pageText = document.body?.textContent || '';
+  const hasUtensils = mentionsUtensils(itemTableText) || mentionsUtensils(pageText);
+  if (hasUtensils && !items.includes(UTENSILS_LABEL)) {
+    items = `${items}\n${UTENSILS_LABEL}`.trim();
+  }
+
+  const storeMatch = items.match(/店舗：(.+?)(?:\n|$)/);
+  const storeName = storeMatch ? storeMatch[1].trim() : '';
+
+  const rawOrderTime = labelValue('orderTime', '注文日時');
+  let orderTime = rawOrderTime;
+  if (rawOrderTime && !rawOrderTime.includes('/')) {
+    const date = new Date(rawOrderTime);
+    if (isNaN(date.getTime())) {
+      warnings.push({ field: 'orderTime', message: `Unrecognised date: ${rawOrderTime}` });
+    } else {
+      orderTime = formatDateTime(date);
+    }
+  }
+
+  const rawDeliveryTime = labelValue('deliveryTime', '配達/テイクアウト日時', '配達希望日時');
+  let deliveryTime = rawDeliveryTime;
+  if (rawDeliveryTime) {
+    const date = new Date(rawDeliveryTime);
+    if (isNaN(date.getTime())) {
+      warnings.push({ field: 'deliveryTime', message: `Unrecognised date: ${rawDeliveryTime}` });
+    } else {
+      // Parse the date and subtract 15 hours
+      date.setHours(date.getHours() - 15);
+      deliveryTime = formatDateTime(date);
+    }
+  }
+
+  const order: DetailedOrder = {
+    orderId: labelValue('orderId', '注文ID'),
+    orderTime,
+    deliveryTime,
+    paymentMethod: labelValue('paymentMethod', '支払方法'),
+    visitCount: labelValue('visitCount', '店舗利用回数'),
+    customerName: labelValue('customerName', '注文者氏名'),
+    customerPhone: labelValue('customerPhone', '注文者電話番号'),
+    receiptName: labelValue('receiptName', '領収書宛名'),
+    waitingTime: labelValue('waitingTime', '受付時の待ち時間'),
+    address: labelValue('address', '配達先住所'),
+    items,
+    lineItems,
+    totalAmount,
+    status,
+    notes,
+    storeName
+  };
+
+  return { order, warnings };
+}
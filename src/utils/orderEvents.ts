@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events';
+import type { MonitorState } from './monitorState';
+
+// In-process event bus behind GET /api/orders/stream. Every route bundle and
+// the monitor share one emitter via globalThis, which also survives hot reloads.
+
+export type OrderEventType = 'order.created' | 'order.updated' | 'order.delivered';
+
+export type OrderStreamEvent =
+  | { type: OrderEventType; orderId: string; at: string }
+  | { type: 'monitor.state'; storeId: string; state: MonitorState; reason: string; at: string };
+
+const globalForEvents = globalThis as unknown as { orderEvents?: EventEmitter };
+
+const orderEvents = globalForEvents.orderEvents ?? new EventEmitter();
+// One listener per open dashboard, so no listener limit
+orderEvents.setMaxListeners(0);
+globalForEvents.orderEvents = orderEvents;
+
+export function publishOrderEvent(type: OrderEventType, orderId: string) {
+  const event: OrderStreamEvent = { type, orderId, at: new Date().toISOString() };
+  orderEvents.emit('event', event);
+}
+
+export function publishMonitorState(storeId: string, state: MonitorState, reason: string) {
+  const event: OrderStreamEvent = { type: 'monitor.state', storeId, state, reason, at: new Date().toISOString() };
+  orderEvents.emit('event', event);
+}
+
+export function subscribeToOrderEvents(listener: (event: OrderStreamEvent) => void): () => void {
+  orderEvents.on('event', listener);
+  return () => {
+    orderEvents.off('event', listener);
+  };
+}
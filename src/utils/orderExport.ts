@@ -0,0 +1,109 @@
+import ExcelJS from 'exceljs';
+import type { Driver, Order, Staff, Store } from '@prisma/client';
+import { getBusinessDate } from './businessDay';
+import { toCsv } from './csv';
+import { stageLabel } from './workflow';
+
+// Orders as a spreadsheet, for CSV or Excel. Both formats share one column
+// list so they always carry the same fields in the same order.
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx'];
+
+export type ExportOrder = Order & {
+  store: Pick<Store, 'name' | 'accountEmail'> | null;
+  driver: Pick<Driver, 'name'> | null;
+  updatedByStaff: Pick<Staff, 'name'> | null;
+};
+
+type CellValue = string | number | boolean | Date | null;
+
+interface ExportColumn {
+  header: string;
+  width: number;
+  // Timestamps, formatted as dates in Excel
+  isDate?: boolean;
+  value: (order: ExportOrder) => CellValue;
+}
+
+const COLUMNS: ExportColumn[] = [
+  { header: 'Order ID', width: 16, value: order => order.orderId },
+  { header: 'Business date', width: 12, value: order => getBusinessDate(order.orderTime) },
+  { header: 'Store', width: 20, value: order => order.store ? order.store.name || order.store.accountEmail : '' },
+  { header: 'Order time', width: 20, isDate: true, value: order => order.orderTime },
+  { header: 'Delivery time', width: 20, value: order => order.deliveryTime },
+  { header: 'Waiting time', width: 10, value: order => order.waitingTime },
+  { header: 'Reserved', width: 9, value: order => order.waitingTime === '-分' },
+  { header: 'Portal status', width: 14, value: order => order.status },
+  { header: 'Stage', width: 16, value: order => stageLabel(order.stage) },
+  { header: 'Payment method', width: 18, value: order => order.paymentMethod },
+  { header: 'Total', width: 10, value: order => order.totalAmount },
+  { header: 'Items', width: 40, value: order => order.items },
+  { header: 'Notes', width: 30, value: order => order.notes && order.notes !== '-' ? order.notes : '' },
+  { header: 'Visit count', width: 10, value: order => order.visitCount },
+  { header: 'Customer name', width: 16, value: order => order.customerName },
+  { header: 'Customer phone', width: 14, value: order => order.customerPhone },
+  { header: 'Address', width: 40, value: order => order.address },
+  { header: 'Receipt name', width: 16, value: order => order.receiptName },
+  { header: 'Driver', width: 14, value: order => order.driver?.name ?? '' },
+  { header: 'Assigned at', width: 20, isDate: true, value: order => order.assignedAt },
+  { header: 'Cooking at', width: 20, isDate: true, value: order => order.cookingAt },
+  { header: 'Ready at', width: 20, isDate: true, value: order => order.readyAt },
+  { header: 'Out for delivery at', width: 20, isDate: true, value: order => order.outForDeliveryAt },
+  { header: 'Delivered at', width: 20, isDate: true, value: order => order.deliveredAt },
+  { header: 'Cancelled at', width: 20, isDate: true, value: order => order.cancelledAt },
+  { header: 'Stage changed at', width: 20, isDate: true, value: order => order.stageChangedAt },
+  { header: 'Last changed by', width: 14, value: order => order.updatedByStaff?.name ?? '' },
+  { header: 'Hidden', width: 8, value: order => !order.isActive },
+  { header: 'First seen at', width: 20, isDate: true, value: order => order.createdAt },
+  { header: 'Updated at', width: 20, isDate: true, value: order => order.updatedAt }
+];
+
+// Timestamps read in Japan time, the way the portal shows them
+function formatJstDateTime(date: Date): string {
+  return new Date(date.getTime() + JST_OFFSET_MS).toISOString().slice(0, 19).replace('T', ' ').replace(/-/g, '/');
+}
+
+function csvText(value: CellValue): string {
+  if (value === null) {
+    return '';
+  }
+  return value instanceof Date ? formatJstDateTime(value) : String(value);
+}
+
+// UTF-8 with a byte order mark, which Excel needs to read Japanese text
+// correctly
+export function ordersToCsv(orders: ExportOrder[]): string {
+  return `\ufeff${toCsv([
+    COLUMNS.map(column => column.header),
+    ...orders.map(order => COLUMNS.map(column => csvText(column.value(order))))
+  ])}`;
+}
+
+export async function ordersToXlsx(orders: ExportOrder[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'demae-robokun';
+  const sheet = workbook.addWorksheet('Orders', { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = COLUMNS.map(column => ({ header: column.header, width: column.width }));
+  sheet.getRow(1).font = { bold: true };
+
+  for (const order of orders) {
+    // Excel dates have no time zone, so they are written as Japan time
+    sheet.addRow(COLUMNS.map(column => {
+      const value = column.value(order);
+      return value instanceof Date ? new Date(value.getTime() + JST_OFFSET_MS) : value;
+    }));
+  }
+  COLUMNS.forEach((column, index) => {
+    if (column.isDate) {
+      sheet.getColumn(index + 1).numFmt = 'yyyy/mm/dd hh:mm:ss';
+    }
+  });
+  sheet.getColumn(COLUMNS.findIndex(column => column.header === 'Total') + 1).numFmt = '#,##0';
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: COLUMNS.length } };
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,179 @@
+import type { OrderRule } from '@prisma/client';
+import { prisma } from './prisma';
+import {
+  OrderRuleConfig,
+  RULE_BORDER_STYLES,
+  RULE_COLORS,
+  RULE_FIELDS,
+  RULE_MATCH_TYPES,
+  RULE_PRINTER_ACTIONS,
+  RULE_SOUNDS,
+  checkRulePattern
+} from './orderRules';
+
+const MAX_PATTERN_LENGTH = 1000;
+const MAX_LABEL_LENGTH = 30;
+
+// Set once the default rules have been put in place
+const RULES_SEEDED_KEY = 'orderRulesSeeded';
+
+// The badges the dashboard always had, put in place when the server first
+// starts so nothing changes until someone edits them
+const DEFAULT_RULES: Omit<OrderRuleConfig, 'id'>[] = [
+  {
+    name: 'Reservation',
+    field: 'waitingTime',
+    matchType: 'equals',
+    pattern: '-分',
+    badgeLabel: 'Reserved',
+    color: 'blue',
+    borderStyle: 'solid',
+    sound: 'none',
+    printerAction: 'none'
+  },
+  {
+    name: 'Utensils requested',
+    field: 'items',
+    matchType: 'keywords',
+    pattern: '箸、スプーン、おしぼり等\nUtensils',
+    badgeLabel: 'Utensils',
+    color: 'green',
+    borderStyle: 'none',
+    sound: 'none',
+    printerAction: 'none'
+  },
+  {
+    name: 'Lassi in the notes',
+    field: 'notes',
+    matchType: 'regex',
+    pattern: 'lassi|lissa|lassy',
+    badgeLabel: 'Lassi',
+    color: 'yellow',
+    borderStyle: 'none',
+    sound: 'none',
+    printerAction: 'none'
+  },
+  {
+    name: 'Receipt requested',
+    field: 'receiptName',
+    matchType: 'present',
+    pattern: '',
+    badgeLabel: 'Receipt',
+    color: 'red',
+    borderStyle: 'solid',
+    sound: 'none',
+    printerAction: 'none'
+  },
+  {
+    name: 'Cash on delivery',
+    field: 'paymentMethod',
+    matchType: 'equals',
+    pattern: '着払い\n代金引換',
+    badgeLabel: 'Cash',
+    color: 'red',
+    borderStyle: 'solid',
+    sound: 'none',
+    printerAction: 'none'
+  }
+];
+
+export function toRuleSummary(rule: OrderRule) {
+  return {
+    id: rule.id,
+    name: rule.name,
+    field: rule.field,
+    matchType: rule.matchType,
+    pattern: rule.pattern,
+    badgeLabel: rule.badgeLabel,
+    color: rule.color,
+    borderStyle: rule.borderStyle,
+    sound: rule.sound,
+    printerAction: rule.printerAction,
+    position: rule.position,
+    active: rule.active
+  };
+}
+
+// Add the default rules, once per database. Runs at startup (see
+// instrumentation.ts); removing the rules later doesn't bring them back.
+export async function seedDefaultRules() {
+  await prisma.$transaction(async tx => {
+    if (await tx.appSetting.findUnique({ where: { key: RULES_SEEDED_KEY } })) {
+      return;
+    }
+    await tx.appSetting.create({ data: { key: RULES_SEEDED_KEY, value: new Date().toISOString() } });
+    // Rules may already be there from before the marker was kept
+    if (await tx.orderRule.count() > 0) {
+      return;
+    }
+    await tx.orderRule.createMany({
+      data: DEFAULT_RULES.map((rule, position) => ({ ...rule, position }))
+    });
+    console.log('Created the default badge rules');
+  });
+}
+
+// Every rule in the order they apply
+export async function getRules(): Promise<OrderRule[]> {
+  return prisma.orderRule.findMany({ orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] });
+}
+
+// The rules that are switched on, ready to evaluate. Stored values the
+// editor no longer offers are skipped rather than guessed at.
+export async function getActiveRules(): Promise<OrderRuleConfig[]> {
+  return (await getRules())
+    .filter(rule => rule.active && checkRuleSettings(rule) === null)
+    .map(rule => toRuleSummary(rule) as OrderRuleConfig);
+}
+
+const isOneOf = (values: string[], value: unknown) => typeof value === 'string' && values.includes(value);
+
+// Why a rule from a request can't be saved, or null if it can
+export function checkRuleSettings(settings: {
+  name?: unknown;
+  field?: unknown;
+  matchType?: unknown;
+  pattern?: unknown;
+  badgeLabel?: unknown;
+  color?: unknown;
+  borderStyle?: unknown;
+  sound?: unknown;
+  printerAction?: unknown;
+}): string | null {
+  const { name, field, matchType, pattern, badgeLabel, color, borderStyle, sound, printerAction } = settings;
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Name is required';
+  }
+  if (!isOneOf(RULE_FIELDS, field)) {
+    return `field must be one of ${RULE_FIELDS.join(', ')}`;
+  }
+  if (!isOneOf(RULE_MATCH_TYPES, matchType)) {
+    return `matchType must be one of ${RULE_MATCH_TYPES.join(', ')}`;
+  }
+  if (typeof pattern !== 'string' || pattern.length > MAX_PATTERN_LENGTH) {
+    return `The match can be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  const patternError = checkRulePattern(matchType as OrderRuleConfig['matchType'], pattern);
+  if (patternError) {
+    return patternError;
+  }
+  if (typeof badgeLabel !== 'string' || badgeLabel.trim().length > MAX_LABEL_LENGTH) {
+    return `The badge can be at most ${MAX_LABEL_LENGTH} characters`;
+  }
+  if (!isOneOf(RULE_COLORS, color)) {
+    return `color must be one of ${RULE_COLORS.join(', ')}`;
+  }
+  if (!isOneOf(RULE_BORDER_STYLES, borderStyle)) {
+    return `borderStyle must be one of ${RULE_BORDER_STYLES.join(', ')}`;
+  }
+  if (!isOneOf(RULE_SOUNDS, sound)) {
+    return `sound must be one of ${RULE_SOUNDS.join(', ')}`;
+  }
+  if (!isOneOf(RULE_PRINTER_ACTIONS, printerAction)) {
+    return `printerAction must be one of ${RULE_PRINTER_ACTIONS.join(', ')}`;
+  }
+  if (!badgeLabel.trim() && borderStyle === 'none' && sound === 'none' && printerAction === 'none') {
+    return 'The rule needs a badge, border, sound or printer action';
+  }
+  return null;
+}
@@ -0,0 +1,220 @@
+// Rules that pick out orders for attention: each one looks for keywords or
+// a pattern in one field of an order, and a match can put a badge on the
+// order card, highlight its border, play a sound when it comes in and flag
+// it on the kitchen ticket. Rules are kept in the database (see
+// utils/orderRuleStore.ts); this file is shared by the API and the pages.
+
+export type RuleField =
+  | 'notes'
+  | 'items'
+  | 'paymentMethod'
+  | 'receiptName'
+  | 'waitingTime'
+  | 'deliveryTime'
+  | 'address'
+  | 'status'
+  | 'visitCount';
+
+export const RULE_FIELDS: RuleField[] = [
+  'notes',
+  'items',
+  'paymentMethod',
+  'receiptName',
+  'waitingTime',
+  'deliveryTime',
+  'address',
+  'status',
+  'visitCount'
+];
+
+export const RULE_FIELD_LABELS: Record<RuleField, string> = {
+  notes: 'Notes',
+  items: 'Items and options',
+  paymentMethod: 'Payment method',
+  receiptName: 'Receipt name',
+  waitingTime: 'Waiting time',
+  deliveryTime: 'Delivery time',
+  address: 'Address',
+  status: 'Portal status',
+  visitCount: 'Visit count'
+};
+
+export type RuleMatchType = 'keywords' | 'regex' | 'equals' | 'present';
+
+export const RULE_MATCH_TYPES: RuleMatchType[] = ['keywords', 'regex', 'equals', 'present'];
+
+export const RULE_MATCH_TYPE_LABELS: Record<RuleMatchType, string> = {
+  keywords: 'Contains any of',
+  regex: 'Matches regex',
+  equals: 'Is exactly one of',
+  present: 'Is filled in'
+};
+
+export type RuleColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'purple' | 'pink';
+
+export const RULE_COLORS: RuleColor[] = ['gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'purple', 'pink'];
+
+// Tailwind's 100 / 600 / 300 shades, for the badge and the border
+export const RULE_COLOR_VALUES: Record<RuleColor, { background: string; text: string; border: string }> = {
+  gray: { background: '#f3f4f6', text: '#4b5563', border: '#d1d5db' },
+  red: { background: '#fee2e2', text: '#dc2626', border: '#fca5a5' },
+  orange: { background: '#ffedd5', text: '#ea580c', border: '#fdba74' },
+  yellow: { background: '#fef9c3', text: '#ca8a04', border: '#fde047' },
+  green: { background: '#dcfce7', text: '#16a34a', border: '#86efac' },
+  teal: { background: '#ccfbf1', text: '#0d9488', border: '#5eead4' },
+  blue: { background: '#dbeafe', text: '#2563eb', border: '#93c5fd' },
+  purple: { background: '#f3e8ff', text: '#9333ea', border: '#d8b4fe' },
+  pink: { background: '#fce7f3', text: '#db2777', border: '#f9a8d4' }
+};
+
+export type RuleBorderStyle = 'none' | 'solid' | 'dashed' | 'double';
+
+export const RULE_BORDER_STYLES: RuleBorderStyle[] = ['none', 'solid', 'dashed', 'double'];
+
+export type RuleSound = 'none' | 'chime' | 'alert' | 'bell';
+
+export const RULE_SOUNDS: RuleSound[] = ['none', 'chime', 'alert', 'bell'];
+
+export type RulePrinterAction = 'none' | 'ticketLine' | 'extraCopy';
+
+export const RULE_PRINTER_ACTIONS: RulePrinterAction[] = ['none', 'ticketLine', 'extraCopy'];
+
+export const RULE_PRINTER_ACTION_LABELS: Record<RulePrinterAction, string> = {
+  none: 'Nothing',
+  ticketLine: 'Print the badge on the kitchen ticket',
+  extraCopy: 'Print an extra copy of the ticket'
+};
+
+export interface OrderRuleConfig {
+  id: string;
+  name: string;
+  field: RuleField;
+  matchType: RuleMatchType;
+  // Keywords one per line (or comma-separated), values for equals, or a regex
+  pattern: string;
+  // Empty for no badge
+  badgeLabel: string;
+  color: RuleColor;
+  borderStyle: RuleBorderStyle;
+  sound: RuleSound;
+  printerAction: RulePrinterAction;
+}
+
+// The parts of an order rules can look at
+export interface RuleOrder {
+  notes: string | null;
+  items: string;
+  paymentMethod: string;
+  receiptName: string | null;
+  waitingTime: string | null;
+  deliveryTime: string;
+  address: string;
+  status: string;
+  visitCount: string;
+  lineItems?: { name: string; options: string }[];
+}
+
+export interface OrderHighlights {
+  badges: { ruleId: string; label: string; color: RuleColor }[];
+  // The first matching rule with a border style outlines the card; a second
+  // in another colour draws a ring outside it
+  border: { color: RuleColor; style: Exclude<RuleBorderStyle, 'none'> } | null;
+  outline: { color: RuleColor; style: Exclude<RuleBorderStyle, 'none'> } | null;
+  // Colour of the first matching rule with a badge or border on each field,
+  // for colouring that field's value on the card
+  fieldColors: Partial<Record<RuleField, RuleColor>>;
+  sounds: RuleSound[];
+  // Badge labels to print on the kitchen ticket
+  ticketLines: string[];
+  extraCopies: number;
+}
+
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase();
+
+function splitValues(pattern: string): string[] {
+  return pattern.split(/[\n,]/).map(value => value.trim()).filter(Boolean);
+}
+
+// Why a rule's match can't be used, or null if it can
+export function checkRulePattern(matchType: RuleMatchType, pattern: string): string | null {
+  if (matchType === 'present') {
+    return null;
+  }
+  if (matchType === 'regex') {
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      return 'The regex is not valid';
+    }
+    return pattern ? null : 'Enter a regex';
+  }
+  return splitValues(pattern).length > 0 ? null : 'Enter at least one keyword';
+}
+
+function fieldText(order: RuleOrder, field: RuleField): string {
+  if (field === 'items') {
+    // Line items carry options the raw items text may not
+    return [order.items, ...(order.lineItems ?? []).flatMap(item => [item.name, item.options])].join('\n');
+  }
+  return order[field] ?? '';
+}
+
+export function ruleMatches(rule: Pick<OrderRuleConfig, 'field' | 'matchType' | 'pattern'>, order: RuleOrder): boolean {
+  const text = fieldText(order, rule.field);
+  switch (rule.matchType) {
+    case 'present':
+      // The portal fills empty fields with a dash
+      return text.trim() !== '' && text.trim() !== '-';
+    case 'equals':
+      return splitValues(rule.pattern).some(value => normalize(value) === normalize(text.trim()));
+    case 'keywords':
+      return splitValues(rule.pattern).some(keyword => normalize(text).includes(normalize(keyword)));
+    case 'regex':
+      try {
+        return new RegExp(rule.pattern, 'i').test(text);
+      } catch {
+        return false;
+      }
+  }
+}
+
+// Everything the rules, in order, do to one order
+export function evaluateRules(rules: OrderRuleConfig[], order: RuleOrder): OrderHighlights {
+  const highlights: OrderHighlights = {
+    badges: [],
+    border: null,
+    outline: null,
+    fieldColors: {},
+    sounds: [],
+    ticketLines: [],
+    extraCopies: 0
+  };
+
+  for (const rule of rules) {
+    if (!ruleMatches(rule, order)) {
+      continue;
+    }
+    if (rule.badgeLabel) {
+      highlights.badges.push({ ruleId: rule.id, label: rule.badgeLabel, color: rule.color });
+    }
+    if (rule.badgeLabel || rule.borderStyle !== 'none') {
+      highlights.fieldColors[rule.field] ??= rule.color;
+    }
+    if (rule.borderStyle !== 'none') {
+      if (!highlights.border) {
+        highlights.border = { color: rule.color, style: rule.borderStyle };
+      } else if (!highlights.outline && highlights.border.color !== rule.color) {
+        highlights.outline = { color: rule.color, style: rule.borderStyle };
+      }
+    }
+    if (rule.sound !== 'none' && !highlights.sounds.includes(rule.sound)) {
+      highlights.sounds.push(rule.sound);
+    }
+    if (rule.printerAction === 'ticketLine') {
+      highlights.ticketLines.push(`★ ${rule.badgeLabel || rule.name}`);
+    } else if (rule.printerAction === 'extraCopy') {
+      highlights.extraCopies += 1;
+    }
+  }
+  return highlights;
+}
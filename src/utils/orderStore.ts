@@ -0,0 +1,169 @@
+import { prisma } from './prisma';
+import { DetailedOrder, OrderLineItem } from './orderDetailParser';
+import { parsePortalDateTime } from './businessDay';
+import { publishOrderEvent } from './orderEvents';
+import { recordStoreName } from './stores';
+import { linkCustomer } from './customers';
+import { queueTranslation } from './translation';
+import { OrderStage, stageTimestampUpdates } from './workflow';
+
+// Writes scraped portal data into the database. Used by both the monitor
+// worker and the one-shot scrape in POST /api/orders.
+
+// Update an order's portal status and record the transition
+export async function applyPortalStatus(orderId: string, status: string) {
+  const existingOrder = await prisma.order.findUnique({ where: { orderId } });
+  if (!existingOrder || existingOrder.status === status) {
+    return;
+  }
+
+  await prisma.$transaction([
+    prisma.order.update({
+      where: { orderId },
+      data: { status }
+    }),
+    prisma.orderStatusEvent.create({
+      data: { orderId, fromStatus: existingOrder.status, toStatus: status, source: 'portal' }
+    })
+  ]);
+  console.log(`Recorded portal status change for ${orderId}: ${existingOrder.status} -> ${status}`);
+  publishOrderEvent('order.updated', orderId);
+}
+
+// Move an order to a workflow stage, stamping the time and recording who did
+// it. Callers check the move is allowed (see utils/workflow.ts).
+export async function applyStageTransition(orderId: string, fromStage: string, to: OrderStage, staffId: string): Promise<boolean> {
+  const now = new Date();
+  // Only if the order is still where the caller saw it, so two staff moving
+  // it at once can't both succeed
+  const moved = await prisma.$transaction(async tx => {
+    const { count } = await tx.order.updateMany({
+      where: { orderId, stage: fromStage },
+      data: {
+        stage: to,
+        stageChangedAt: now,
+        ...stageTimestampUpdates(to, now),
+        updatedByStaffId: staffId
+      }
+    });
+    if (count === 0) {
+      return false;
+    }
+    await tx.orderStatusEvent.create({
+      data: { orderId, fromStatus: fromStage, toStatus: to, source: 'staff', staffId, createdAt: now }
+    });
+    return true;
+  });
+  if (!moved) {
+    return false;
+  }
+  console.log(`Moved order ${orderId}: ${fromStage} -> ${to}`);
+  publishOrderEvent(to === 'delivered' ? 'order.delivered' : 'order.updated', orderId);
+  return true;
+}
+
+// Identifies a line item across re-scrapes, which recreate the rows
+function lineItemKey(position: number, name: string) {
+  return `${position}:${name}`;
+}
+
+// Nested create for an order's scraped line items. preparedAt carries the
+// kitchen's check-offs over from the rows being replaced.
+function lineItemsCreate(lineItems: OrderLineItem[] = [], preparedAt = new Map<string, Date | null>()) {
+  return {
+    create: lineItems.map((item, position) => ({
+      position,
+      name: item.name,
+      options: item.options.join('\n'),
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      lineTotal: item.lineTotal,
+      preparedAt: preparedAt.get(lineItemKey(position, item.name)) ?? null
+    }))
+  };
+}
+
+// Insert a scraped order, or refresh the scraped fields of one we already have.
+// Staff-owned fields (workflow stage, isActive) are left alone on refresh.
+// Returns whether the order was new.
+export async function saveScrapedOrder(order: DetailedOrder, storeId: string): Promise<boolean> {
+  await recordStoreName(storeId, order.storeName);
+
+  const orderTime = parsePortalDateTime(order.orderTime);
+  // The order is saved even if linking fails; an existing link is kept and
+  // a new order is linked by the backfill at the next startup
+  const customerId = await linkCustomer({
+    customerPhone: order.customerPhone,
+    customerName: order.customerName,
+    address: order.address,
+    visitCount: order.visitCount,
+    orderTime
+  }).catch(error => {
+    console.error(`Error linking order ${order.orderId} to its customer:`, error);
+    return undefined;
+  });
+
+  const scrapedFields = {
+    storeId,
+    customerId,
+    orderTime,
+    deliveryTime: order.deliveryTime,
+    paymentMethod: order.paymentMethod,
+    visitCount: order.visitCount,
+    customerName: order.customerName,
+    customerPhone: order.customerPhone,
+    items: order.items || '',
+    totalAmount: order.totalAmount,
+    receiptName: order.receiptName,
+    waitingTime: order.waitingTime,
+    address: order.address,
+    notes: order.notes || ''
+  };
+
+  const existingOrder = await prisma.order.findUnique({
+    where: { orderId: order.orderId },
+    include: { lineItems: { select: { position: true, name: true, preparedAt: true } } }
+  });
+
+  if (!existingOrder) {
+    console.log('Creating new order in database:', order.orderId);
+    await prisma.order.create({
+      data: {
+        orderId: order.orderId,
+        ...scrapedFields,
+        status: order.status,
+        isActive: true,
+        lineItems: lineItemsCreate(order.lineItems),
+        statusEvents: {
+          create: { toStatus: order.status, source: 'portal' }
+        }
+      },
+    });
+    publishOrderEvent('order.created', order.orderId);
+    queueTranslation(order.orderId);
+    return true;
+  }
+
+  console.log('Order already exists in database, refreshing:', order.orderId);
+  await prisma.order.update({
+    where: { orderId: order.orderId },
+    data: {
+      ...scrapedFields,
+      lineItems: {
+        deleteMany: {},
+        ...lineItemsCreate(
+          order.lineItems,
+          new Map(existingOrder.lineItems.map(item => [lineItemKey(item.position, item.name), item.preparedAt]))
+        )
+      }
+    }
+  });
+  // The notes or items may have changed
+  queueTranslation(order.orderId);
+  if (existingOrder.status === order.status) {
+    publishOrderEvent('order.updated', order.orderId);
+  }
+  // A status change publishes its own update
+  await applyPortalStatus(order.orderId, order.status);
+  return false;
+}
@@ -0,0 +1,33 @@
+// Payment methods as the portal words them, sorted into the few kinds the
+// shop cares about. The portal's labels vary ("カード払い（注文時に決済）",
+// full-width "Ａｍａｚｏｎ　Ｐａｙ"), so they are matched loosely.
+
+export type PaymentCategory = 'cash' | 'card' | 'amazonPay' | 'other';
+
+export const PAYMENT_CATEGORIES: PaymentCategory[] = ['cash', 'card', 'amazonPay', 'other'];
+
+export const PAYMENT_CATEGORY_LABELS: Record<PaymentCategory, string> = {
+  cash: 'Cash (着払い)',
+  card: 'Card',
+  amazonPay: 'Amazon Pay',
+  other: 'Other'
+};
+
+// Collected by the driver at the door
+export function isCashPayment(paymentMethod: string): boolean {
+  return paymentMethod === '着払い' || paymentMethod === '代金引換';
+}
+
+export function paymentCategory(paymentMethod: string): PaymentCategory {
+  if (isCashPayment(paymentMethod)) {
+    return 'cash';
+  }
+  const normalized = paymentMethod.normalize('NFKC');
+  if (/amazon\s*pay/i.test(normalized)) {
+    return 'amazonPay';
+  }
+  if (/カード|クレジット|card/i.test(normalized)) {
+    return 'card';
+  }
+  return 'other';
+}
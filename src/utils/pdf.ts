@@ -0,0 +1,89 @@
+// Just enough of a PDF writer for one-page documents such as receipts.
+// Japanese text uses the standard HeiseiKakuGo-W5 font, which PDF viewers
+// supply themselves, so no font file has to be embedded. Coordinates are in
+// points from the top-left corner of the page.
+
+// A5 landscape
+export const A5_LANDSCAPE = { width: 595.28, height: 419.53 };
+
+const FONT_NAME = 'HeiseiKakuGo-W5';
+
+type Align = 'left' | 'center' | 'right';
+
+// ASCII and half-width katakana take half the width of other characters
+function isHalfWidth(codePoint: number): boolean {
+  return codePoint < 0x7f || (codePoint >= 0xff61 && codePoint <= 0xff9f);
+}
+
+// Width of a string in points at a font size
+export function textWidth(text: string, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    width += isHalfWidth(char.codePointAt(0)!) ? 0.5 : 1;
+  }
+  return width * size;
+}
+
+// The font's UniJIS-UCS2-H encoding takes UTF-16BE code units
+function hexString(text: string): string {
+  let hex = '';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  }
+  return `<${hex}>`;
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+export function createPdfPage(width: number, height: number) {
+  const operations: string[] = [];
+  const y = (top: number) => formatNumber(height - top);
+
+  return {
+    width,
+    height,
+
+    // Text with its baseline at top
+    text(text: string, x: number, top: number, size: number, align: Align = 'left') {
+      const offset = align === 'left' ? 0 : textWidth(text, size) / (align === 'center' ? 2 : 1);
+      operations.push(`BT /F1 ${formatNumber(size)} Tf ${formatNumber(x - offset)} ${y(top)} Td ${hexString(text)} Tj ET`);
+    },
+
+    line(x1: number, top1: number, x2: number, top2: number, lineWidth = 0.5) {
+      operations.push(`${formatNumber(lineWidth)} w ${formatNumber(x1)} ${y(top1)} m ${formatNumber(x2)} ${y(top2)} l S`);
+    },
+
+    rect(x: number, top: number, rectWidth: number, rectHeight: number, lineWidth = 0.5) {
+      operations.push(`${formatNumber(lineWidth)} w ${formatNumber(x)} ${y(top + rectHeight)} ${formatNumber(rectWidth)} ${formatNumber(rectHeight)} re S`);
+    },
+
+    // The finished single-page document
+    toBuffer(title: string): Buffer {
+      const content = operations.join('\n');
+      const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(width)} ${formatNumber(height)}] /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>`,
+        `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`,
+        `<< /Type /Font /Subtype /Type0 /BaseFont /${FONT_NAME} /Encoding /UniJIS-UCS2-H /DescendantFonts [6 0 R] >>`,
+        // Half-width CIDs (1-95 and 231-632) at 500, everything else at the default 1000
+        `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${FONT_NAME} /CIDSystemInfo << /Registry (Adobe) /Ordering (Japan1) /Supplement 2 >> /FontDescriptor 7 0 R /DW 1000 /W [1 95 500 231 632 500] >>`,
+        `<< /Type /FontDescriptor /FontName /${FONT_NAME} /Flags 4 /FontBBox [-92 -250 1010 922] /ItalicAngle 0 /Ascent 752 /Descent -221 /CapHeight 737 /StemV 114 >>`,
+        // Text strings outside the content stream need a byte order mark
+        `<< /Title ${hexString(`\ufeff${title}`)} /Producer (demae-robokun) >>`
+      ];
+
+      let pdf = '%PDF-1.4\n';
+      const offsets: number[] = [];
+      objects.forEach((object, index) => {
+        offsets.push(Buffer.byteLength(pdf));
+        pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      });
+      const xrefOffset = Buffer.byteLength(pdf);
+      pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      pdf += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+      pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+      return Buffer.from(pdf, 'latin1');
+    }
+  };
+}
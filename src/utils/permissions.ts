@@ -0,0 +1,77 @@
+// What each staff role may do. Shared by the API handlers, which enforce it,
+// and the pages, which hide what the signed-in role can't use.
+
+export type StaffRole = 'manager' | 'kitchen' | 'driver';
+
+export const STAFF_ROLES: StaffRole[] = ['manager', 'kitchen', 'driver'];
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  manager: 'Manager',
+  kitchen: 'Kitchen',
+  driver: 'Driver'
+};
+
+export type Permission =
+  // Start, stop and restart monitors, and run one-off scrapes
+  | 'monitor.control'
+  // Merchant accounts, portal passwords, staff accounts and printers
+  | 'settings.manage'
+  // Every order, rather than only those on the signed-in driver's run
+  | 'orders.viewAll'
+  // Customer name, phone, address and receipt name
+  | 'orders.viewCustomer'
+  // Move any order to any workflow stage, and hide orders
+  | 'orders.update'
+  // Move orders through the kitchen stages (received, cooking, ready)
+  | 'orders.cook'
+  // Take the orders on the signed-in driver's own run out and mark them delivered
+  | 'orders.deliverAssigned'
+  // Put orders on a driver's run, and see every driver
+  | 'orders.assign'
+  // Print an order's kitchen ticket again
+  | 'orders.print'
+  // Issue and reprint 領収書 with the customer's name on them
+  | 'receipts.issue'
+  // Sales reports, and closing the day
+  | 'reports.view'
+  // Download orders as CSV or Excel, customer details included
+  | 'orders.export'
+  // The customer directory, with each customer's order history and spend
+  | 'customers.view';
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  manager: [
+    'monitor.control',
+    'settings.manage',
+    'orders.viewAll',
+    'orders.viewCustomer',
+    'orders.update',
+    'orders.assign',
+    'orders.print',
+    'receipts.issue',
+    'reports.view',
+    'orders.export',
+    'customers.view'
+  ],
+  kitchen: ['orders.viewAll', 'orders.cook', 'orders.print'],
+  driver: ['orders.viewCustomer', 'orders.deliverAssigned']
+};
+
+export function isStaffRole(value: unknown): value is StaffRole {
+  return typeof value === 'string' && (STAFF_ROLES as string[]).includes(value);
+}
+
+export function can(role: string | null | undefined, permission: Permission): boolean {
+  return isStaffRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Blank out the customer's personal details for roles that may not see them
+export function redactCustomerDetails<T extends { customerName: string; customerPhone: string; address: string; receiptName: string | null }>(order: T): T {
+  return {
+    ...order,
+    customerName: '',
+    customerPhone: '',
+    address: '',
+    receiptName: null
+  };
+}
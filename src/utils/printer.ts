@@ -0,0 +1,217 @@
+import { Socket } from 'net';
+import type { Order, OrderItem, Printer, Store } from '@prisma/client';
+import { prisma } from './prisma';
+import { DEFAULT_KITCHEN_TEMPLATE, encodeTicket, validateTemplate } from './escpos';
+import { mentionsUtensils } from './orderDetailParser';
+import { getActiveRules } from './orderRuleStore';
+import { OrderHighlights, OrderRuleConfig, evaluateRules } from './orderRules';
+import { OrderTranslations, getOrderTranslations } from './translation';
+
+// Kitchen tickets go straight to network thermal printers as raw ESC/POS
+// over TCP (port 9100 on most models). Every attempt is logged as a
+// PrintJob so failed prints show up on the dashboard.
+
+const PRINT_TIMEOUT_MS = 5000;
+
+type PrintableOrder = Order & { lineItems: OrderItem[]; store: Store | null };
+
+export type PrintReason = 'auto' | 'reprint';
+
+export function toPrinterSummary(printer: Printer) {
+  return {
+    id: printer.id,
+    name: printer.name,
+    host: printer.host,
+    port: printer.port,
+    storeId: printer.storeId,
+    autoPrint: printer.autoPrint,
+    copies: printer.copies,
+    template: printer.template,
+    active: printer.active
+  };
+}
+
+// Why printer settings from a request can't be saved, or null if they can.
+// Fields left undefined are not checked.
+export async function checkPrinterSettings(settings: { port?: unknown; copies?: unknown; template?: unknown; storeId?: unknown }): Promise<string | null> {
+  const { port, copies, template, storeId } = settings;
+  if (port !== undefined && (!Number.isInteger(port) || (port as number) < 1 || (port as number) > 65535)) {
+    return 'Port must be a number from 1 to 65535';
+  }
+  if (copies !== undefined && (!Number.isInteger(copies) || (copies as number) < 1 || (copies as number) > 5)) {
+    return 'Copies must be from 1 to 5';
+  }
+  if (template !== undefined) {
+    const templateError = typeof template === 'string' ? validateTemplate(template) : 'Template must be text';
+    if (templateError) {
+      return templateError;
+    }
+  }
+  if (storeId && !await prisma.store.findUnique({ where: { id: String(storeId) } })) {
+    return 'Store not found';
+  }
+  return null;
+}
+
+// Open a connection, write the bytes and wait for the printer to take them
+export function sendToPrinter(host: string, port: number, data: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = new Socket();
+    socket.setTimeout(PRINT_TIMEOUT_MS);
+    socket.once('timeout', () => socket.destroy(new Error(`Printer at ${host}:${port} did not respond`)));
+    socket.once('error', reject);
+    socket.connect(port, host, () => {
+      socket.end(data, () => resolve());
+    });
+  });
+}
+
+const formatTime = (date: Date) =>
+  date.toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+// Template values for an order's kitchen ticket
+function kitchenTicketValues(
+  order: PrintableOrder,
+  reason: PrintReason,
+  highlights: OrderHighlights,
+  translations: OrderTranslations
+): Record<string, string> {
+  // Translations go on a line of their own under the original
+  const translated = (text: string, indent: string) => translations[text] ? [`${indent}(${translations[text]})`] : [];
+  const items = order.lineItems
+    .filter(item => !mentionsUtensils(item.name))
+    .flatMap(item => [
+      `${item.quantity} x ${item.name}`,
+      ...translated(item.name, '    '),
+      ...(item.options ? item.options.split('\n').flatMap(option => [`   + ${option}`, ...translated(option, '     ')]) : [])
+    ]);
+  const notes = order.notes && order.notes !== '-' ? order.notes : '';
+
+  return {
+    orderId: order.orderId,
+    store: order.store?.name ?? '',
+    reserved: order.waitingTime === '-分' ? '予約 RESERVED' : '',
+    deliveryTime: order.deliveryTime,
+    orderTime: formatTime(order.orderTime),
+    // Orders scraped before line items were parsed only have the raw text
+    items: items.length > 0 ? items.join('\n') : order.items,
+    notes,
+    notesTranslation: notes ? translations[notes] ?? '' : '',
+    utensils: mentionsUtensils(order.items) ? '箸・スプーン等 要 / Utensils' : '',
+    highlights: highlights.ticketLines.join('\n'),
+    reprint: reason === 'reprint' ? '再印刷 REPRINT' : '',
+    printedAt: formatTime(new Date())
+  };
+}
+
+// Print an order's kitchen ticket on one printer and log the attempt.
+// Highlight rules can add lines and extra copies.
+async function printKitchenTicket(
+  order: PrintableOrder,
+  printer: Printer,
+  reason: PrintReason,
+  staffId: string | null,
+  { rules, translations }: { rules: OrderRuleConfig[]; translations: OrderTranslations }
+) {
+  const highlights = evaluateRules(rules, order);
+  const data = encodeTicket(
+    printer.template || DEFAULT_KITCHEN_TEMPLATE,
+    kitchenTicketValues(order, reason, highlights, translations),
+    printer.copies + highlights.extraCopies
+  );
+
+  let error: string | null = null;
+  try {
+    await sendToPrinter(printer.host, printer.port, data);
+    console.log(`Printed kitchen ticket for ${order.orderId} on ${printer.name}`);
+  } catch (printError) {
+    error = printError instanceof Error ? printError.message : String(printError);
+    console.error(`Failed to print ${order.orderId} on ${printer.name}:`, error);
+  }
+
+  await prisma.printJob.create({
+    data: {
+      orderId: order.orderId,
+      printerId: printer.id,
+      reason,
+      status: error ? 'failed' : 'printed',
+      error,
+      staffId
+    }
+  });
+  return { printer: printer.name, success: !error, error };
+}
+
+async function findPrintableOrder(orderId: string) {
+  return prisma.order.findUnique({
+    where: { orderId },
+    include: { lineItems: { orderBy: { position: 'asc' } }, store: true }
+  });
+}
+
+// Highlight rules and translations, looked up once for all of an order's printers
+async function ticketExtras(order: PrintableOrder) {
+  return {
+    rules: await getActiveRules(),
+    translations: (await getOrderTranslations([order])).get(order.orderId) ?? {}
+  };
+}
+
+// Active printers serving an order's store
+function printersFor(order: Order, extraWhere: { autoPrint?: boolean; id?: string } = {}) {
+  return prisma.printer.findMany({
+    where: {
+      active: true,
+      OR: [{ storeId: null }, { storeId: order.storeId }],
+      ...extraWhere
+    }
+  });
+}
+
+// Print a newly picked up order on every auto-print printer for its store.
+// Failures are logged as print jobs rather than thrown.
+export async function autoPrintOrder(orderId: string) {
+  const order = await findPrintableOrder(orderId);
+  if (!order) {
+    return [];
+  }
+  const extras = await ticketExtras(order);
+  const results = [];
+  for (const printer of await printersFor(order, { autoPrint: true })) {
+    results.push(await printKitchenTicket(order, printer, 'auto', null, extras));
+  }
+  return results;
+}
+
+// Print an order again, on one printer or on every printer for its store
+export async function reprintOrder(orderId: string, staffId: string, printerId?: string) {
+  const order = await findPrintableOrder(orderId);
+  if (!order) {
+    return null;
+  }
+  const extras = await ticketExtras(order);
+  const results = [];
+  for (const printer of await printersFor(order, printerId ? { id: printerId } : {})) {
+    results.push(await printKitchenTicket(order, printer, 'reprint', staffId, extras));
+  }
+  return results;
+}
+
+// A sample ticket to check a printer's connection and template
+export async function printTestTicket(printer: Printer) {
+  const values: Record<string, string> = {
+    orderId: 'TEST',
+    store: printer.name,
+    reserved: '予約 RESERVED',
+    deliveryTime: formatTime(new Date()),
+    orderTime: formatTime(new Date()),
+    items: '2 x テスト弁当\n    (Test bento)\n   + 大盛り\n     (large portion)\n1 x Test item',
+    notes: 'テスト印刷 / Test print',
+    notesTranslation: 'Test print',
+    utensils: '箸・スプーン等 要 / Utensils',
+    highlights: '★ Extra spicy',
+    reprint: '',
+    printedAt: formatTime(new Date())
+  };
+  await sendToPrinter(printer.host, printer.port, encodeTicket(printer.template || DEFAULT_KITCHEN_TEMPLATE, values));
+}
@@ -0,0 +1,10 @@
+import { PrismaClient } from '@prisma/client';
+
+// One PrismaClient for the whole process. Route bundles and the monitor worker
+// all import this, and keeping it on globalThis stops hot reloads from
+// opening a new connection pool each time.
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
+
+export const prisma = globalForPrisma.prisma ?? new PrismaClient();
+
+globalForPrisma.prisma = prisma;
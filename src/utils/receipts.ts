@@ -0,0 +1,93 @@
+import type { Receipt } from '@prisma/client';
+import { A5_LANDSCAPE, createPdfPage, textWidth } from './pdf';
+
+// 領収書 for orders. A receipt is issued once per order with the details at
+// the time, and printed as a PDF as often as needed; prints after the first
+// are marked 再発行 so a reprint can't pass as a second receipt.
+
+// Food for delivery is taxed at the reduced rate
+export const RECEIPT_TAX_RATE = 8;
+
+export const DEFAULT_RECEIPT_PROVISO = 'お品代';
+
+export function isValidRegistrationNumber(value: string): boolean {
+  return /^T\d{13}$/.test(value);
+}
+
+// Consumption tax included in a tax-inclusive amount, rounded down once per
+// receipt as the invoice rules allow
+export function includedTax(amount: number, taxRate: number): number {
+  return Math.floor(amount * taxRate / (100 + taxRate));
+}
+
+export function toReceiptSummary(receipt: Receipt) {
+  return {
+    id: receipt.id,
+    orderId: receipt.orderId,
+    addressee: receipt.addressee,
+    proviso: receipt.proviso,
+    amount: receipt.amount,
+    taxRate: receipt.taxRate,
+    taxAmount: receipt.taxAmount,
+    storeName: receipt.storeName,
+    registrationNumber: receipt.registrationNumber,
+    issuedAt: receipt.issuedAt.toISOString(),
+    printCount: receipt.printCount,
+    lastPrintedAt: receipt.lastPrintedAt?.toISOString() ?? null
+  };
+}
+
+const formatYen = (amount: number) => `￥${amount.toLocaleString('ja-JP')}`;
+
+const formatJapaneseDate = (date: Date) =>
+  date.toLocaleDateString('ja-JP', { timeZone: 'Asia/Tokyo', year: 'numeric', month: 'long', day: 'numeric' });
+
+// The receipt as an A5 landscape PDF
+export function renderReceiptPdf(receipt: Receipt, isReprint: boolean): Buffer {
+  const page = createPdfPage(A5_LANDSCAPE.width, A5_LANDSCAPE.height);
+  const left = 48;
+  const right = page.width - 48;
+  const center = page.width / 2;
+
+  page.rect(24, 24, page.width - 48, page.height - 48, 1);
+
+  page.text('領 収 書', center, 78, 28, 'center');
+  page.line(center - 90, 86, center + 90, 86, 1);
+  page.line(center - 90, 89, center + 90, 89, 1);
+
+  page.text(`No. ${receipt.orderId}`, right, 52, 9, 'right');
+  page.text(`発行日 ${formatJapaneseDate(receipt.issuedAt)}`, right, 64, 9, 'right');
+  if (isReprint) {
+    const width = textWidth('再発行', 14) + 16;
+    page.rect(left, 40, width, 24, 1);
+    page.text('再発行', left + 8, 57, 14);
+  }
+
+  const addressee = `${receipt.addressee} 様`;
+  page.text(addressee, left, 132, 16);
+  page.line(left, 138, Math.max(left + 260, left + textWidth(addressee, 16)), 138, 0.75);
+
+  page.rect(left + 40, 156, right - left - 80, 48, 1);
+  page.text(`${formatYen(receipt.amount)}-`, center, 190, 26, 'center');
+  page.text('(税込)', right - 48, 198, 9, 'right');
+
+  page.text(`但し ${receipt.proviso} として`, left + 40, 226, 11);
+  page.text('上記正に領収いたしました。', left + 40, 244, 11);
+
+  const taxable = `${receipt.taxRate}%対象 ${formatYen(receipt.amount)}`;
+  const tax = `内消費税 ${formatYen(receipt.taxAmount)}`;
+  page.text('内訳', left, 290, 10);
+  page.line(left, 295, left + 190, 295, 0.5);
+  page.text(taxable, left, 312, 10);
+  page.text(tax, left, 328, 10);
+  if (receipt.taxRate === RECEIPT_TAX_RATE) {
+    page.text('※軽減税率対象', left, 344, 9);
+  }
+
+  page.text(receipt.storeName, right, 312, 13, 'right');
+  if (receipt.registrationNumber) {
+    page.text(`登録番号 ${receipt.registrationNumber}`, right, 330, 9, 'right');
+  }
+
+  return page.toBuffer(`領収書 ${receipt.orderId}`);
+}
@@ -0,0 +1,115 @@
+import type { DailyReport as DailyReportSnapshot, Order, Staff } from '@prisma/client';
+import { prisma } from './prisma';
+import { getBusinessDayRange } from './businessDay';
+import { PAYMENT_CATEGORIES, PAYMENT_CATEGORY_LABELS, PaymentCategory, paymentCategory } from './payments';
+
+// End-of-day (Z) report for a business day. Figures are worked out from the
+// orders whenever asked for, and a snapshot can be saved so the day's close
+// is kept even if orders change afterwards.
+
+export interface SalesFigures {
+  orders: number;
+  sales: number;
+}
+
+export interface DailyReport {
+  businessDate: string;
+  generatedAt: string;
+  // Every order taken, cancelled ones included
+  totalOrders: number;
+  // Sales and average ticket leave cancelled orders out
+  grossSales: number;
+  averageTicket: number;
+  byPaymentMethod: (SalesFigures & { category: PaymentCategory; label: string })[];
+  reserved: SalesFigures;
+  immediate: SalesFigures;
+  cancelled: SalesFigures;
+  byStore: (SalesFigures & { storeId: string | null; name: string })[];
+}
+
+// Cancelled by the shop, or by the customer through the portal
+export function isCancelledOrder(order: Pick<Order, 'stage' | 'status'>): boolean {
+  return order.stage === 'cancelled' || order.status.includes('キャンセル');
+}
+
+function addSale(figures: SalesFigures, amount: number) {
+  figures.orders += 1;
+  figures.sales += amount;
+}
+
+export async function buildDailyReport(businessDate: string): Promise<DailyReport> {
+  const { start, end } = getBusinessDayRange(businessDate);
+  // Hidden orders were still sold, so they count
+  const orders = await prisma.order.findMany({
+    where: { orderTime: { gte: start, lt: end } },
+    include: { store: { select: { id: true, name: true, accountEmail: true } } }
+  });
+
+  const byPaymentMethod = new Map(PAYMENT_CATEGORIES.map(category => [category, { orders: 0, sales: 0 }]));
+  const byStore = new Map<string | null, SalesFigures & { name: string }>();
+  const reserved = { orders: 0, sales: 0 };
+  const immediate = { orders: 0, sales: 0 };
+  const cancelled = { orders: 0, sales: 0 };
+  let grossSales = 0;
+
+  for (const order of orders) {
+    const amount = Math.round(order.totalAmount);
+    if (isCancelledOrder(order)) {
+      addSale(cancelled, amount);
+      continue;
+    }
+    grossSales += amount;
+    addSale(byPaymentMethod.get(paymentCategory(order.paymentMethod))!, amount);
+    addSale(order.waitingTime === '-分' ? reserved : immediate, amount);
+
+    const storeId = order.store?.id ?? null;
+    if (!byStore.has(storeId)) {
+      byStore.set(storeId, { orders: 0, sales: 0, name: order.store ? order.store.name || order.store.accountEmail : 'Unknown store' });
+    }
+    addSale(byStore.get(storeId)!, amount);
+  }
+
+  const completedOrders = orders.length - cancelled.orders;
+  return {
+    businessDate,
+    generatedAt: new Date().toISOString(),
+    totalOrders: orders.length,
+    grossSales,
+    averageTicket: completedOrders > 0 ? Math.round(grossSales / completedOrders) : 0,
+    byPaymentMethod: PAYMENT_CATEGORIES
+      .map(category => ({ category, label: PAYMENT_CATEGORY_LABELS[category], ...byPaymentMethod.get(category)! }))
+      .filter(figures => figures.category !== 'other' || figures.orders > 0),
+    reserved,
+    immediate,
+    cancelled,
+    byStore: Array.from(byStore, ([storeId, figures]) => ({ storeId, ...figures }))
+  };
+}
+
+export function toReportSnapshot(snapshot: DailyReportSnapshot & { savedByStaff: Pick<Staff, 'id' | 'name'> | null }) {
+  return {
+    report: JSON.parse(snapshot.data) as DailyReport,
+    savedAt: snapshot.updatedAt.toISOString(),
+    savedBy: snapshot.savedByStaff
+  };
+}
+
+// Save (or replace) the snapshot for a business day
+export async function saveDailyReport(businessDate: string, staffId: string | null) {
+  const data = JSON.stringify(await buildDailyReport(businessDate));
+  return prisma.dailyReport.upsert({
+    where: { businessDate },
+    create: { businessDate, data, savedByStaffId: staffId },
+    update: { data, savedByStaffId: staffId },
+    include: { savedByStaff: { select: { id: true, name: true } } }
+  });
+}
+
+// The saved snapshot for a business day, if it has been saved. Only saving
+// (saveDailyReport) writes one; reading never does.
+export async function getDailyReportSnapshot(businessDate: string) {
+  return prisma.dailyReport.findUnique({
+    where: { businessDate },
+    include: { savedByStaff: { select: { id: true, name: true } } }
+  });
+}
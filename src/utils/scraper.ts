@@ -1,43 +1,91 @@
-import { chromium, Browser, Page } from 'playwright';
+import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { DetailedOrder, parseOrderDetail } from './orderDetailParser';
+import { getMonitorState, MonitorState, transitionMonitor } from './monitorState';
+import type { PortalCredentials } from './credentials';
 
 const isDocker = process.env.DOCKER === 'true';
 
-interface DetailedOrder {
-  orderId: string;
-  orderTime: string;
-  status: string;
-  totalAmount: number;
-  deliveryTime: string;
-  paymentMethod: string;
-  visitCount: string;
-  customerName: string;
-  customerPhone: string;
-  receiptName: string;
-  waitingTime: string;
-  address: string;
-  items: string;
-  notes: string;
+// Base URL of the partner portal. Point this at the bundled fixture portal
+// (e.g. http://localhost:3000/fixture-portal) to run without the live site.
+const PORTAL_BASE_URL = (process.env.DEMAE_PORTAL_URL || 'https://partner.demae-can.com').replace(/\/+$/, '');
+const PORTAL_LOGIN_URL = `${PORTAL_BASE_URL}/merchant-admin/login`;
+const PORTAL_ORDER_LIST_URL = `${PORTAL_BASE_URL}/merchant-admin/order/order-list`;
+
+interface MonitoringSession {
+  storeId: string;
+  browser: Browser | null;
+  // Each account gets its own context so sessions never share cookies
+  context: BrowserContext | null;
+  page: Page | null;
+  active: boolean;
+  processedOrderIds: Set<string>;
+  // Last 申請ステータス seen on the order list for each processed order
+  knownOrderStatuses: Map<string, string>;
 }
 
-let monitoringBrowser: Browser | null = null;
-let monitoringPage: Page | null = null;
-let isMonitoringActive = false;
-const processedOrderIds = new Set<string>();
+export interface MonitoringHandlers {
+  onNewOrders: (orders: DetailedOrder[]) => Promise<void>;
+  onStatusChange?: (orderId: string, status: string) => void;
+  // Called once the first login has succeeded and the loop is about to start
+  onLoggedIn?: () => void;
+  // Called after every successful read of the order list
+  onPoll?: () => void;
+  onError?: (error: unknown) => void;
+}
 
-export async function getMonitoringStatus(): Promise<boolean> {
+// Registry of monitoring sessions, one per merchant account (keyed by store ID).
+// The browsers outlive any one copy of this module, so the registry lives on
+// globalThis. A hot-reloaded module (or another route bundle) can then still
+// see and stop a running session.
+const globalForMonitoring = globalThis as unknown as { monitoringSessions?: Map<string, MonitoringSession> };
+
+const sessions: Map<string, MonitoringSession> = globalForMonitoring.monitoringSessions ?? new Map();
+globalForMonitoring.monitoringSessions = sessions;
+
+function getSession(storeId: string): MonitoringSession {
+  let session = sessions.get(storeId);
+  if (!session) {
+    session = {
+      storeId,
+      browser: null,
+      context: null,
+      page: null,
+      active: false,
+      processedOrderIds: new Set<string>(),
+      knownOrderStatuses: new Map<string, string>()
+    };
+    sessions.set(storeId, session);
+  }
+  return session;
+}
+
+// Open a page in the session's own context, creating the context if the
+// browser is new
+async function openSessionPage(session: MonitoringSession): Promise<Page> {
+  if (!session.browser) {
+    throw new Error('Browser is not running');
+  }
+  if (!session.context || !session.browser.contexts().includes(session.context)) {
+    session.context = await session.browser.newContext();
+  }
+  return session.context.newPage();
+}
+
+export async function getMonitoringStatus(storeId: string): Promise<boolean> {
+  const session = getSession(storeId);
   try {
-    if (!monitoringBrowser || !monitoringPage) {
+    if (!session.browser || !session.page) {
       return false;
     }
 
     // Check if browser is connected and page is not closed
-    const isConnected = monitoringBrowser.isConnected();
-    const isPageOpen = !monitoringPage.isClosed();
+    const isConnected = session.browser.isConnected();
+    const isPageOpen = !session.page.isClosed();
     
     // Verify we can actually interact with the page
     if (isConnected && isPageOpen) {
       try {
-        await monitoringPage.evaluate(() => document.title);
+        await session.page.evaluate(() => document.title);
         return true;
       } catch {
         return false;
@@ -51,23 +99,46 @@ export async function getMonitoringStatus(): Promise<boolean> {
   }
 }
 
-export async function checkIsMonitoringActive(): Promise<boolean> {
-  return getMonitoringStatus();
+export async function checkIsMonitoringActive(storeId: string): Promise<boolean> {
+  return getMonitoringStatus(storeId);
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
 
-async function checkAndRefreshSession(page: Page, email: string, password: string): Promise<boolean> {
+// Parse the order detail page the browser is currently showing
+async function readOrderDetail(page: Page, status: string): Promise<DetailedOrder> {
+  const { order, warnings } = parseOrderDetail(await page.content(), status);
+  if (warnings.length > 0) {
+    console.warn('Order detail parse warnings:', order.orderId, warnings);
+  }
+  return order;
+}
+
+// Fill in and submit the email login form; the page must be on the login screen
+async function submitLogin(page: Page, credentials: PortalCredentials) {
+  await page.click('button:has-text("メールアドレス")');
+  const emailLoginForm = page.locator('div').filter({ hasText: /^メールアドレスパスワード$/ });
+  await emailLoginForm.locator('input[type="email"]').fill(credentials.email);
+  await emailLoginForm.locator('input[type="password"]').fill(credentials.password);
+  await page.click('button:has-text("ログイン")');
+  await page.waitForNavigation({ waitUntil: 'networkidle' });
+}
+
+async function checkAndRefreshSession(
+  storeId: string,
+  page: Page,
+  loadCredentials: () => Promise<PortalCredentials>
+): Promise<boolean> {
   try {
     // Check if we're logged out by looking for login button
     const isLoggedOut = await page.$('button:has-text("メールアドレス")') !== null;
     
     if (isLoggedOut) {
       console.log('Session expired, attempting to re-login...');
-      await page.click('button:has-text("メールアドレス")');
-      const emailLoginForm = page.locator('div').filter({ hasText: /^メールアドレスパスワード$/ });
-      await emailLoginForm.locator('input[type="email"]').fill(email);
-      await emailLoginForm.locator('input[type="password"]').fill(password);
-      await page.click('button:has-text("ログイン")');
-      await page.waitForNavigation({ waitUntil: 'networkidle' });
+      transitionMonitor(storeId, 'reauthenticating', 'Portal session expired');
+      await submitLogin(page, await loadCredentials());
       
       // Verify login was successful
       const errorElement = await page.$('text=/Error|Invalid|失敗/i');
@@ -85,53 +156,65 @@ async function checkAndRefreshSession(page: Page, email: string, password: strin
   }
 }
 
-export async function startOrderMonitoring(email: string, password: string, onNewOrders: (orders: DetailedOrder[]) => void) {
+/**
+ * Monitor one store's order list until stopped. Credentials are fetched from
+ * loadCredentials at every login rather than held by the session, so a
+ * password rotated in the meantime is picked up on the next re-login.
+ */
+export async function startOrderMonitoring(
+  storeId: string,
+  loadCredentials: () => Promise<PortalCredentials>,
+  handlers: MonitoringHandlers
+) {
+  const { onNewOrders, onStatusChange, onLoggedIn, onPoll, onError } = handlers;
+  const session = getSession(storeId);
+
   try {
     // Check if there's already an active monitoring session
-    if (await getMonitoringStatus()) {
+    if (await getMonitoringStatus(storeId)) {
       // Focus the existing window
-      if (monitoringPage) {
-        await monitoringPage.bringToFront();
+      if (session.page) {
+        await session.page.bringToFront();
       }
       return { success: true, monitoring: true, existing: true };
     }
 
     // Clean up any existing browser/page instances
-    await stopOrderMonitoring();
+    await stopOrderMonitoring(storeId);
 
     // Launch new browser
-    monitoringBrowser = await chromium.launch({ 
+    transitionMonitor(storeId, 'launching', 'Monitoring started');
+    session.browser = await chromium.launch({ 
       headless: isDocker ? true : false,
       slowMo: 200,
       args: isDocker ? ['--no-sandbox'] : []
     });
 
     // Create new page
-    monitoringPage = await monitoringBrowser.newPage();
+    session.page = await openSessionPage(session);
+    transitionMonitor(storeId, 'logging_in', 'Browser launched');
 
     // Login process
-    await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/login', { waitUntil: 'networkidle' });
-    await monitoringPage.click('button:has-text("メールアドレス")');
-    const emailLoginForm = monitoringPage.locator('div').filter({ hasText: /^メールアドレスパスワード$/ });
-    await emailLoginForm.locator('input[type="email"]').fill(email);
-    await emailLoginForm.locator('input[type="password"]').fill(password);
-    await monitoringPage.click('button:has-text("ログイン")');
-    await monitoringPage.waitForNavigation({ waitUntil: 'networkidle' });
+    await session.page.goto(PORTAL_LOGIN_URL, { waitUntil: 'networkidle' });
+    await submitLogin(session.page, await loadCredentials());
 
     // Check for login errors
-    const errorElement = await monitoringPage.$('text=/Error|Invalid|失敗/i');
+    const errorElement = await session.page.$('text=/Error|Invalid|失敗/i');
     if (errorElement) {
       const errorText = await errorElement.textContent();
       throw new Error(`Login failed: ${errorText}`);
     }
 
     // Set monitoring as active
-    isMonitoringActive = true;
+    session.active = true;
+    transitionMonitor(storeId, 'initial_sync', 'Logged in to the portal');
     // Clear processed orders set
-    processedOrderIds.clear();
+    session.processedOrderIds.clear();
+    session.knownOrderStatuses.clear();
+    onLoggedIn?.();
 
     // Go to orders page initially
-    await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/order/order-list', {
+    await session.page.goto(PORTAL_ORDER_LIST_URL, {
       waitUntil: 'networkidle',
       timeout: 30000
     });
@@ -141,12 +224,12 @@ export async function startOrderMonitoring(email: string, password: string, onNe
     try {
       // Wait for table using more reliable selectors
       console.log('Waiting for order table...');
-      await monitoringPage.waitForSelector('table:has(tr:has(td:nth-child(1):has-text("注文ID/受取用番号"))), table:has(tr:has(th:has-text("注文ID/受取用番号"))), table[role="grid"]', { timeout: 5000 }).catch(() => {
+      await session.page.waitForSelector('table:has(tr:has(td:nth-child(1):has-text("注文ID/受取用番号"))), table:has(tr:has(th:has-text("注文ID/受取用番号"))), table[role="grid"]', { timeout: 5000 }).catch(() => {
         console.log('Table selector timeout, will try alternative methods');
       });
 
       // Debug: Log all tables on the page
-      const tableDebug = await monitoringPage.evaluate(() => {
+      const tableDebug = await session.page.evaluate(() => {
         const tables = document.querySelectorAll('table');
         return Array.from(tables).map(table => ({
           text: table.textContent?.trim(),
@@ -157,7 +240,7 @@ export async function startOrderMonitoring(email: string, password: string, onNe
       console.log('Found tables on page:', tableDebug);
 
       // Get all existing orders first
-      const existingOrders = await monitoringPage.evaluate(() => {
+      const existingOrders = await session.page.evaluate(() => {
         // Try multiple selectors to find the table
         const table = document.querySelector('table:has(tr:has(td:has-text("注文ID/受取用番号")))') || 
                       document.querySelector('table:has(tr:has(th:has-text("注文ID/受取用番号")))') ||
@@ -203,272 +286,43 @@ export async function startOrderMonitoring(email: string, password: string, onNe
 
       // Process each existing order
       for (let i = 0; i < existingOrders.length; i++) {
-        const { orderId } = existingOrders[i];
-        if (!orderId || processedOrderIds.has(orderId)) continue;
+        const { orderId, status } = existingOrders[i];
+        if (!orderId || session.processedOrderIds.has(orderId)) continue;
 
         try {
-          await monitoringPage.click(`text=${orderId}`);
-          await monitoringPage.waitForLoadState('networkidle');
-          await monitoringPage.waitForSelector('dl', { state: 'visible', timeout: 15000 });
-
-          const orderDetails = await monitoringPage.evaluate(() => {
-            const findValueByLabel = (labelText: string): string => {
-              // Try finding in dl/dt/dd structure
-              const dlElements = document.querySelectorAll('dl');
-              for (const dl of dlElements) {
-                const dt = dl.querySelector('dt');
-                const dd = dl.querySelector('dd');
-                if (dt?.textContent?.includes(labelText) && dd) {
-                  return dd.textContent?.trim() || '';
-                }
-              }
-
-              // Try finding in table structure
-              const tables = document.querySelectorAll('table');
-              for (const table of tables) {
-                const rows = table.querySelectorAll('tr');
-                for (const row of rows) {
-                  const cells = row.querySelectorAll('td, th');
-                  for (const cell of cells) {
-                    if (cell.textContent?.includes(labelText)) {
-                      const nextCell = cell.nextElementSibling;
-                      if (nextCell) {
-                        return nextCell.textContent?.trim() || '';
-                      }
-                    }
-                  }
-                }
-              }
-
-              // Try finding in dt/dd pairs
-              const allDts = document.querySelectorAll('dt');
-              for (const dt of allDts) {
-                if (dt.textContent?.includes(labelText)) {
-                  const nextElement = dt.nextElementSibling;
-                  if (nextElement?.tagName.toLowerCase() === 'dd') {
-                    return nextElement.textContent?.trim() || '';
-                  }
-                }
-              }
-
-              // Try finding in any element with specific text content
-              const elements = document.querySelectorAll('*');
-              for (const element of elements) {
-                if (element.textContent?.includes(labelText)) {
-                  const parent = element.parentElement;
-                  if (parent) {
-                    return parent.textContent?.replace(labelText, '').trim() || '';
-                  }
-                }
-              }
-
-              return '';
-            };
-
-            // Extract price information
-            let total = 0;
-            
-            // First find the items section
-            const itemsFieldset = Array.from(document.querySelectorAll('fieldset')).find(el => 
-              el.textContent?.includes('商品情報') || 
-              el.textContent?.includes('注文商品')
-            );
-
-            if (itemsFieldset) {
-              // Get all divs in the fieldset
-              const allDivs = Array.from(itemsFieldset.querySelectorAll('div'));
-              
-              // Look for the last occurrence of '合計'
-              for (let i = allDivs.length - 1; i >= 0; i--) {
-                const div = allDivs[i];
-                const text = div.textContent || '';
-                
-                if (text.includes('合計')) {
-                  const match = text.match(/[¥￥]([0-9,]+)/);
-                  if (match) {
-                    total = parseInt(match[1].replace(/,/g, ''));
-                    break;
-                  }
-                }
-              }
-            }
-            
-            // If still not found, try the old method as fallback
-            if (total === 0) {
-              const elements = document.querySelectorAll('*');
-              for (const el of elements) {
-                if (el.textContent?.includes('合計')) {
-                  const text = el.textContent;
-                  const match = text.match(/[¥￥]([0-9,]+)/);
-                  if (match) {
-                    total = parseInt(match[1].replace(/,/g, ''));
-                    break;
-                  }
-                }
-              }
-            }
-            
-            // Get items information
-            let items = '';
-            let hasUtensils = false;
-            let notes = '';  // Add notes variable
-            
-            // Extract notes from 備考 fieldset
-            const remarkFieldset = Array.from(document.querySelectorAll('fieldset')).find(el => 
-              el.textContent?.includes('備考')
-            );
-            
-            if (remarkFieldset) {
-              const remarkContent = remarkFieldset.textContent || '';
-              notes = remarkContent.replace('備考', '').trim();
-            }
+          await session.page.click(`text=${orderId}`);
+          await session.page.waitForLoadState('networkidle');
+          await session.page.waitForSelector('dl', { state: 'visible', timeout: 15000 });
 
-            // If notes not found in fieldset, try finding in other elements
-            if (!notes) {
-              const remarkElements = Array.from(document.querySelectorAll('*')).filter(el => 
-                el.textContent?.includes('備考')
-              );
-              
-              for (const el of remarkElements) {
-                const parent = el.parentElement;
-                if (parent && parent.textContent) {
-                  notes = parent.textContent.replace('備考', '').trim();
-                  if (notes) break;
-                }
-              }
-            }
-
-            // Try to find utensils in the order items table first
-            const orderItemsTable = document.querySelector('table.orderItemList');
-            if (orderItemsTable) {
-              const tableText = orderItemsTable.textContent || '';
-              if (tableText.includes('箸、スプーン、おしぼり等／Utensils') || 
-                  tableText.includes('箸、スプーン、おしぼり等') ||
-                  tableText.includes('Utensils')) {
-                hasUtensils = true;
-              }
-            }
-
-            // If not found in table, try all elements
-            if (!hasUtensils) {
-              const allElements = document.querySelectorAll('*');
-              for (const el of allElements) {
-                const text = el.textContent || '';
-                if (text.includes('箸、スプーン、おしぼり等／Utensils') || 
-                    text.includes('箸、スプーン、おしぼり等') ||
-                    text.includes('Utensils')) {
-                  hasUtensils = true;
-                  break;
-                }
-              }
-            }
-
-            // Get the items information
-            const itemsSection = Array.from(document.querySelectorAll('*')).find(el => 
-              el.textContent?.includes('商品情報') || 
-              el.textContent?.includes('注文商品')
-            );
-            
-            if (itemsSection) {
-              // Get the parent container that might contain the items list
-              const container = itemsSection.closest('dl, div, section');
-              if (container) {
-                items = container.textContent || '';
-                // Clean up the text
-                items = items.replace('商品情報', '').replace('注文商品', '').trim();
-              }
-            }
-
-            // If not found, try the general search
-            if (!items) {
-              items = findValueByLabel('商品情報') || findValueByLabel('注文商品') || '';
-            }
-
-            // If utensils were found, make sure they're included in the items text
-            if (hasUtensils && !items.includes('箸、スプーン、おしぼり等／Utensils')) {
-              items = items + ' 箸、スプーン、おしぼり等／Utensils';
-            }
-
-            return {
-              orderId: findValueByLabel('注文ID'),
-              orderTime: (() => {
-                const rawTime = findValueByLabel('注文日時');
-                // Check if the date is already in the correct format
-                if (rawTime.includes('/')) {
-                  return rawTime;
-                }
-                // Try to parse and format the date
-                try {
-                  const date = new Date(rawTime);
-                  // Format date as YYYY/MM/DD HH:mm:ss
-                  const year = date.getFullYear();
-                  const month = String(date.getMonth() + 1).padStart(2, '0');
-                  const day = String(date.getDate()).padStart(2, '0');
-                  const hours = String(date.getHours()).padStart(2, '0');
-                  const minutes = String(date.getMinutes()).padStart(2, '0');
-                  const seconds = String(date.getSeconds()).padStart(2, '0');
-                  return `${year}/${month}/${day} ${hours}:${minutes}:${seconds}`;
-                } catch {
-                  return rawTime;
-                }
-              })(),
-              deliveryTime: (() => {
-                const rawTime = findValueByLabel('配達/テイクアウト日時') || findValueByLabel('配達希望日時');
-                console.log('Raw delivery time:', rawTime);
-                // Parse the date and subtract 15 hours
-                try {
-                  const date = new Date(rawTime);
-                  date.setHours(date.getHours() - 15);
-                  // Format date as YYYY/MM/DD HH:mm:ss in 24-hour format
-                  const year = date.getFullYear();
-                  const month = String(date.getMonth() + 1).padStart(2, '0');
-                  const day = String(date.getDate()).padStart(2, '0');
-                  const hours = String(date.getHours()).padStart(2, '0');
-                  const minutes = String(date.getMinutes()).padStart(2, '0');
-                  const seconds = String(date.getSeconds()).padStart(2, '0');
-                  return `${year}/${month}/${day} ${hours}:${minutes}:${seconds}`;
-                } catch {
-                  return rawTime;
-                }
-              })(),
-              paymentMethod: findValueByLabel('支払方法'),
-              visitCount: findValueByLabel('店舗利用回数'),
-              customerName: findValueByLabel('注文者氏名'),
-              customerPhone: findValueByLabel('注文者電話番号'),
-              receiptName: findValueByLabel('領収書宛名'),
-              waitingTime: findValueByLabel('受付時の待ち時間'),
-              address: findValueByLabel('配達先住所'),
-              items: items,
-              totalAmount: total,
-              status,
-              notes: notes  // Add notes to the returned object
-            };
-          });
+          const orderDetails = await readOrderDetail(session.page, status);
 
           if (orderDetails.orderId) {
-            processedOrderIds.add(orderDetails.orderId);
+            session.processedOrderIds.add(orderDetails.orderId);
+            session.knownOrderStatuses.set(orderDetails.orderId, status);
             console.log('Processed existing order:', orderDetails.orderId);
-            onNewOrders([orderDetails]);
+            await onNewOrders([orderDetails]);
           }
 
           // Go back to order list
-          await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/order/order-list', {
+          await session.page.goto(PORTAL_ORDER_LIST_URL, {
             waitUntil: 'networkidle',
             timeout: 30000
           });
         } catch (error) {
           console.error('Error processing existing order:', orderId, error);
-          await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/order/order-list', {
+          await session.page.goto(PORTAL_ORDER_LIST_URL, {
             waitUntil: 'networkidle',
             timeout: 30000
           });
         }
       }
 
-      console.log('Finished processing existing orders:', Array.from(processedOrderIds));
+      console.log('Finished processing existing orders:', Array.from(session.processedOrderIds));
+      transitionMonitor(storeId, 'polling', `Initial sync finished with ${session.processedOrderIds.size} orders`);
 
     } catch (error) {
       console.error('Error during initial order processing:', error);
+      transitionMonitor(storeId, 'polling', 'Initial sync failed, watching for new orders only');
     }
 
     console.log('Starting monitoring for new orders...');
@@ -476,50 +330,45 @@ export async function startOrderMonitoring(email: string, password: string, onNe
     const MAX_CONSECUTIVE_ERRORS = 5;
 
     // Start monitoring loop for new orders
-    while (isMonitoringActive) {
+    while (session.active) {
       try {
         // Check if browser is still connected
-        if (!monitoringBrowser?.isConnected()) {
+        if (!session.browser?.isConnected()) {
           console.error('Browser disconnected, attempting to recreate...');
+          transitionMonitor(storeId, 'launching', 'Browser disconnected');
           try {
-            monitoringBrowser = await chromium.launch({ 
+            session.browser = await chromium.launch({ 
               headless: isDocker ? true : false,
               slowMo: 200,
               args: isDocker ? ['--no-sandbox'] : []
             });
-            monitoringPage = await monitoringBrowser.newPage();
-            await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/login', { waitUntil: 'networkidle' });
-            await monitoringPage.click('button:has-text("メールアドレス")');
-            const emailLoginForm = monitoringPage.locator('div').filter({ hasText: /^メールアドレスパスワード$/ });
-            await emailLoginForm.locator('input[type="email"]').fill(email);
-            await emailLoginForm.locator('input[type="password"]').fill(password);
-            await monitoringPage.click('button:has-text("ログイン")');
-            await monitoringPage.waitForNavigation({ waitUntil: 'networkidle' });
+            session.page = await openSessionPage(session);
+            transitionMonitor(storeId, 'logging_in', 'Browser relaunched');
+            await session.page.goto(PORTAL_LOGIN_URL, { waitUntil: 'networkidle' });
+            await submitLogin(session.page, await loadCredentials());
             console.log('Successfully recreated browser and logged in');
             continue;
           } catch (error) {
             console.error('Failed to recreate browser:', error);
+            transitionMonitor(storeId, 'backoff', `Failed to relaunch browser: ${describeError(error)}`);
             await new Promise(resolve => setTimeout(resolve, 5000));
             continue;
           }
         }
 
         // Check if page is still available
-        if (!monitoringPage || monitoringPage.isClosed()) {
+        if (!session.page || session.page.isClosed()) {
           console.error('Page unavailable, attempting to recreate...');
+          transitionMonitor(storeId, 'reauthenticating', 'Browser page was closed');
           try {
-            monitoringPage = await monitoringBrowser.newPage();
-            await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/login', { waitUntil: 'networkidle' });
-            await monitoringPage.click('button:has-text("メールアドレス")');
-            const emailLoginForm = monitoringPage.locator('div').filter({ hasText: /^メールアドレスパスワード$/ });
-            await emailLoginForm.locator('input[type="email"]').fill(email);
-            await emailLoginForm.locator('input[type="password"]').fill(password);
-            await monitoringPage.click('button:has-text("ログイン")');
-            await monitoringPage.waitForNavigation({ waitUntil: 'networkidle' });
+            session.page = await openSessionPage(session);
+            await session.page.goto(PORTAL_LOGIN_URL, { waitUntil: 'networkidle' });
+            await submitLogin(session.page, await loadCredentials());
             console.log('Successfully recreated page and logged in');
             continue;
           } catch (error) {
             console.error('Failed to recreate page:', error);
+            transitionMonitor(storeId, 'backoff', `Failed to reopen page: ${describeError(error)}`);
             await new Promise(resolve => setTimeout(resolve, 5000));
             continue;
           }
@@ -527,15 +376,16 @@ export async function startOrderMonitoring(email: string, password: string, onNe
 
         // Verify page is still connected before any operations
         try {
-          await monitoringPage.evaluate(() => document.title);
+          await session.page.evaluate(() => document.title);
         } catch {
           console.error('Page disconnected, will attempt to recreate on next iteration');
+          transitionMonitor(storeId, 'backoff', 'Browser page stopped responding');
           await new Promise(resolve => setTimeout(resolve, 5000));
           continue;
         }
 
         // Check and refresh session periodically
-        if (!await checkAndRefreshSession(monitoringPage, email, password)) {
+        if (!await checkAndRefreshSession(storeId, session.page, loadCredentials)) {
           throw new Error('Session check failed');
         }
 
@@ -544,8 +394,8 @@ export async function startOrderMonitoring(email: string, password: string, onNe
         let navigationSuccessful = false;
         while (!navigationSuccessful && retryCount < 3) {
           try {
-            if (!monitoringPage.url().includes('order-list')) {
-              await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/order/order-list', {
+            if (!session.page.url().includes('order-list')) {
+              await session.page.goto(PORTAL_ORDER_LIST_URL, {
                 waitUntil: 'networkidle',
                 timeout: 30000
               });
@@ -565,10 +415,10 @@ export async function startOrderMonitoring(email: string, password: string, onNe
         }
 
         // Wait for table to be visible with more reliable selectors
-        await monitoringPage.waitForSelector('table:has(tr:has(td:nth-child(1):has-text("注文ID/受取用番号"))), table:has(tr:has(th:has-text("注文ID/受取用番号"))), table[role="grid"]', { timeout: 5000 }).catch(() => {});
+        await session.page.waitForSelector('table:has(tr:has(td:nth-child(1):has-text("注文ID/受取用番号"))), table:has(tr:has(th:has-text("注文ID/受取用番号"))), table[role="grid"]', { timeout: 5000 }).catch(() => {});
 
         // Get current orders with improved table selection
-        const currentOrders = await monitoringPage.evaluate(() => {
+        const currentOrders = await session.page.evaluate(() => {
           // Debug: Log all tables and their content
           const allTables = document.querySelectorAll('table');
           console.log(`Found ${allTables.length} tables on page`);
@@ -685,6 +535,9 @@ export async function startOrderMonitoring(email: string, password: string, onNe
           return processedRows;
         });
 
+        transitionMonitor(storeId, 'polling', 'Order list read');
+        onPoll?.();
+
         // Sort orders by time to process newest first
         const sortedOrders = currentOrders.sort((a, b) => {
           const timeA = new Date(a.orderTime).getTime();
@@ -692,279 +545,58 @@ export async function startOrderMonitoring(email: string, password: string, onNe
           return timeB - timeA;
         });
 
+        // Report status changes on orders we have already processed
+        for (const { orderId, status } of sortedOrders) {
+          const knownStatus = session.knownOrderStatuses.get(orderId);
+          if (knownStatus !== undefined && status && knownStatus !== status) {
+            console.log(`Status changed for order ${orderId}: ${knownStatus} -> ${status}`);
+            session.knownOrderStatuses.set(orderId, status);
+            onStatusChange?.(orderId, status);
+          }
+        }
+
         let foundNewOrders = false;
 
         // Process only new orders
-        for (const { orderId } of sortedOrders) {
-          if (!orderId || processedOrderIds.has(orderId)) continue;
+        for (const { orderId, status } of sortedOrders) {
+          if (!orderId || session.processedOrderIds.has(orderId)) continue;
 
           foundNewOrders = true;
           let orderProcessed = false;
           let retryCount = 0;
 
-          while (!orderProcessed && retryCount < 3 && isMonitoringActive) {
+          while (!orderProcessed && retryCount < 3 && session.active) {
             try {
               // Click the order ID and wait for navigation
-              await monitoringPage.click(`text=${orderId}`);
+              await session.page.click(`text=${orderId}`);
               
               // Wait for navigation and content to load with increased timeouts
-              await monitoringPage.waitForLoadState('networkidle', { timeout: 30000 });
-              await monitoringPage.waitForLoadState('domcontentloaded', { timeout: 30000 });
+              await session.page.waitForLoadState('networkidle', { timeout: 30000 });
+              await session.page.waitForLoadState('domcontentloaded', { timeout: 30000 });
               
               // Wait for key elements with increased timeout
-              await monitoringPage.waitForSelector('dl', { state: 'visible', timeout: 30000 });
+              await session.page.waitForSelector('dl', { state: 'visible', timeout: 30000 });
               
               // Additional wait for dynamic content
-              await monitoringPage.waitForFunction(() => {
+              await session.page.waitForFunction(() => {
                 const dts = document.querySelectorAll('dt');
                 return Array.from(dts).some(dt => dt.textContent?.includes('注文ID'));
               }, { timeout: 30000 });
 
               // Extra wait to ensure all content is loaded
-              await monitoringPage.waitForTimeout(1500);
-
-              const orderDetails = await monitoringPage.evaluate(() => {
-                const findValueByLabel = (labelText: string): string => {
-                  // Try finding in dl/dt/dd structure
-                  const dlElements = document.querySelectorAll('dl');
-                  for (const dl of dlElements) {
-                    const dt = dl.querySelector('dt');
-                    const dd = dl.querySelector('dd');
-                    if (dt?.textContent?.includes(labelText) && dd) {
-                      return dd.textContent?.trim() || '';
-                    }
-                  }
-
-                  // Try finding in table structure
-                  const tables = document.querySelectorAll('table');
-                  for (const table of tables) {
-                    const rows = table.querySelectorAll('tr');
-                    for (const row of rows) {
-                      const cells = row.querySelectorAll('td, th');
-                      for (const cell of cells) {
-                        if (cell.textContent?.includes(labelText)) {
-                          const nextCell = cell.nextElementSibling;
-                          if (nextCell) {
-                            return nextCell.textContent?.trim() || '';
-                          }
-                        }
-                      }
-                    }
-                  }
-
-                  // Try finding in dt/dd pairs
-                  const allDts = document.querySelectorAll('dt');
-                  for (const dt of allDts) {
-                    if (dt.textContent?.includes(labelText)) {
-                      const nextElement = dt.nextElementSibling;
-                      if (nextElement?.tagName.toLowerCase() === 'dd') {
-                        return nextElement.textContent?.trim() || '';
-                      }
-                    }
-                  }
-
-                  // Try finding in any element with specific text content
-                  const elements = document.querySelectorAll('*');
-                  for (const element of elements) {
-                    if (element.textContent?.includes(labelText)) {
-                      const parent = element.parentElement;
-                      if (parent) {
-                        return parent.textContent?.replace(labelText, '').trim() || '';
-                      }
-                    }
-                  }
-
-                  return '';
-                };
-
-                // Extract price information
-                let total = 0;
-                
-                // First find the items section
-                const itemsFieldset = Array.from(document.querySelectorAll('fieldset')).find(el => 
-                  el.textContent?.includes('商品情報') || 
-                  el.textContent?.includes('注文商品')
-                );
-
-                if (itemsFieldset) {
-                  // Get all divs in the fieldset
-                  const allDivs = Array.from(itemsFieldset.querySelectorAll('div'));
-                  
-                  // Look for the last occurrence of '合計'
-                  for (let i = allDivs.length - 1; i >= 0; i--) {
-                    const div = allDivs[i];
-                    const text = div.textContent || '';
-                    
-                    if (text.includes('合計')) {
-                      const match = text.match(/[¥￥]([0-9,]+)/);
-                      if (match) {
-                        total = parseInt(match[1].replace(/,/g, ''));
-                        break;
-                      }
-                    }
-                  }
-                }
-                
-                // If still not found, try the old method as fallback
-                if (total === 0) {
-                  const elements = document.querySelectorAll('*');
-                  for (const el of elements) {
-                    if (el.textContent?.includes('合計')) {
-                      const text = el.textContent;
-                      const match = text.match(/[¥￥]([0-9,]+)/);
-                      if (match) {
-                        total = parseInt(match[1].replace(/,/g, ''));
-                        break;
-                      }
-                    }
-                  }
-                }
-                
-                // Get items information
-                let items = '';
-                let hasUtensils = false;
-                let notes = '';  // Add notes variable
-                
-                // Extract notes from 備考 fieldset
-                const remarkFieldset = Array.from(document.querySelectorAll('fieldset')).find(el => 
-                  el.textContent?.includes('備考')
-                );
-                
-                if (remarkFieldset) {
-                  const remarkContent = remarkFieldset.textContent || '';
-                  notes = remarkContent.replace('備考', '').trim();
-                }
-
-                // If notes not found in fieldset, try finding in other elements
-                if (!notes) {
-                  const remarkElements = Array.from(document.querySelectorAll('*')).filter(el => 
-                    el.textContent?.includes('備考')
-                  );
-                  
-                  for (const el of remarkElements) {
-                    const parent = el.parentElement;
-                    if (parent && parent.textContent) {
-                      notes = parent.textContent.replace('備考', '').trim();
-                      if (notes) break;
-                    }
-                  }
-                }
-
-                // Try to find utensils in the order items table first
-                const orderItemsTable = document.querySelector('table.orderItemList');
-                if (orderItemsTable) {
-                  const tableText = orderItemsTable.textContent || '';
-                  if (tableText.includes('箸、スプーン、おしぼり等／Utensils') || 
-                      tableText.includes('箸、スプーン、おしぼり等') ||
-                      tableText.includes('Utensils')) {
-                    hasUtensils = true;
-                  }
-                }
-
-                // If not found in table, try all elements
-                if (!hasUtensils) {
-                  const allElements = document.querySelectorAll('*');
-                  for (const el of allElements) {
-                    const text = el.textContent || '';
-                    if (text.includes('箸、スプーン、おしぼり等／Utensils') || 
-                        text.includes('箸、スプーン、おしぼり等') ||
-                        text.includes('Utensils')) {
-                      hasUtensils = true;
-                      break;
-                    }
-                  }
-                }
-
-                // Get the items information
-                const itemsSection = Array.from(document.querySelectorAll('*')).find(el => 
-                  el.textContent?.includes('商品情報') || 
-                  el.textContent?.includes('注文商品')
-                );
-                
-                if (itemsSection) {
-                  // Get the parent container that might contain the items list
-                  const container = itemsSection.closest('dl, div, section');
-                  if (container) {
-                    items = container.textContent || '';
-                    // Clean up the text
-                    items = items.replace('商品情報', '').replace('注文商品', '').trim();
-                  }
-                }
-
-                // If not found, try the general search
-                if (!items) {
-                  items = findValueByLabel('商品情報') || findValueByLabel('注文商品') || '';
-                }
+              await session.page.waitForTimeout(1500);
 
-                // If utensils were found, make sure they're included in the items text
-                if (hasUtensils && !items.includes('箸、スプーン、おしぼり等／Utensils')) {
-                  items = items + ' 箸、スプーン、おしぼり等／Utensils';
-                }
-
-                return {
-                  orderId: findValueByLabel('注文ID'),
-                  orderTime: (() => {
-                    const rawTime = findValueByLabel('注文日時');
-                    // Check if the date is already in the correct format
-                    if (rawTime.includes('/')) {
-                      return rawTime;
-                    }
-                    // Try to parse and format the date
-                    try {
-                      const date = new Date(rawTime);
-                      // Format date as YYYY/MM/DD HH:mm:ss
-                      const year = date.getFullYear();
-                      const month = String(date.getMonth() + 1).padStart(2, '0');
-                      const day = String(date.getDate()).padStart(2, '0');
-                      const hours = String(date.getHours()).padStart(2, '0');
-                      const minutes = String(date.getMinutes()).padStart(2, '0');
-                      const seconds = String(date.getSeconds()).padStart(2, '0');
-                      return `${year}/${month}/${day} ${hours}:${minutes}:${seconds}`;
-                    } catch {
-                      return rawTime;
-                    }
-                  })(),
-                  deliveryTime: (() => {
-                    const rawTime = findValueByLabel('配達/テイクアウト日時') || findValueByLabel('配達希望日時');
-                    console.log('Raw delivery time:', rawTime);
-                    // Parse the date and subtract 15 hours
-                    try {
-                      const date = new Date(rawTime);
-                      date.setHours(date.getHours() - 15);
-                      // Format date as YYYY/MM/DD HH:mm:ss in 24-hour format
-                      const year = date.getFullYear();
-                      const month = String(date.getMonth() + 1).padStart(2, '0');
-                      const day = String(date.getDate()).padStart(2, '0');
-                      const hours = String(date.getHours()).padStart(2, '0');
-                      const minutes = String(date.getMinutes()).padStart(2, '0');
-                      const seconds = String(date.getSeconds()).padStart(2, '0');
-                      return `${year}/${month}/${day} ${hours}:${minutes}:${seconds}`;
-                    } catch {
-                      return rawTime;
-                    }
-                  })(),
-                  paymentMethod: findValueByLabel('支払方法'),
-                  visitCount: findValueByLabel('店舗利用回数'),
-                  customerName: findValueByLabel('注文者氏名'),
-                  customerPhone: findValueByLabel('注文者電話番号'),
-                  receiptName: findValueByLabel('領収書宛名'),
-                  waitingTime: findValueByLabel('受付時の待ち時間'),
-                  address: findValueByLabel('配達先住所'),
-                  items: items,
-                  totalAmount: total,
-                  status,
-                  notes: notes  // Add notes to the returned object
-                };
-              });
+              const orderDetails = await readOrderDetail(session.page, status);
 
               if (orderDetails.orderId) {
-                processedOrderIds.add(orderDetails.orderId);
+                session.processedOrderIds.add(orderDetails.orderId);
+                session.knownOrderStatuses.set(orderDetails.orderId, status);
                 console.log('Processing order:', orderDetails.orderId);
-                onNewOrders([orderDetails]);
+                await onNewOrders([orderDetails]);
                 orderProcessed = true;
 
                 // Wait before navigating back
-                await monitoringPage.waitForTimeout(1500);
+                await session.page.waitForTimeout(1500);
               }
 
               // Return to order list with retries and increased timeouts
@@ -972,17 +604,17 @@ export async function startOrderMonitoring(email: string, password: string, onNe
               let navigationSuccessful = false;
               while (navRetryCount < 3 && !navigationSuccessful) {
                 try {
-                  await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/order/order-list', {
+                  await session.page.goto(PORTAL_ORDER_LIST_URL, {
                     waitUntil: 'networkidle',
                     timeout: 30000
                   });
                   
                   // Wait for the order list page to load completely
-                  await monitoringPage.waitForLoadState('domcontentloaded', { timeout: 30000 });
-                  await monitoringPage.waitForTimeout(2000);
+                  await session.page.waitForLoadState('domcontentloaded', { timeout: 30000 });
+                  await session.page.waitForTimeout(2000);
                   
                   // Verify we're actually on the order list page
-                  const currentUrl = await monitoringPage.evaluate(() => window.location.href);
+                  const currentUrl = await session.page.evaluate(() => window.location.href);
                   if (currentUrl.includes('order-list')) {
                     navigationSuccessful = true;
                     break;
@@ -992,20 +624,16 @@ export async function startOrderMonitoring(email: string, password: string, onNe
                   console.error(`Navigation retry ${navRetryCount + 1} failed:`, navError);
                   navRetryCount++;
                   if (navRetryCount < 3) {
-                    await monitoringPage.waitForTimeout(3000);
+                    await session.page.waitForTimeout(3000);
                   } else {
                     // If all retries failed, try to recreate the page
                     try {
-                      if (monitoringBrowser?.isConnected()) {
-                        monitoringPage = await monitoringBrowser.newPage();
-                        await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/login', { waitUntil: 'networkidle' });
-                        await monitoringPage.click('button:has-text("メールアドレス")');
-                        const emailLoginForm = monitoringPage.locator('div').filter({ hasText: /^メールアドレスパスワード$/ });
-                        await emailLoginForm.locator('input[type="email"]').fill(email);
-                        await emailLoginForm.locator('input[type="password"]').fill(password);
-                        await monitoringPage.click('button:has-text("ログイン")');
-                        await monitoringPage.waitForNavigation({ waitUntil: 'networkidle' });
-                        await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/order/order-list', {
+                      if (session.browser?.isConnected()) {
+                        transitionMonitor(storeId, 'reauthenticating', 'Could not get back to the order list');
+                        session.page = await openSessionPage(session);
+                        await session.page.goto(PORTAL_LOGIN_URL, { waitUntil: 'networkidle' });
+                        await submitLogin(session.page, await loadCredentials());
+                        await session.page.goto(PORTAL_ORDER_LIST_URL, {
                           waitUntil: 'networkidle',
                           timeout: 30000
                         });
@@ -1028,7 +656,7 @@ export async function startOrderMonitoring(email: string, password: string, onNe
               console.error(`Error processing order (attempt ${retryCount + 1}):`, orderId, error);
               retryCount++;
               if (retryCount < 3) {
-                await monitoringPage.waitForTimeout(3000);
+                await session.page.waitForTimeout(3000);
               }
             }
           }
@@ -1038,7 +666,7 @@ export async function startOrderMonitoring(email: string, password: string, onNe
         if (!foundNewOrders) {
           console.log('No new orders found, waiting...');
           try {
-            await monitoringPage?.waitForTimeout(5000);
+            await session.page?.waitForTimeout(5000);
           } catch (error) {
             console.error('Error during wait timeout:', error);
             // Don't throw, just continue to next iteration
@@ -1048,19 +676,15 @@ export async function startOrderMonitoring(email: string, password: string, onNe
 
         // Verify page is still connected before refreshing
         try {
-          if (!monitoringPage || monitoringPage.isClosed()) {
+          if (!session.page || session.page.isClosed()) {
             console.error('Page is closed or null, attempting to recreate...');
-            if (monitoringBrowser?.isConnected()) {
+            if (session.browser?.isConnected()) {
+              transitionMonitor(storeId, 'reauthenticating', 'Browser page was closed');
               try {
-                monitoringPage = await monitoringBrowser.newPage();
-                await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/login', { waitUntil: 'networkidle' });
-                await monitoringPage.click('button:has-text("メールアドレス")');
-                const emailLoginForm = monitoringPage.locator('div').filter({ hasText: /^メールアドレスパスワード$/ });
-                await emailLoginForm.locator('input[type="email"]').fill(email);
-                await emailLoginForm.locator('input[type="password"]').fill(password);
-                await monitoringPage.click('button:has-text("ログイン")');
-                await monitoringPage.waitForNavigation({ waitUntil: 'networkidle' });
-                await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/order/order-list', {
+                session.page = await openSessionPage(session);
+                await session.page.goto(PORTAL_LOGIN_URL, { waitUntil: 'networkidle' });
+                await submitLogin(session.page, await loadCredentials());
+                await session.page.goto(PORTAL_ORDER_LIST_URL, {
                   waitUntil: 'networkidle',
                   timeout: 30000
                 });
@@ -1075,14 +699,14 @@ export async function startOrderMonitoring(email: string, password: string, onNe
             continue;
           }
 
-          const currentUrl = await monitoringPage.evaluate(() => window.location.href);
+          const currentUrl = await session.page.evaluate(() => window.location.href);
           if (currentUrl.includes('order-list')) {
             try {
               // Wait before refreshing
-              await monitoringPage.waitForTimeout(2000);
-              await monitoringPage.reload({ waitUntil: 'networkidle', timeout: 30000 });
+              await session.page.waitForTimeout(2000);
+              await session.page.reload({ waitUntil: 'networkidle', timeout: 30000 });
               // Wait after refreshing
-              await monitoringPage.waitForTimeout(2000);
+              await session.page.waitForTimeout(2000);
             } catch (error) {
               console.error('Error refreshing page:', error);
               // Don't throw, just continue to next iteration
@@ -1091,7 +715,7 @@ export async function startOrderMonitoring(email: string, password: string, onNe
           } else {
             console.log('Not on order list page, navigating back...');
             try {
-              await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/order/order-list', {
+              await session.page.goto(PORTAL_ORDER_LIST_URL, {
                 waitUntil: 'networkidle',
                 timeout: 30000
               });
@@ -1108,38 +732,47 @@ export async function startOrderMonitoring(email: string, password: string, onNe
         }
 
       } catch (error) {
+        // Errors after a stop are just the browser closing underneath us
+        if (!session.active) {
+          break;
+        }
+
         console.error('Error in monitoring loop:', error);
+        onError?.(error);
         consecutiveErrors++;
+        transitionMonitor(
+          storeId,
+          'backoff',
+          `${describeError(error)} (${consecutiveErrors}/${MAX_CONSECUTIVE_ERRORS} consecutive errors)`
+        );
         
         if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
           console.error(`Too many consecutive errors (${consecutiveErrors}), attempting full restart...`);
+          transitionMonitor(storeId, 'launching', `Restarting browser after ${consecutiveErrors} consecutive errors`);
           try {
             // Close existing browser if it exists
-            if (monitoringBrowser?.isConnected()) {
-              await monitoringBrowser.close();
+            if (session.browser?.isConnected()) {
+              await session.browser.close();
             }
             
             // Create new browser and page
-            monitoringBrowser = await chromium.launch({ 
+            session.browser = await chromium.launch({ 
               headless: isDocker ? true : false,
               slowMo: 200,
               args: isDocker ? ['--no-sandbox'] : []
             });
-            monitoringPage = await monitoringBrowser.newPage();
+            session.page = await openSessionPage(session);
+            transitionMonitor(storeId, 'logging_in', 'Browser relaunched');
             
             // Log in again
-            await monitoringPage.goto('https://partner.demae-can.com/merchant-admin/login', { waitUntil: 'networkidle' });
-            await monitoringPage.click('button:has-text("メールアドレス")');
-            const emailLoginForm = monitoringPage.locator('div').filter({ hasText: /^メールアドレスパスワード$/ });
-            await emailLoginForm.locator('input[type="email"]').fill(email);
-            await emailLoginForm.locator('input[type="password"]').fill(password);
-            await monitoringPage.click('button:has-text("ログイン")');
-            await monitoringPage.waitForNavigation({ waitUntil: 'networkidle' });
+            await session.page.goto(PORTAL_LOGIN_URL, { waitUntil: 'networkidle' });
+            await submitLogin(session.page, await loadCredentials());
             
             consecutiveErrors = 0;
             console.log('Successfully performed full restart');
           } catch (restartError) {
             console.error('Failed to perform full restart:', restartError);
+            transitionMonitor(storeId, 'backoff', `Full restart failed: ${describeError(restartError)}`);
           }
         }
         
@@ -1150,45 +783,61 @@ export async function startOrderMonitoring(email: string, password: string, onNe
     }
 
     // Only stop monitoring if explicitly requested via stopOrderMonitoring()
-    if (!isMonitoringActive) {
+    if (!session.active) {
       console.log('Monitoring was explicitly stopped');
-      await stopOrderMonitoring();
+      await stopOrderMonitoring(storeId);
       return { success: false, monitoring: false, existing: false };
     }
 
     return { success: true, monitoring: true, existing: false };
   } catch (error) {
     console.error('Error in startOrderMonitoring:', error);
-    await stopOrderMonitoring();
-    return { success: false, monitoring: false, existing: false };
+    onError?.(error);
+    await stopOrderMonitoring(storeId, 'failed', describeError(error));
+    return {
+      success: false,
+      monitoring: false,
+      existing: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
   }
 }
 
-export async function stopOrderMonitoring() {
+/**
+ * Close the monitoring browser. The monitor ends in `finalState`, unless it
+ * was never started or has already ended.
+ */
+export async function stopOrderMonitoring(
+  storeId: string,
+  finalState: Extract<MonitorState, 'stopped' | 'failed'> = 'stopped',
+  reason = 'Monitoring stopped'
+) {
+  const session = getSession(storeId);
   try {
     // Set monitoring as inactive first
-    isMonitoringActive = false;
+    session.active = false;
     // Clear processed orders set
-    processedOrderIds.clear();
+    session.processedOrderIds.clear();
+    session.knownOrderStatuses.clear();
 
     // Close page if it exists and is not closed
-    if (monitoringPage && !monitoringPage.isClosed()) {
+    if (session.page && !session.page.isClosed()) {
       try {
-        await monitoringPage.close();
+        await session.page.close();
       } catch (error) {
         console.error('Error closing page:', error);
       }
     }
 
     // Close browser if it exists and is connected
-    if (monitoringBrowser && monitoringBrowser.isConnected()) {
+    if (session.browser && session.browser.isConnected()) {
       try {
         // Close all contexts first
-        const contexts = monitoringBrowser.contexts();
+        const contexts = session.browser.contexts();
         for (const context of contexts) {
           await context.close();
         }
-        await monitoringBrowser.close();
+        await session.browser.close();
       } catch (error) {
         console.error('Error closing browser:', error);
       }
@@ -1197,14 +846,19 @@ export async function stopOrderMonitoring() {
     console.error('Error in stopOrderMonitoring:', error);
   } finally {
     // Always reset the state variables
-    monitoringPage = null;
-    monitoringBrowser = null;
-    isMonitoringActive = false;
-    processedOrderIds.clear();
+    session.page = null;
+    session.context = null;
+    session.browser = null;
+    session.active = false;
+    session.processedOrderIds.clear();
+    session.knownOrderStatuses.clear();
+    if (!['idle', 'stopped', 'failed'].includes(getMonitorState(storeId))) {
+      transitionMonitor(storeId, finalState, reason);
+    }
   }
 }
 
-export async function scrapeOrders(email: string, password: string) {
+export async function scrapeOrders(credentials: PortalCredentials) {
   const browser = await chromium.launch({ 
     headless: isDocker ? true : false,
     slowMo: 200,
@@ -1215,13 +869,8 @@ export async function scrapeOrders(email: string, password: string) {
 
   try {
     // Login process
-    await page.goto('https://partner.demae-can.com/merchant-admin/login', { waitUntil: 'networkidle' });
-    await page.click('button:has-text("メールアドレス")');
-    const emailLoginForm = page.locator('div').filter({ hasText: /^メールアドレスパスワード$/ });
-    await emailLoginForm.locator('input[type="email"]').fill(email);
-    await emailLoginForm.locator('input[type="password"]').fill(password);
-    await page.click('button:has-text("ログイン")');
-    await page.waitForNavigation({ waitUntil: 'networkidle' });
+    await page.goto(PORTAL_LOGIN_URL, { waitUntil: 'networkidle' });
+    await submitLogin(page, credentials);
 
     // Check for login errors
     const errorElement = await page.$('text=/Error|Invalid|失敗/i');
@@ -1234,7 +883,7 @@ export async function scrapeOrders(email: string, password: string) {
 
     // Function to navigate to orders page and wait for table
     async function goToOrderList() {
-      await page.goto('https://partner.demae-can.com/merchant-admin/order/order-list', {
+      await page.goto(PORTAL_ORDER_LIST_URL, {
         waitUntil: 'networkidle'
       });
       
@@ -1338,239 +987,7 @@ export async function scrapeOrders(email: string, password: string) {
         await page.waitForTimeout(2000);
 
         // Get order details
-        const orderDetails = await page.evaluate(() => {
-          const findValueByLabel = (labelText: string): string => {
-            // Try finding in dl/dt/dd structure
-            const dlElements = document.querySelectorAll('dl');
-            for (const dl of dlElements) {
-              const dt = dl.querySelector('dt');
-              const dd = dl.querySelector('dd');
-              if (dt?.textContent?.includes(labelText) && dd) {
-                return dd.textContent?.trim() || '';
-              }
-            }
-
-            // Try finding in table structure
-            const tables = document.querySelectorAll('table');
-            for (const table of tables) {
-              const rows = table.querySelectorAll('tr');
-              for (const row of rows) {
-                const cells = row.querySelectorAll('td, th');
-                for (const cell of cells) {
-                  if (cell.textContent?.includes(labelText)) {
-                    const nextCell = cell.nextElementSibling;
-                    if (nextCell) {
-                      return nextCell.textContent?.trim() || '';
-                    }
-                  }
-                }
-              }
-            }
-
-            // Try finding in dt/dd pairs
-            const allDts = document.querySelectorAll('dt');
-            for (const dt of allDts) {
-              if (dt.textContent?.includes(labelText)) {
-                const nextElement = dt.nextElementSibling;
-                if (nextElement?.tagName.toLowerCase() === 'dd') {
-                  return nextElement.textContent?.trim() || '';
-                }
-              }
-            }
-
-            // Try finding in any element with specific text content
-            const elements = document.querySelectorAll('*');
-            for (const element of elements) {
-              if (element.textContent?.includes(labelText)) {
-                const parent = element.parentElement;
-                if (parent) {
-                  return parent.textContent?.replace(labelText, '').trim() || '';
-                }
-              }
-            }
-
-            return '';
-          };
-
-          // Extract price information
-          let total = 0;
-          
-          // First find the items section
-          const itemsFieldset = Array.from(document.querySelectorAll('fieldset')).find(el => 
-            el.textContent?.includes('商品情報') || 
-            el.textContent?.includes('注文商品')
-          );
-
-          if (itemsFieldset) {
-            // Get all divs in the fieldset
-            const allDivs = Array.from(itemsFieldset.querySelectorAll('div'));
-            
-            // Look for the last occurrence of '合計'
-            for (let i = allDivs.length - 1; i >= 0; i--) {
-              const div = allDivs[i];
-              const text = div.textContent || '';
-              
-              if (text.includes('合計')) {
-                const match = text.match(/[¥￥]([0-9,]+)/);
-                if (match) {
-                  total = parseInt(match[1].replace(/,/g, ''));
-                  break;
-                }
-              }
-            }
-          }
-          
-          // If still not found, try the old method as fallback
-          if (total === 0) {
-            const elements = document.querySelectorAll('*');
-            for (const el of elements) {
-              if (el.textContent?.includes('合計')) {
-                const text = el.textContent;
-                const match = text.match(/[¥￥]([0-9,]+)/);
-                if (match) {
-                  total = parseInt(match[1].replace(/,/g, ''));
-                  break;
-                }
-              }
-            }
-          }
-          
-          // Get items information
-          let items = '';
-          let hasUtensils = false;
-          let notes = '';  // Add notes variable
-          
-          // Extract notes from 備考 fieldset
-          const remarkFieldset = Array.from(document.querySelectorAll('fieldset')).find(el => 
-            el.textContent?.includes('備考')
-          );
-          
-          if (remarkFieldset) {
-            const remarkContent = remarkFieldset.textContent || '';
-            notes = remarkContent.replace('備考', '').trim();
-          }
-
-          // If notes not found in fieldset, try finding in other elements
-          if (!notes) {
-            const remarkElements = Array.from(document.querySelectorAll('*')).filter(el => 
-              el.textContent?.includes('備考')
-            );
-            
-            for (const el of remarkElements) {
-              const parent = el.parentElement;
-              if (parent && parent.textContent) {
-                notes = parent.textContent.replace('備考', '').trim();
-                if (notes) break;
-              }
-            }
-          }
-
-          // Try to find utensils in the order items table first
-          const orderItemsTable = document.querySelector('table.orderItemList');
-          if (orderItemsTable) {
-            const tableText = orderItemsTable.textContent || '';
-            if (tableText.includes('箸、スプーン、おしぼり等／Utensils') || 
-                tableText.includes('箸、スプーン、おしぼり等') ||
-                tableText.includes('Utensils')) {
-              hasUtensils = true;
-            }
-          }
-
-          // If not found in table, try all elements
-          if (!hasUtensils) {
-            const allElements = document.querySelectorAll('*');
-            for (const el of allElements) {
-              const text = el.textContent || '';
-              if (text.includes('箸、スプーン、おしぼり等／Utensils') || 
-                  text.includes('箸、スプーン、おしぼり等') ||
-                  text.includes('Utensils')) {
-                hasUtensils = true;
-                break;
-              }
-            }
-          }
-
-          // Get the items information
-          const itemsSection = Array.from(document.querySelectorAll('*')).find(el => 
-            el.textContent?.includes('商品情報') || 
-            el.textContent?.includes('注文商品')
-          );
-          
-          if (itemsSection) {
-            // Get the parent container that might contain the items list
-            const container = itemsSection.closest('dl, div, section');
-            if (container) {
-              items = container.textContent || '';
-              // Clean up the text
-              items = items.replace('商品情報', '').replace('注文商品', '').trim();
-            }
-          }
-
-          // If not found, try the general search
-          if (!items) {
-            items = findValueByLabel('商品情報') || findValueByLabel('注文商品') || '';
-          }
-
-          // If utensils were found, make sure they're included in the items text
-          if (hasUtensils && !items.includes('箸、スプーン、おしぼり等／Utensils')) {
-            items = items + ' 箸、スプーン、おしぼり等／Utensils';
-          }
-
-          return {
-            orderId: findValueByLabel('注文ID'),
-            orderTime: (() => {
-              const rawTime = findValueByLabel('注文日時');
-              // Check if the date is already in the correct format
-              if (rawTime.includes('/')) {
-                return rawTime;
-              }
-              // Try to parse and format the date
-              try {
-                const date = new Date(rawTime);
-                // Format date as YYYY/MM/DD HH:mm:ss
-                const year = date.getFullYear();
-                const month = String(date.getMonth() + 1).padStart(2, '0');
-                const day = String(date.getDate()).padStart(2, '0');
-                const hours = String(date.getHours()).padStart(2, '0');
-                const minutes = String(date.getMinutes()).padStart(2, '0');
-                const seconds = String(date.getSeconds()).padStart(2, '0');
-                return `${year}/${month}/${day} ${hours}:${minutes}:${seconds}`;
-              } catch {
-                return rawTime;
-              }
-            })(),
-            deliveryTime: (() => {
-              const rawTime = findValueByLabel('配達/テイクアウト日時') || findValueByLabel('配達希望日時');
-              console.log('Raw delivery time:', rawTime);
-              // Parse the date and subtract 15 hours
-              try {
-                const date = new Date(rawTime);
-                date.setHours(date.getHours() - 15);
-                // Format date as YYYY/MM/DD HH:mm:ss in 24-hour format
-                const year = date.getFullYear();
-                const month = String(date.getMonth() + 1).padStart(2, '0');
-                const day = String(date.getDate()).padStart(2, '0');
-                const hours = String(date.getHours()).padStart(2, '0');
-                const minutes = String(date.getMinutes()).padStart(2, '0');
-                const seconds = String(date.getSeconds()).padStart(2, '0');
-                return `${year}/${month}/${day} ${hours}:${minutes}:${seconds}`;
-              } catch {
-                return rawTime;
-              }
-            })(),
-            paymentMethod: findValueByLabel('支払方法'),
-            visitCount: findValueByLabel('店舗利用回数'),
-            customerName: findValueByLabel('注文者氏名'),
-            customerPhone: findValueByLabel('注文者電話番号'),
-            receiptName: findValueByLabel('領収書宛名'),
-            waitingTime: findValueByLabel('受付時の待ち時間'),
-            address: findValueByLabel('配達先住所'),
-            items: items,
-            totalAmount: total,
-            status,
-            notes: notes  // Add notes to the returned object
-          };
-        });
+        const orderDetails = await readOrderDetail(page, status);
 
         if (!orderDetails.orderId || orderDetails.orderId === '-') {
           await goToOrderList();
@@ -0,0 +1,100 @@
+// Signed session cookies for signed-in staff. This module is imported by the
+// middleware, which runs on the edge runtime, so it uses Web Crypto rather
+// than Node's crypto.
+
+export const SESSION_COOKIE = 'robokun_session';
+// Long enough for a full shift
+export const SESSION_MAX_AGE_SECONDS = 12 * 60 * 60;
+
+// Set by the middleware on every authenticated request; any value sent by
+// the client is discarded first
+export const STAFF_ID_HEADER = 'x-staff-id';
+
+export interface SessionPayload {
+  staffId: string;
+  name: string;
+  // Expiry, epoch milliseconds
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+let cachedKey: { secret: string; key: Promise<CryptoKey> } | null = null;
+
+function getKey(): Promise<CryptoKey> {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not set; it is required to sign staff sessions');
+  }
+  if (cachedKey?.secret !== secret) {
+    cachedKey = {
+      secret,
+      key: crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+    };
+  }
+  return cachedKey.key;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+export function isSessionSecretConfigured(): boolean {
+  return Boolean(process.env.SESSION_SECRET);
+}
+
+// "<payload>.<signature>", both base64url
+export async function createSessionToken(staff: { id: string; name: string }): Promise<string> {
+  const payload: SessionPayload = {
+    staffId: staff.id,
+    name: staff.name,
+    exp: Date.now() + SESSION_MAX_AGE_SECONDS * 1000
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// The session a token carries, or null if it is forged, malformed or expired
+export async function verifySessionToken(token: string | undefined): Promise<SessionPayload | null> {
+  if (!token) {
+    return null;
+  }
+
+  const [body, signature] = token.split('.');
+  if (!body || !signature) {
+    return null;
+  }
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await getKey(), fromBase64Url(signature), encoder.encode(body));
+    if (!valid) {
+      return null;
+    }
+    const payload: SessionPayload = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+    if (typeof payload.staffId !== 'string' || typeof payload.exp !== 'number' || payload.exp < Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Cookie attributes for the session; Secure only when served over HTTPS,
+// since the shop runs the dashboard over plain HTTP on its LAN
+export function sessionCookieOptions(request: Request) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: new URL(request.url).protocol === 'https:',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS
+  };
+}
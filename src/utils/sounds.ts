@@ -0,0 +1,38 @@
+import type { RuleSound } from './orderRules';
+
+// Short alert tones for highlight rules, synthesised in the browser so there
+// are no audio files to ship. Browsers only allow sound after the page has
+// been interacted with; until then playSound does nothing.
+
+// Each tone as [frequency Hz, start s, length s]
+const TONES: Record<Exclude<RuleSound, 'none'>, [number, number, number][]> = {
+  chime: [[880, 0, 0.15], [1320, 0.15, 0.3]],
+  alert: [[660, 0, 0.12], [660, 0.2, 0.12], [660, 0.4, 0.12]],
+  bell: [[1047, 0, 0.8]]
+};
+
+let context: AudioContext | null = null;
+
+export function playSound(sound: RuleSound) {
+  if (sound === 'none' || typeof window === 'undefined' || !window.AudioContext) {
+    return;
+  }
+  context ??= new AudioContext();
+  if (context.state === 'suspended') {
+    context.resume().catch(() => {});
+  }
+
+  const now = context.currentTime;
+  for (const [frequency, start, length] of TONES[sound]) {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = sound === 'alert' ? 'square' : 'sine';
+    oscillator.frequency.value = frequency;
+    // Fade out so the tone doesn't click
+    gain.gain.setValueAtTime(0.2, now + start);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + start + length);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(now + start);
+    oscillator.stop(now + start + length);
+  }
+}
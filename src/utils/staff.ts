@@ -0,0 +1,90 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { Staff } from '@prisma/client';
+import { prisma } from './prisma';
+import { STAFF_ID_HEADER } from './session';
+import { can, Permission } from './permissions';
+
+// Staff accounts sign in with a short numeric PIN. PINs are hashed with
+// scrypt; since a PIN alone identifies the staff member, every active
+// account must have a different one.
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const PIN_KEY_LENGTH = 32;
+
+export function isValidPin(pin: unknown): pin is string {
+  return typeof pin === 'string' && /^\d{4,8}$/.test(pin);
+}
+
+// "<salt>:<hash>", both hex
+export async function hashPin(pin: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(pin, salt, PIN_KEY_LENGTH);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+async function verifyPin(pin: string, pinHash: string): Promise<boolean> {
+  const [salt, hash] = pinHash.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+  const candidate = await scryptAsync(pin, Buffer.from(salt, 'hex'), PIN_KEY_LENGTH);
+  return timingSafeEqual(candidate, Buffer.from(hash, 'hex'));
+}
+
+// The active staff member with this PIN, if any
+export async function findStaffByPin(pin: string, exceptStaffId?: string): Promise<Staff | null> {
+  const candidates = await prisma.staff.findMany({
+    where: { active: true, ...(exceptStaffId ? { NOT: { id: exceptStaffId } } : {}) }
+  });
+  for (const staff of candidates) {
+    if (await verifyPin(pin, staff.pinHash)) {
+      return staff;
+    }
+  }
+  return null;
+}
+
+// Whether the PIN is this staff member's
+export async function pinMatches(staff: Staff, pin: string): Promise<boolean> {
+  return verifyPin(pin, staff.pinHash);
+}
+
+// What the API exposes about a staff member; never the PIN hash
+export function toStaffSummary(staff: Staff) {
+  return {
+    id: staff.id,
+    name: staff.name,
+    role: staff.role,
+    active: staff.active
+  };
+}
+
+// The signed-in staff member behind an API request. The middleware has
+// already checked the session cookie; this also catches accounts that were
+// deactivated after signing in.
+export async function getRequestStaff(request: Request): Promise<Staff | null> {
+  const staffId = request.headers.get(STAFF_ID_HEADER);
+  if (!staffId) {
+    return null;
+  }
+  const staff = await prisma.staff.findUnique({ where: { id: staffId } });
+  return staff?.active ? staff : null;
+}
+
+export type StaffAuthorization =
+  | { staff: Staff; error: null; status: 200 }
+  | { staff: null; error: string; status: 401 | 403 };
+
+// Check the signed-in staff member may do something. Handlers turn a
+// failure into a JSON error response with the given status.
+export async function authorizeStaff(request: Request, permission?: Permission): Promise<StaffAuthorization> {
+  const staff = await getRequestStaff(request);
+  if (!staff) {
+    return { staff: null, error: 'Not signed in', status: 401 };
+  }
+  if (permission && !can(staff.role, permission)) {
+    return { staff: null, error: 'You do not have permission to do that', status: 403 };
+  }
+  return { staff, error: null, status: 200 };
+}
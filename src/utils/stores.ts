@@ -0,0 +1,68 @@
+import type { Store } from '@prisma/client';
+import { prisma } from './prisma';
+import { decryptSecret, encryptSecret, PortalCredentials } from './credentials';
+
+// Stores are merchant accounts on the portal. Each one is monitored by its
+// own session and owns the orders scraped from it.
+
+export function normalizeAccountEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Keep the store's display name in step with the 店舗： line on its orders
+export async function recordStoreName(storeId: string, name: string) {
+  if (!name) {
+    return;
+  }
+  await prisma.store.updateMany({
+    where: { id: storeId, NOT: { name } },
+    data: { name }
+  });
+}
+
+// What the API exposes about a store; the password itself never leaves the server
+export function toStoreSummary(store: Store) {
+  return {
+    id: store.id,
+    name: store.name,
+    accountEmail: store.accountEmail,
+    hasCredentials: Boolean(store.encryptedPassword),
+    credentialsUpdatedAt: store.credentialsUpdatedAt?.toISOString() ?? null,
+    invoiceRegistrationNumber: store.invoiceRegistrationNumber
+  };
+}
+
+// Save (or replace) the portal password for an account, creating its store if needed
+export async function saveStoreCredentials(accountEmail: string, password: string) {
+  const email = normalizeAccountEmail(accountEmail);
+  const credentials = {
+    encryptedPassword: encryptSecret(password),
+    credentialsUpdatedAt: new Date()
+  };
+  return prisma.store.upsert({
+    where: { accountEmail: email },
+    update: credentials,
+    create: { accountEmail: email, ...credentials }
+  });
+}
+
+// Rotate the password of an existing store. A running monitor uses it from its next login.
+export async function updateStorePassword(storeId: string, password: string) {
+  return prisma.store.update({
+    where: { id: storeId },
+    data: { encryptedPassword: encryptSecret(password), credentialsUpdatedAt: new Date() }
+  });
+}
+
+// Decrypt a store's login. Called at every portal login so rotated
+// passwords take effect without restarting monitoring.
+export async function getStoreCredentials(storeId: string): Promise<PortalCredentials> {
+  const store = await prisma.store.findUnique({ where: { id: storeId } });
+  if (!store) {
+    throw new Error('Store not found');
+  }
+  if (!store.encryptedPassword) {
+    throw new Error(`No portal password saved for ${store.accountEmail}`);
+  }
+  return { email: store.accountEmail, password: decryptSecret(store.encryptedPassword) };
+}
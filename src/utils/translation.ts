@@ -0,0 +1,201 @@
+import { translate as googleTranslate } from '@vitalets/google-translate-api';
+import { prisma } from './prisma';
+import { publishOrderEvent } from './orderEvents';
+import { glossaryTranslator } from './translationGlossary';
+
+// Notes and item names are translated between Japanese and English so
+// foreign customers' requests reach the kitchen and English-speaking staff
+// can read the menu. Japanese text goes into English and anything else into
+// Japanese. Orders are translated in the background when they are saved and
+// the results cached per order, so pages and printing never wait on the
+// provider.
+
+export type Language = 'ja' | 'en';
+
+export interface Translator {
+  name: string;
+  // The text in the given language, or null if the translator has nothing
+  translate(text: string, to: Language): Promise<string | null>;
+}
+
+const ONLINE_TIMEOUT_MS = 5000;
+
+// However many texts an order has, its translation gives up after this
+const TRANSLATION_DEADLINE_MS = 10 * 1000;
+
+// How long a failed translation is left before it is tried again
+const FAILURE_RETRY_MS = 10 * 60 * 1000;
+
+// Longer text is left as it is
+const MAX_SOURCE_LENGTH = 1000;
+
+// Google Translate through its public web endpoint; no key needed, but
+// rate limited and only as reliable as the network
+const googleTranslator: Translator = {
+  name: 'google',
+  async translate(text: string, to: Language) {
+    const result = await googleTranslate(text, {
+      to,
+      fetchOptions: { signal: AbortSignal.timeout(ONLINE_TIMEOUT_MS) }
+    });
+    return result.text && result.text !== text ? result.text : null;
+  }
+};
+
+const TRANSLATORS: Record<string, Translator> = {
+  glossary: glossaryTranslator,
+  google: googleTranslator
+};
+
+// The provider set by TRANSLATOR, defaulting to the offline glossary
+export function getTranslator(): Translator {
+  return TRANSLATORS[process.env.TRANSLATOR || 'glossary'] ?? glossaryTranslator;
+}
+
+export function targetLanguage(text: string): Language {
+  return /[\u3040-\u30ff\u3400-\u9fff]/.test(text) ? 'en' : 'ja';
+}
+
+// The portal sends '-' or markup when there are no notes
+const isTranslatable = (text: string | null): text is string =>
+  Boolean(text && text.trim() && text !== '-' && !/^[{<!]/.test(text) && text.length <= MAX_SOURCE_LENGTH);
+
+// Each original text on an order mapped to its translation, leaving out
+// texts with none
+export type OrderTranslations = Record<string, string>;
+
+type TranslatableOrder = { orderId: string; notes: string | null; lineItems: { name: string; options: string }[] };
+
+// Orders being translated, so a burst of requests queues each only once
+const globalForTranslation = globalThis as unknown as { translationsInFlight?: Set<string> };
+const translationsInFlight = globalForTranslation.translationsInFlight ?? new Set<string>();
+globalForTranslation.translationsInFlight = translationsInFlight;
+
+function sourcesOf(order: TranslatableOrder): string[] {
+  return [...new Set(
+    [order.notes, ...order.lineItems.flatMap(item => [item.name, ...item.options.split('\n')])].filter(isTranslatable)
+  )];
+}
+
+// A failed translation is cached as failed and only tried again after this
+const isStaleFailure = (failedAt: Date | null) => failedAt !== null && Date.now() - failedAt.getTime() > FAILURE_RETRY_MS;
+
+// Settles with null if the promise hasn't by the deadline
+function beforeDeadline<T>(promise: Promise<T>, deadline: Promise<null>): Promise<T | null> {
+  return Promise.race([promise, deadline]);
+}
+
+// Translate an order's texts that aren't cached yet, all at once, and cache
+// the results. Texts that fail or miss the deadline are cached as failed.
+async function translateOrder(orderId: string) {
+  const order = await prisma.order.findUnique({
+    where: { orderId },
+    select: { orderId: true, notes: true, lineItems: { select: { name: true, options: true } } }
+  });
+  if (!order) {
+    return;
+  }
+  const translator = getTranslator();
+  const cached = new Map(
+    (await prisma.translation.findMany({ where: { orderId, provider: translator.name } })).map(row => [row.source, row])
+  );
+  const sources = sourcesOf(order).filter(source => {
+    const row = cached.get(source);
+    return !row || isStaleFailure(row.failedAt);
+  });
+  if (sources.length === 0) {
+    return;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), TRANSLATION_DEADLINE_MS);
+  });
+  const results = await Promise.all(sources.map(async source => {
+    const language = targetLanguage(source);
+    try {
+      const outcome = await beforeDeadline(translator.translate(source, language).then(text => ({ text })), deadline);
+      return { source, language, text: outcome?.text ?? null, failed: outcome === null };
+    } catch (error) {
+      console.error(`Failed to translate for ${orderId} with ${translator.name}:`, error);
+      return { source, language, text: null, failed: true };
+    }
+  }));
+  clearTimeout(timer);
+
+  for (const { source, language, text, failed } of results) {
+    const data = { text: text ?? '', language, failedAt: failed ? new Date() : null };
+    await prisma.translation.upsert({
+      where: { orderId_provider_source: { orderId, provider: translator.name, source } },
+      create: { orderId, source, provider: translator.name, ...data },
+      update: data
+    });
+  }
+  // Let open dashboards pick the translations up
+  if (results.some(result => result.text)) {
+    publishOrderEvent('order.updated', orderId);
+  }
+  const failures = results.filter(result => result.failed).length;
+  if (failures > 0) {
+    console.error(`${failures} of ${results.length} translations for ${orderId} failed or timed out`);
+  }
+}
+
+// Translate an order in the background. Called when an order is saved, and
+// for orders found without translations when they are read.
+export function queueTranslation(orderId: string) {
+  if (translationsInFlight.has(orderId)) {
+    return;
+  }
+  translationsInFlight.add(orderId);
+  translateOrder(orderId)
+    .catch(error => console.error(`Error translating ${orderId}:`, error))
+    .finally(() => translationsInFlight.delete(orderId));
+}
+
+/**
+ * Cached translations of each order's notes, item names and options, keyed
+ * by orderId. Never waits on the provider: texts not translated yet, or
+ * whose translation failed, get the glossary's version for now and the
+ * order is queued for translation.
+ */
+export async function getOrderTranslations(orders: TranslatableOrder[]): Promise<Map<string, OrderTranslations>> {
+  const translator = getTranslator();
+  const cached = orders.length > 0
+    ? await prisma.translation.findMany({
+      where: { orderId: { in: orders.map(order => order.orderId) }, provider: translator.name }
+    })
+    : [];
+  const cachedByOrder = new Map<string, Map<string, (typeof cached)[number]>>();
+  for (const row of cached) {
+    const rows = cachedByOrder.get(row.orderId) ?? new Map();
+    rows.set(row.source, row);
+    cachedByOrder.set(row.orderId, rows);
+  }
+
+  const translations = new Map<string, OrderTranslations>();
+  for (const order of orders) {
+    const orderTranslations: OrderTranslations = {};
+    const rows = cachedByOrder.get(order.orderId);
+    let pending = false;
+    for (const source of sourcesOf(order)) {
+      const row = rows?.get(source);
+      if (row && !row.failedAt) {
+        if (row.text) {
+          orderTranslations[source] = row.text;
+        }
+        continue;
+      }
+      pending ||= !row || isStaleFailure(row.failedAt);
+      const fallback = await glossaryTranslator.translate(source, targetLanguage(source));
+      if (fallback) {
+        orderTranslations[source] = fallback;
+      }
+    }
+    if (pending) {
+      queueTranslation(order.orderId);
+    }
+    translations.set(order.orderId, orderTranslations);
+  }
+  return translations;
+}
@@ -0,0 +1,129 @@
+import type { Language, Translator } from './translation';
+
+// The offline translator: swaps known food and delivery terms between
+// Japanese and English. It won't translate a sentence, but it covers the
+// item names, options and short requests that make up most orders, with no
+// network and no account.
+
+// [Japanese, English]. Longer terms are matched first, so combinations like
+// 玉ねぎ抜き win over 玉ねぎ. Where several Japanese terms share an English
+// one, the first is used when translating into Japanese.
+const GLOSSARY: [string, string][] = [
+  // Spice and portions
+  ['激辛', 'extra spicy'],
+  ['辛口', 'spicy'],
+  ['中辛', 'medium spicy'],
+  ['甘口', 'mild'],
+  ['大盛り', 'large portion'],
+  ['大盛', 'large portion'],
+  ['少なめ', 'less'],
+  ['多め', 'extra'],
+  // Things left out
+  ['玉ねぎ抜き', 'no onion'],
+  ['ネギ抜き', 'no green onion'],
+  ['パクチー抜き', 'no coriander'],
+  ['にんにく抜き', 'no garlic'],
+  ['辛さ控えめ', 'less spicy'],
+  // Ingredients
+  ['玉ねぎ', 'onion'],
+  ['たまねぎ', 'onion'],
+  ['ネギ', 'green onion'],
+  ['パクチー', 'coriander'],
+  ['にんにく', 'garlic'],
+  ['チーズ', 'cheese'],
+  ['バターチキン', 'butter chicken'],
+  ['チキン', 'chicken'],
+  ['マトン', 'mutton'],
+  ['ポーク', 'pork'],
+  ['ビーフ', 'beef'],
+  ['エビ', 'shrimp'],
+  ['海老', 'shrimp'],
+  ['卵', 'egg'],
+  ['ほうれん草', 'spinach'],
+  ['野菜', 'vegetable'],
+  ['豆', 'beans'],
+  ['マンゴー', 'mango'],
+  // Dishes and sides
+  ['カレー', 'curry'],
+  ['キーマ', 'keema'],
+  ['タンドリー', 'tandoori'],
+  ['ビリヤニ', 'biryani'],
+  ['サモサ', 'samosa'],
+  ['ナン', 'naan'],
+  ['ライス', 'rice'],
+  ['ご飯', 'rice'],
+  ['サラダ', 'salad'],
+  ['スープ', 'soup'],
+  ['ラッシー', 'lassi'],
+  ['ドリンク', 'drink'],
+  ['セット', 'set'],
+  ['弁当', 'bento'],
+  // Allergies
+  ['アレルギー', 'allergy'],
+  ['乳製品', 'dairy'],
+  ['小麦', 'wheat'],
+  ['ピーナッツ', 'peanuts'],
+  ['ナッツ', 'nuts'],
+  // Utensils
+  ['箸', 'chopsticks'],
+  ['スプーン', 'spoon'],
+  ['フォーク', 'fork'],
+  ['おしぼり', 'wet towel'],
+  // Delivery
+  ['置き配', 'leave at the door'],
+  ['玄関前', 'in front of the door'],
+  ['インターホン', 'intercom'],
+  ['インターフォン', 'intercom'],
+  ['呼び鈴', 'doorbell'],
+  ['電話', 'call'],
+  ['到着', 'arrival'],
+  ['不要', 'not needed'],
+  ['ありがとうございます', 'thank you'],
+  ['よろしくお願いします', 'thank you'],
+  ['お願いします', 'please']
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const byLength = (a: string, b: string) => b.length - a.length;
+
+const JAPANESE_TERMS = new Map(GLOSSARY);
+const ENGLISH_TERMS = new Map<string, string>();
+for (const [japanese, english] of GLOSSARY) {
+  if (!ENGLISH_TERMS.has(english)) {
+    ENGLISH_TERMS.set(english, japanese);
+  }
+}
+
+const JAPANESE_PATTERN = new RegExp([...JAPANESE_TERMS.keys()].sort(byLength).map(escapeRegExp).join('|'), 'g');
+// Whole words only, allowing a plural s
+const ENGLISH_PATTERN = new RegExp(
+  `\\b(${[...ENGLISH_TERMS.keys()].sort(byLength).map(escapeRegExp).join('|')})s?\\b`,
+  'gi'
+);
+
+export const glossaryTranslator: Translator = {
+  name: 'glossary',
+  async translate(text: string, to: Language) {
+    const normalized = text.normalize('NFKC');
+    let matched = false;
+    const translated = to === 'en'
+      ? normalized.replace(JAPANESE_PATTERN, term => {
+        matched = true;
+        return ` ${JAPANESE_TERMS.get(term)} `;
+      })
+      : normalized.replace(ENGLISH_PATTERN, (word, term: string) => {
+        matched = true;
+        return ENGLISH_TERMS.get(term.toLowerCase()) ?? word;
+      });
+    if (!matched) {
+      return null;
+    }
+    // Terms were padded with spaces; tidy those up around punctuation
+    return (to === 'en' ? translated.replace(/\s*、\s*/g, ', ').replace(/\s*。\s*/g, '. ') : translated)
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\(\s+/g, '(')
+      .replace(/\s+([),.])/g, '$1')
+      .trim();
+  }
+};
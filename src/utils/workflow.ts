@@ -0,0 +1,128 @@
+import { can, Permission } from './permissions';
+
+// The fulfilment workflow every order moves through once it arrives. The
+// stages, their order on the board, the moves allowed between them and who
+// may make each move are all defined here; change this file to change the
+// workflow. Shared by the API, which validates moves, and the pages.
+
+export type OrderStage = 'received' | 'cooking' | 'ready' | 'out_for_delivery' | 'delivered' | 'cancelled';
+
+// Board columns, left to right. Everything but cancelled is in forward order.
+export const ORDER_STAGES: OrderStage[] = ['received', 'cooking', 'ready', 'out_for_delivery', 'delivered', 'cancelled'];
+
+export const STAGE_LABELS: Record<OrderStage, string> = {
+  received: 'Received',
+  cooking: 'Cooking',
+  ready: 'Ready',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled'
+};
+
+// Allowed moves. The first entry is the normal next step; stepping back one
+// stage is allowed to undo a mistaken tap.
+export const STAGE_TRANSITIONS: Record<OrderStage, OrderStage[]> = {
+  received: ['cooking', 'cancelled'],
+  cooking: ['ready', 'received', 'cancelled'],
+  ready: ['out_for_delivery', 'cooking', 'cancelled'],
+  out_for_delivery: ['delivered', 'ready', 'cancelled'],
+  delivered: ['out_for_delivery'],
+  cancelled: ['received']
+};
+
+// Stages an order is finished in; it no longer goes on a driver's run
+export const CLOSED_STAGES: OrderStage[] = ['delivered', 'cancelled'];
+
+// Order columns holding the time each stage was entered. Received is the
+// order's createdAt.
+export const STAGE_TIMESTAMP_FIELDS = {
+  cooking: 'cookingAt',
+  ready: 'readyAt',
+  out_for_delivery: 'outForDeliveryAt',
+  delivered: 'deliveredAt',
+  cancelled: 'cancelledAt'
+} as const satisfies Partial<Record<OrderStage, string>>;
+
+type StageTimestampField = (typeof STAGE_TIMESTAMP_FIELDS)[keyof typeof STAGE_TIMESTAMP_FIELDS];
+
+// Besides managers (orders.update), who may move an order into each stage.
+// Moves into delivery stages are further limited to the driver's own orders.
+const STAGE_PERMISSIONS: Record<OrderStage, Permission | null> = {
+  received: 'orders.cook',
+  cooking: 'orders.cook',
+  ready: 'orders.cook',
+  out_for_delivery: 'orders.deliverAssigned',
+  delivered: 'orders.deliverAssigned',
+  cancelled: null
+};
+
+// Moves only managers may make, whoever may enter the stage: bringing back a
+// cancelled order, and taking one back once it has gone out with a driver
+const MANAGER_ONLY_MOVES: Partial<Record<OrderStage, OrderStage[]>> = {
+  out_for_delivery: ['ready'],
+  delivered: ['out_for_delivery'],
+  cancelled: ['received']
+};
+
+export function isOrderStage(value: unknown): value is OrderStage {
+  return typeof value === 'string' && (ORDER_STAGES as string[]).includes(value);
+}
+
+export function isClosedStage(stage: string): boolean {
+  return (CLOSED_STAGES as string[]).includes(stage);
+}
+
+export function canTransition(from: string, to: OrderStage): boolean {
+  return isOrderStage(from) && STAGE_TRANSITIONS[from].includes(to);
+}
+
+// The normal next step, or null at the end of the workflow
+export function nextStage(stage: string): OrderStage | null {
+  if (!isOrderStage(stage) || isClosedStage(stage)) {
+    return null;
+  }
+  return STAGE_TRANSITIONS[stage][0];
+}
+
+// Whether a role may move an order from one stage into another; isOwnOrder
+// is true when the order is on the signed-in driver's run
+export function canMoveToStage(
+  role: string | null | undefined,
+  from: string,
+  to: OrderStage,
+  isOwnOrder: boolean
+): boolean {
+  if (can(role, 'orders.update')) {
+    return true;
+  }
+  if (isOrderStage(from) && MANAGER_ONLY_MOVES[from]?.includes(to)) {
+    return false;
+  }
+  const permission = STAGE_PERMISSIONS[to];
+  if (!permission || !can(role, permission)) {
+    return false;
+  }
+  return permission !== 'orders.deliverAssigned' || isOwnOrder;
+}
+
+// Label for a stage, or the raw value for statuses recorded before stages existed
+export function stageLabel(value: string): string {
+  return isOrderStage(value) ? STAGE_LABELS[value] : value;
+}
+
+// Timestamp updates for entering a stage: stamp it, and clear the stages
+// after it so stepping back doesn't leave stale times behind
+export function stageTimestampUpdates(to: OrderStage, at: Date): Partial<Record<StageTimestampField, Date | null>> {
+  const updates: Partial<Record<StageTimestampField, Date | null>> = {};
+  const forwardStages: OrderStage[] = ORDER_STAGES.filter(stage => stage !== 'cancelled');
+  const position = forwardStages.indexOf(to);
+
+  for (const [stage, field] of Object.entries(STAGE_TIMESTAMP_FIELDS) as [OrderStage, StageTimestampField][]) {
+    if (stage === to) {
+      updates[field] = at;
+    } else if (stage === 'cancelled' || (position !== -1 && forwardStages.indexOf(stage) > position)) {
+      updates[field] = null;
+    }
+  }
+  return updates;
+}